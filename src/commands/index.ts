@@ -1,5 +1,39 @@
 import * as vscode from 'vscode';
-import { ExtensionServices } from '../types';
+import * as path from 'path';
+import { AuditFinding, AuditFindingStatus, ContextTreeNode, ExtensionMode, SolidityFinding } from '../types';
+import { ChatProvider } from '../providers/ChatProvider';
+import { ContextProvider } from '../providers/ContextProvider';
+import { AnalysisReportPanel } from '../providers/AnalysisReportPanel';
+import { CodeForgeService } from '../services/CodeForgeService';
+import { McpService } from '../services/McpService';
+import { InlineEditAction, InlineEditService } from '../services/InlineEditService';
+import { GitService } from '../services/GitService';
+import { ReviewService } from '../services/ReviewService';
+import { SolidityService, SolidityTask } from '../services/SolidityService';
+import { AuditService } from '../services/AuditService';
+import { ModeManager } from '../managers/ModeManager';
+import { ConfigurationManager } from '../managers/ConfigurationManager';
+import { SessionManager } from '../managers/SessionManager';
+import { ModelManager } from '../managers/ModelManager';
+import { AUDIT_STATUS_LABELS, AuditTreeNode } from '../providers/AuditProvider';
+import { AbiBindingStyle, isContractArtifactPath, generateAbiBindings, parseContractArtifact } from '../utils/abi';
+
+export interface ExtensionServices {
+    chatProvider: ChatProvider;
+    contextProvider: ContextProvider;
+    codeForgeService: CodeForgeService;
+    modeManager: ModeManager;
+    configManager: ConfigurationManager;
+    sessionManager: SessionManager;
+    modelManager: ModelManager;
+    mcpService: McpService;
+    inlineEditService: InlineEditService;
+    gitService: GitService;
+    reviewService: ReviewService;
+    analysisReportPanel: AnalysisReportPanel;
+    solidityService: SolidityService;
+    auditService: AuditService;
+}
 
 export function registerCommands(context: vscode.ExtensionContext, services: ExtensionServices) {
     const commands = [
@@ -8,26 +42,94 @@ export function registerCommands(context: vscode.ExtensionContext, services: Ext
             vscode.commands.executeCommand('codeforgex.chatView.focus');
         }),
 
+        // Chat session commands
+        vscode.commands.registerCommand('codeforgex.newSession', () => {
+            services.sessionManager.createSession(services.modeManager.getCurrentMode(), services.modelManager.getActiveModel());
+        }),
+
+        vscode.commands.registerCommand('codeforgex.switchSession', () => {
+            services.sessionManager.selectSession();
+        }),
+
+        vscode.commands.registerCommand('codeforgex.renameSession', () => {
+            services.sessionManager.promptRenameSession();
+        }),
+
+        vscode.commands.registerCommand('codeforgex.deleteSession', () => {
+            services.sessionManager.promptDeleteSession();
+        }),
+
+        vscode.commands.registerCommand('codeforgex.exportSession', () => {
+            services.sessionManager.exportSession();
+        }),
+
         // Context management commands
-        vscode.commands.registerCommand('codeforgex.addFile', async (uri?: vscode.Uri) => {
+        vscode.commands.registerCommand('codeforgex.addFile', async (uri?: vscode.Uri, selectedUris?: vscode.Uri[]) => {
+            // Explorer passes the clicked item plus the whole selection when several are selected
+            const target = selectedUris && selectedUris.length > 1 ? selectedUris : uri ?? vscode.window.activeTextEditor?.document.uri;
+            if (!target) {
+                vscode.window.showErrorMessage('No file selected');
+                return;
+            }
+
+            try {
+                await services.contextProvider.addResources(Array.isArray(target) ? target : [target]);
+            } catch (error) {
+                vscode.window.showErrorMessage(`Error adding to context: ${error instanceof Error ? error.message : 'Unknown error'}`);
+            }
+        }),
+
+        vscode.commands.registerCommand('codeforgex.addFolder', async (uri?: vscode.Uri) => {
             if (!uri) {
-                const activeEditor = vscode.window.activeTextEditor;
-                if (activeEditor) {
-                    uri = activeEditor.document.uri;
-                } else {
-                    vscode.window.showErrorMessage('No file selected');
-                    return;
-                }
+                const picked = await vscode.window.showOpenDialog({
+                    canSelectFiles: false,
+                    canSelectFolders: true,
+                    canSelectMany: false,
+                    defaultUri: vscode.workspace.workspaceFolders?.[0]?.uri,
+                    openLabel: 'Add to Context'
+                });
+                uri = picked?.[0];
+            }
+            if (uri) {
+                await services.contextProvider.addFolder(uri);
             }
-            await services.contextProvider.addFile(uri);
         }),
 
-        vscode.commands.registerCommand('codeforgex.removeFile', (contextFile: any) => {
-            services.contextProvider.removeFile(contextFile.uri);
+        vscode.commands.registerCommand('codeforgex.addGlob', async () => {
+            const pattern = await vscode.window.showInputBox({
+                prompt: 'Glob pattern of files to add to context',
+                placeHolder: 'contracts/**/*.sol'
+            });
+            if (pattern) {
+                await services.contextProvider.addGlob(pattern);
+            }
         }),
 
-        vscode.commands.registerCommand('codeforgex.toggleFileActive', (contextFile: any) => {
-            services.contextProvider.toggleFileActive(contextFile.uri);
+        vscode.commands.registerCommand('codeforgex.addSelection', () => {
+            const activeEditor = vscode.window.activeTextEditor;
+            if (!activeEditor) {
+                vscode.window.showErrorMessage('No active editor');
+                return;
+            }
+            services.contextProvider.addSelection(activeEditor);
+        }),
+
+        vscode.commands.registerCommand('codeforgex.addDiagnostics', async () => {
+            const picked = await vscode.window.showQuickPick([
+                { label: 'Context Files', description: 'Problems in the files in context', scope: 'context' as const },
+                { label: 'Workspace', description: 'Problems in every file', scope: 'workspace' as const }
+            ], { placeHolder: 'Attach problems from' });
+            if (picked) {
+                services.contextProvider.addDiagnostics(picked.scope);
+            }
+        }),
+
+        vscode.commands.registerCommand('codeforgex.removeFile', (node: ContextTreeNode) => {
+            services.contextProvider.removeNode(node);
+        }),
+
+        vscode.commands.registerCommand('codeforgex.toggleFileActive', (node: ContextTreeNode) => {
+            services.contextProvider.toggleNode(node);
         }),
 
         vscode.commands.registerCommand('codeforgex.clearContext', () => {
@@ -43,6 +145,64 @@ export function registerCommands(context: vscode.ExtensionContext, services: Ext
             services.modeManager.selectMode();
         }),
 
+        // Model selection commands
+        vscode.commands.registerCommand('codeforgex.selectModel', () => {
+            services.modelManager.selectModel();
+        }),
+
+        // MCP commands
+        vscode.commands.registerCommand('codeforgex.restartMcpServers', async () => {
+            if (!services.mcpService.isEnabled()) {
+                vscode.window.showInformationMessage('MCP is disabled. Enable it with the codeforgex.enableMcp setting.');
+                return;
+            }
+            await services.mcpService.restart();
+        }),
+
+        vscode.commands.registerCommand('codeforgex.showMcpOutput', () => {
+            services.mcpService.showOutput();
+        }),
+
+        // Inline editing commands
+        vscode.commands.registerCommand('codeforgex.inlineAction', async (action: InlineEditAction, uri: vscode.Uri, range: vscode.Range, diagnostics: vscode.Diagnostic[] = []) => {
+            const document = await vscode.workspace.openTextDocument(uri);
+            const editor = await vscode.window.showTextDocument(document);
+            await runInlineEdit(() => services.inlineEditService.run(action, editor, range, diagnostics));
+        }),
+
+        vscode.commands.registerCommand('codeforgex.inlineChat', async () => {
+            const editor = vscode.window.activeTextEditor;
+            if (!editor) {
+                vscode.window.showErrorMessage('No active editor');
+                return;
+            }
+
+            const instruction = await vscode.window.showInputBox({
+                prompt: editor.selection.isEmpty ? 'Describe the change to the current line' : 'Describe the change to the selection',
+                placeHolder: 'e.g. handle the empty list case'
+            });
+            if (!instruction) {
+                return;
+            }
+
+            // Problems on the edited lines give the model something concrete to work with
+            const diagnostics = vscode.languages.getDiagnostics(editor.document.uri)
+                .filter(diagnostic => diagnostic.range.intersection(editor.selection.union(editor.document.lineAt(editor.selection.active.line).range)));
+            await runInlineEdit(() => services.inlineEditService.run('custom', editor, undefined, diagnostics, instruction));
+        }),
+
+        vscode.commands.registerCommand('codeforgex.acceptInlineEdit', (uri?: vscode.Uri) => {
+            services.inlineEditService.accept(uri);
+        }),
+
+        vscode.commands.registerCommand('codeforgex.rejectInlineEdit', (uri?: vscode.Uri) => {
+            services.inlineEditService.reject(uri);
+        }),
+
+        vscode.commands.registerCommand('codeforgex.showInlineEditDiff', (uri?: vscode.Uri) => {
+            services.inlineEditService.showDiff(uri);
+        }),
+
         // CodeForge integration commands
         vscode.commands.registerCommand('codeforgex.explainCode', async () => {
             const activeEditor = vscode.window.activeTextEditor;
@@ -72,55 +232,114 @@ export function registerCommands(context: vscode.ExtensionContext, services: Ext
             }
         }),
 
-        vscode.commands.registerCommand('codeforgex.generateCommitMessage', async () => {
+        vscode.commands.registerCommand('codeforgex.generateCommitMessage', async (sourceControl?: vscode.SourceControl) => {
             try {
-                const message = await services.codeForgeService.generateCommitMessage();
-                const input = await vscode.window.showInputBox({
-                    prompt: 'Commit message (edit if needed)',
-                    value: message,
-                    ignoreFocusOut: true
-                });
-                
-                if (input) {
-                    // Copy to clipboard or set in Git extension
-                    await vscode.env.clipboard.writeText(input);
-                    vscode.window.showInformationMessage('Commit message copied to clipboard');
+                const repository = await services.gitService.pickRepository(sourceControl);
+                if (!repository) {
+                    return;
+                }
+                const changes = await services.gitService.getChanges(repository);
+                if (!changes) {
+                    vscode.window.showInformationMessage('There are no changes to describe');
+                    return;
                 }
+
+                const message = await vscode.window.withProgress({
+                    location: vscode.ProgressLocation.Notification,
+                    title: `Writing a commit message for the ${changes.staged ? 'staged' : 'working tree'} changes...`,
+                    cancellable: true
+                }, (_progress, token) => services.codeForgeService.generateCommitMessage(changes.diff, repository.rootUri, token));
+
+                repository.inputBox.value = message;
+                await vscode.commands.executeCommand('workbench.view.scm');
             } catch (error) {
+                if (error instanceof vscode.CancellationError) {
+                    return;
+                }
                 vscode.window.showErrorMessage(`Error generating commit message: ${error instanceof Error ? error.message : 'Unknown error'}`);
             }
         }),
 
+        vscode.commands.registerCommand('codeforgex.reviewChanges', async (sourceControl?: vscode.SourceControl) => {
+            try {
+                await services.reviewService.reviewChanges(sourceControl);
+            } catch (error) {
+                if (error instanceof vscode.CancellationError) {
+                    return;
+                }
+                vscode.window.showErrorMessage(`Error reviewing changes: ${error instanceof Error ? error.message : 'Unknown error'}`);
+            }
+        }),
+
+        vscode.commands.registerCommand('codeforgex.applyReviewFix', (thread: vscode.CommentThread) => {
+            return services.reviewService.applyFix(thread);
+        }),
+
+        vscode.commands.registerCommand('codeforgex.dismissReviewFinding', (thread: vscode.CommentThread) => {
+            services.reviewService.dismiss(thread);
+        }),
+
+        vscode.commands.registerCommand('codeforgex.clearReview', () => {
+            services.reviewService.clear();
+        }),
+
+        vscode.commands.registerCommand('codeforgex.explainContract', (uri?: vscode.Uri) => runSolidityTask(services, 'explain', uri)),
+        vscode.commands.registerCommand('codeforgex.generateContractTests', (uri?: vscode.Uri) => runSolidityTask(services, 'tests', uri)),
+        vscode.commands.registerCommand('codeforgex.findVulnerabilities', (uri?: vscode.Uri) => runSolidityTask(services, 'vulnerabilities', uri)),
+
+        vscode.commands.registerCommand('codeforgex.generateContractBindings', (uri?: vscode.Uri) => generateContractBindings(services, uri)),
+
+        vscode.commands.registerCommand('codeforgex.clearSolidityFindings', () => {
+            services.solidityService.clearFindings();
+        }),
+
+        vscode.commands.registerCommand('codeforgex.runAudit', () => {
+            return services.chatProvider.sendMessage('Audit the Solidity files in context', ExtensionMode.Audit);
+        }),
+
+        vscode.commands.registerCommand('codeforgex.setAuditFindingStatus', (node?: AuditTreeNode) => {
+            if (node?.kind === 'finding') {
+                return setAuditFindingStatus(services, node.finding);
+            }
+        }),
+
+        vscode.commands.registerCommand('codeforgex.openAuditFile', async () => {
+            const uri = services.auditService.getAuditUri();
+            if (!uri) {
+                vscode.window.showInformationMessage('Open a workspace folder to run an audit');
+                return;
+            }
+            const exists = await Promise.resolve(vscode.workspace.fs.stat(uri)).then(() => true, () => false);
+            if (!exists) {
+                vscode.window.showInformationMessage(`No audit has been run yet; findings will be saved in ${AuditService.AUDIT_PATH}`);
+                return;
+            }
+            await vscode.window.showTextDocument(uri);
+        }),
+
         vscode.commands.registerCommand('codeforgex.analyzeProject', async () => {
-            const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-            if (!workspaceFolder) {
+            if (!vscode.workspace.workspaceFolders?.length) {
                 vscode.window.showErrorMessage('No workspace folder open');
                 return;
             }
+            const workspaceFolder = vscode.workspace.workspaceFolders.length === 1
+                ? vscode.workspace.workspaceFolders[0]
+                : await vscode.window.showWorkspaceFolderPick({ placeHolder: 'Select the folder to analyze' });
+            if (!workspaceFolder) {
+                return;
+            }
 
             try {
-                vscode.window.withProgress({
+                const analysis = await vscode.window.withProgress({
                     location: vscode.ProgressLocation.Notification,
                     title: 'Analyzing project...',
-                    cancellable: false
-                }, async () => {
-                    const result = await services.codeForgeService.analyzeProject(workspaceFolder.uri.fsPath);
-                    const panel = vscode.window.createWebviewPanel(
-                        'projectAnalysis',
-                        'Project Analysis',
-                        vscode.ViewColumn.Beside,
-                        { enableScripts: true }
-                    );
-                    panel.webview.html = `
-                        <html>
-                            <body style="font-family: var(--vscode-font-family); padding: 20px;">
-                                <h2>Project Analysis</h2>
-                                <pre style="white-space: pre-wrap; background: var(--vscode-textCodeBlock-background); padding: 15px; border-radius: 4px;">${result}</pre>
-                            </body>
-                        </html>
-                    `;
-                });
+                    cancellable: true
+                }, (_progress, token) => services.codeForgeService.analyzeProject(workspaceFolder.uri.fsPath, token));
+                await services.analysisReportPanel.show(analysis);
             } catch (error) {
+                if (error instanceof vscode.CancellationError) {
+                    return;
+                }
                 vscode.window.showErrorMessage(`Error analyzing project: ${error instanceof Error ? error.message : 'Unknown error'}`);
             }
         }),
@@ -138,3 +357,134 @@ export function registerCommands(context: vscode.ExtensionContext, services: Ext
     // Add all commands to subscriptions
     commands.forEach(command => context.subscriptions.push(command));
 }
+
+async function runInlineEdit(run: () => Promise<void>): Promise<void> {
+    try {
+        await run();
+    } catch (error) {
+        if (!(error instanceof vscode.CancellationError)) {
+            vscode.window.showErrorMessage(`CodeForgeX edit failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
+}
+
+/**
+ * Runs a Solidity task on the given or active contract. The contract goes into
+ * context first, which brings its dependencies along. Explaining and writing
+ * tests happen in the chat; findings are shown as diagnostics.
+ */
+async function runSolidityTask(services: ExtensionServices, task: SolidityTask, uri?: vscode.Uri): Promise<void> {
+    const target = uri ?? vscode.window.activeTextEditor?.document.uri;
+    if (!target || !SolidityService.isSolidity(target)) {
+        vscode.window.showErrorMessage('Open or select a Solidity (.sol) file first');
+        return;
+    }
+
+    try {
+        await services.contextProvider.ensureFile(target);
+
+        if (task !== 'vulnerabilities') {
+            const prompt = await services.solidityService.buildTaskPrompt(task, target);
+            await services.chatProvider.sendMessage(prompt, ExtensionMode.Ask);
+            return;
+        }
+
+        const files = services.contextProvider.getContextFiles().filter((file: { uri: vscode.Uri }) => SolidityService.isSolidity(file.uri));
+        const focus = vscode.workspace.asRelativePath(target, false);
+        const findings: SolidityFinding[] = await vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: `Looking for vulnerabilities in ${focus}...`,
+            cancellable: true
+        }, (_progress, token) => services.codeForgeService.findVulnerabilities(files, [focus], token));
+
+        services.solidityService.showFindings(findings, files);
+        vscode.window.showInformationMessage(`Found ${findings.length} potential issue(s) in ${focus}`);
+        if (findings.length > 0) {
+            vscode.commands.executeCommand('workbench.actions.view.problems');
+        }
+    } catch (error) {
+        if (!(error instanceof vscode.CancellationError)) {
+            vscode.window.showErrorMessage(`Solidity task failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
+}
+
+/**
+ * Opens TypeScript bindings or call snippets for a compiled contract. Works
+ * from an artifact, or from a source file by looking up its artifacts.
+ */
+async function generateContractBindings(services: ExtensionServices, uri?: vscode.Uri): Promise<void> {
+    const target = uri ?? vscode.window.activeTextEditor?.document.uri;
+    const candidates: vscode.Uri[] = target && isContractArtifactPath(target.path)
+        ? [target]
+        : await services.solidityService.findArtifacts(target && SolidityService.isSolidity(target) ? target : undefined);
+    if (candidates.length === 0) {
+        vscode.window.showErrorMessage('No compiled contracts found. Build the project with forge build or npx hardhat compile first');
+        return;
+    }
+
+    const artifactUri = candidates.length === 1 ? candidates[0] : (await vscode.window.showQuickPick(
+        candidates.map(candidate => ({
+            label: path.basename(candidate.path, '.json'),
+            description: vscode.workspace.asRelativePath(candidate),
+            uri: candidate
+        })),
+        { placeHolder: 'Select a contract', matchOnDescription: true }
+    ))?.uri;
+    if (!artifactUri) {
+        return;
+    }
+
+    const artifact = parseContractArtifact(
+        new TextDecoder().decode(await vscode.workspace.fs.readFile(artifactUri)),
+        path.basename(artifactUri.path, '.json')
+    );
+    if (!artifact) {
+        vscode.window.showErrorMessage(`${vscode.workspace.asRelativePath(artifactUri)} is not a compiled contract with an ABI`);
+        return;
+    }
+
+    const style = await vscode.window.showQuickPick<vscode.QuickPickItem & { style: AbiBindingStyle }>([
+        { label: 'TypeScript types', description: 'ABI as const with typed functions, events and errors', style: 'types' },
+        { label: 'ethers v6', description: 'Contract calls, transactions and event listeners', style: 'ethers' },
+        { label: 'viem', description: 'readContract, writeContract and watchContractEvent calls', style: 'viem' }
+    ], { placeHolder: `Generate code for ${artifact.contractName}` });
+    if (!style) {
+        return;
+    }
+
+    const document = await vscode.workspace.openTextDocument({ language: 'typescript', content: generateAbiBindings(artifact, style.style) });
+    await vscode.window.showTextDocument(document);
+}
+
+/**
+ * Changes the status of an audit finding. Acknowledging a finding or calling
+ * it a false positive needs a justification, which is saved with it.
+ */
+async function setAuditFindingStatus(services: ExtensionServices, finding: AuditFinding): Promise<void> {
+    const statuses: { status: AuditFindingStatus; description: string }[] = [
+        { status: 'open', description: 'Needs to be addressed' },
+        { status: 'acknowledged', description: 'Accepted risk, with a justification' },
+        { status: 'fixed', description: 'Resolved in the code' },
+        { status: 'false-positive', description: 'Not an issue, with a justification' }
+    ];
+    const picked = await vscode.window.showQuickPick(
+        statuses.map(entry => ({ label: AUDIT_STATUS_LABELS[entry.status], description: entry.description, picked: entry.status === finding.status, status: entry.status })),
+        { placeHolder: `Status of ${finding.id} ${finding.title}` }
+    );
+    if (!picked) {
+        return;
+    }
+
+    const required = picked.status === 'acknowledged' || picked.status === 'false-positive';
+    const justification = await vscode.window.showInputBox({
+        prompt: required ? `Why is ${finding.id} ${picked.label.toLowerCase()}?` : `Note for ${finding.id} (optional)`,
+        value: finding.justification,
+        validateInput: value => required && !value.trim() ? 'A justification is required' : undefined
+    });
+    if (justification === undefined) {
+        return;
+    }
+
+    await services.auditService.setStatus(finding.id, picked.status, justification.trim());
+}
@@ -1,28 +1,103 @@
 import * as vscode from 'vscode';
 import { ChatProvider } from './providers/ChatProvider';
 import { ContextProvider } from './providers/ContextProvider';
+import { CodeActionProvider } from './providers/CodeActionProvider';
+import { McpProvider } from './providers/McpProvider';
+import { AnalysisReportPanel } from './providers/AnalysisReportPanel';
+import { AuditProvider } from './providers/AuditProvider';
 import { CodeForgeService } from './services/CodeForgeService';
+import { EditReviewService } from './services/EditReviewService';
+import { ContextBudgetService } from './services/ContextBudgetService';
+import { McpService } from './services/McpService';
+import { AgentToolService } from './services/AgentToolService';
+import { InlineEditService } from './services/InlineEditService';
+import { GitService } from './services/GitService';
+import { ReviewService } from './services/ReviewService';
+import { SolidityService } from './services/SolidityService';
+import { ContractTestService } from './services/ContractTestService';
+import { AuditService } from './services/AuditService';
+import { PromptLibraryService } from './services/PromptLibraryService';
+import { MentionService } from './services/MentionService';
 import { ConfigurationManager } from './managers/ConfigurationManager';
 import { ModeManager } from './managers/ModeManager';
+import { SessionManager } from './managers/SessionManager';
+import { ModelManager } from './managers/ModelManager';
 import { registerCommands } from './commands';
+import { formatTokens } from './utils/tokens';
 
 export async function activate(context: vscode.ExtensionContext) {
     console.log('CodeForgeX extension is now active!');
 
     // Initialize services
     const configManager = new ConfigurationManager();
-    const codeForgeService = new CodeForgeService(configManager);
-    const modeManager = new ModeManager();
+    const editReviewService = new EditReviewService();
+    const modelManager = new ModelManager(configManager);
+    const contextBudgetService = new ContextBudgetService(configManager);
+    const mcpService = new McpService(configManager);
+    const solidityService = new SolidityService(configManager);
+    const contractTestService = new ContractTestService(configManager, solidityService);
+    const agentToolService = new AgentToolService(editReviewService, mcpService, contractTestService, configManager);
+    const codeForgeService = new CodeForgeService(configManager, editReviewService, contextBudgetService, modelManager, agentToolService);
+    const inlineEditService = new InlineEditService(codeForgeService);
+    const gitService = new GitService();
+    const reviewService = new ReviewService(codeForgeService, gitService);
+    const auditService = new AuditService(codeForgeService);
+    const promptLibraryService = new PromptLibraryService(configManager, modelManager, gitService);
+    const modeManager = new ModeManager(configManager);
+    const sessionManager = new SessionManager(context.workspaceState);
     
     // Initialize providers
-    const contextProvider = new ContextProvider();
-    const chatProvider = new ChatProvider(context.extensionUri, codeForgeService, contextProvider, modeManager);
+    const contextProvider = new ContextProvider(solidityService, configManager);
+    const mentionService = new MentionService(contextProvider, gitService, configManager);
+    const chatProvider = new ChatProvider(context.extensionUri, codeForgeService, contextProvider, modeManager, sessionManager, modelManager, editReviewService, auditService, promptLibraryService, mentionService, configManager);
+    const mcpProvider = new McpProvider(mcpService);
+    const analysisReportPanel = new AnalysisReportPanel(context.workspaceState);
+    const auditProvider = new AuditProvider(auditService);
 
     // Register tree data providers
     const contextView = vscode.window.createTreeView('codeforgex.contextView', {
         treeDataProvider: contextProvider,
         showCollapseAll: true
     });
+    const mcpView = vscode.window.createTreeView('codeforgex.mcpView', {
+        treeDataProvider: mcpProvider
+    });
+    const auditView = vscode.window.createTreeView('codeforgex.auditView', {
+        treeDataProvider: auditProvider
+    });
+
+    // Show total context usage against the budget in the view header
+    const updateTokenUsage = () => {
+        const used = contextProvider.getActiveTokenCount();
+        const budget = configManager.getContextBudget(modelManager.getModelFor());
+        contextView.description = `~${formatTokens(used)} / ${formatTokens(budget)} tokens${used > budget ? ' (over budget)' : ''}`;
+    };
+    updateTokenUsage();
+    const tokenUsageListeners = [
+        contextProvider.onDidChangeTreeData(updateTokenUsage),
+        modelManager.onModelChanged(updateTokenUsage),
+        configManager.onDidChangeProjectConfig(updateTokenUsage),
+        vscode.workspace.onDidChangeConfiguration(e => {
+            if (e.affectsConfiguration('codeforgex')) {
+                updateTokenUsage();
+            }
+        })
+    ];
+
+    // Serve the proposed side of edit review diffs
+    const proposedContentProvider = vscode.workspace.registerTextDocumentContentProvider(
+        EditReviewService.SCHEME,
+        editReviewService
+    );
+
+    // Editor integration: lightbulb actions and the Accept/Reject lenses of inline previews
+    const codeActionProvider = vscode.languages.registerCodeActionsProvider(
+        { scheme: 'file' },
+        new CodeActionProvider(),
+        { providedCodeActionKinds: CodeActionProvider.providedCodeActionKinds }
+    );
+    const inlineEditLenses = vscode.languages.registerCodeLensProvider({ scheme: 'file' }, inlineEditService);
+    const inlineEditContentProvider = vscode.workspace.registerTextDocumentContentProvider(InlineEditService.SCHEME, inlineEditService);
 
     // Register webview provider
     const chatViewProvider = vscode.window.registerWebviewViewProvider('codeforgex.chatView', chatProvider);
@@ -33,16 +108,52 @@ export async function activate(context: vscode.ExtensionContext) {
         contextProvider,
         codeForgeService,
         modeManager,
-        configManager
+        configManager,
+        sessionManager,
+        modelManager,
+        mcpService,
+        inlineEditService,
+        gitService,
+        reviewService,
+        analysisReportPanel,
+        solidityService,
+        auditService
     });
 
     // Add to subscriptions for cleanup
     context.subscriptions.push(
+        configManager,
+        editReviewService,
+        codeForgeService,
+        sessionManager,
         contextView,
+        contextProvider,
+        modelManager,
+        modeManager,
+        mcpView,
+        mcpProvider,
+        mcpService,
         chatViewProvider,
-        // Services will be disposed through command registrations
+        chatProvider,
+        proposedContentProvider,
+        codeActionProvider,
+        inlineEditLenses,
+        inlineEditContentProvider,
+        inlineEditService,
+        reviewService,
+        analysisReportPanel,
+        solidityService,
+        contractTestService,
+        auditService,
+        promptLibraryService,
+        auditProvider,
+        auditView,
+        ...tokenUsageListeners
     );
 
+    // Launch configured MCP servers without holding up activation
+    mcpService.start();
+
     // Show welcome message on first activation
     const hasShownWelcome = context.globalState.get('hasShownWelcome', false);
     if (!hasShownWelcome) {
@@ -1,24 +1,221 @@
 import * as vscode from 'vscode';
-import { CodeForgeConfig } from '../types';
+import * as path from 'path';
+import { CodeForgeConfig, McpServerConfig } from '../types';
+import { GitIgnore } from '../utils/gitignore';
+import { mergeProjectConfig, parseProjectConfig, PROJECT_CONFIG_FILE, ProjectConfig } from '../utils/projectConfig';
 
-export class ConfigurationManager {
+export class ConfigurationManager implements vscode.Disposable {
     private static readonly CONFIG_SECTION = 'codeforgex';
 
-    getConfig(): CodeForgeConfig {
-        const config = vscode.workspace.getConfiguration(ConfigurationManager.CONFIG_SECTION);
-        
-        return {
+    // Project files by workspace folder URI
+    private readonly _projectConfigs = new Map<string, ProjectConfig>();
+    private readonly _ignores = new Map<string, GitIgnore>();
+    private readonly _disposables: vscode.Disposable[] = [];
+
+    private readonly _onDidChangeProjectConfig = new vscode.EventEmitter<void>();
+    /** Fires when the `.codeforgex.json` of a workspace folder was created, changed or deleted. */
+    readonly onDidChangeProjectConfig = this._onDidChangeProjectConfig.event;
+
+    constructor() {
+        const watcher = vscode.workspace.createFileSystemWatcher(`**/${PROJECT_CONFIG_FILE}`);
+        const reload = (uri: vscode.Uri) => {
+            const folder = vscode.workspace.getWorkspaceFolder(uri);
+            if (folder && vscode.Uri.joinPath(folder.uri, PROJECT_CONFIG_FILE).toString() === uri.toString()) {
+                this._loadProjectConfig(folder);
+            }
+        };
+        this._disposables.push(
+            watcher,
+            watcher.onDidCreate(reload),
+            watcher.onDidChange(reload),
+            watcher.onDidDelete(reload),
+            vscode.workspace.onDidChangeWorkspaceFolders(e => {
+                e.removed.forEach(folder => this._projectConfigs.delete(folder.uri.toString()));
+                e.added.forEach(folder => this._loadProjectConfig(folder));
+            }),
+            this._onDidChangeProjectConfig
+        );
+        (vscode.workspace.workspaceFolders ?? []).forEach(folder => this._loadProjectConfig(folder));
+    }
+
+    dispose(): void {
+        this._disposables.forEach(disposable => disposable.dispose());
+    }
+
+    /**
+     * Settings for the workspace folder of `scope`, or of the active folder:
+     * the folder's settings, overridden by its `.codeforgex.json` as
+     * `mergeProjectConfig` describes.
+     */
+    getConfig(scope?: vscode.Uri): CodeForgeConfig {
+        const folder = scope ? vscode.workspace.getWorkspaceFolder(scope) : this.getActiveFolder();
+        const config = vscode.workspace.getConfiguration(ConfigurationManager.CONFIG_SECTION, folder?.uri);
+        const project = folder ? this._projectConfigs.get(folder.uri.toString()) ?? {} : {};
+
+        const settings: CodeForgeConfig = {
             cliPath: config.get('cliPath', 'codeforgeai'),
             defaultModel: config.get('defaultModel', 'ollama'),
+            models: config.get('models', []),
             enableMcp: config.get('enableMcp', false),
-            mcpProviders: config.get('mcpProviders', []),
-            timeout: config.get('timeout', 30000)
+            mcpProviders: config.get<(string | McpServerConfig)[]>('mcpProviders', []).map(provider => this._toMcpServerConfig(provider)),
+            timeout: config.get('timeout', 30000),
+            contextBudget: config.get('contextBudget', 8000),
+            modelContextBudgets: config.get('modelContextBudgets', {}),
+            agentMaxSteps: config.get('agentMaxSteps', 10),
+            commitMessageConvention: config.get('commitMessageConvention', 'conventional'),
+            commitSubjectMaxLength: config.get('commitSubjectMaxLength', 72),
+            includeSolidityDependencies: config.get('includeSolidityDependencies', true),
+            devnetRpcUrl: config.get('devnetRpcUrl', 'http://127.0.0.1:8545'),
+            contractTestTimeout: config.get('contractTestTimeout', 600000),
+            customModes: config.get('customModes', []),
+            ignorePatterns: config.get('ignorePatterns', []),
+            customInstructions: config.get('customInstructions', '')
         };
+
+        return mergeProjectConfig(settings, project);
     }
 
-    async updateConfig(key: keyof CodeForgeConfig, value: any): Promise<void> {
-        const config = vscode.workspace.getConfiguration(ConfigurationManager.CONFIG_SECTION);
-        await config.update(key, value, vscode.ConfigurationTarget.Global);
+    /**
+     * Folder whose settings apply when no particular file is involved: the
+     * one of the active editor, or the first.
+     */
+    getActiveFolder(): vscode.WorkspaceFolder | undefined {
+        const active = vscode.window.activeTextEditor?.document.uri;
+        return (active && vscode.workspace.getWorkspaceFolder(active)) || vscode.workspace.workspaceFolders?.[0];
+    }
+
+    /**
+     * Resolves a path written by the model or the user against the workspace
+     * folders. In a multi-root workspace a leading folder name picks the
+     * folder; otherwise an existing file is looked up in the active folder and
+     * then the others, and a new one goes in the active folder. Throws for
+     * paths that lead out of the workspace.
+     */
+    async resolveWorkspacePath(filePath: string): Promise<vscode.Uri> {
+        const folders = vscode.workspace.workspaceFolders ?? [];
+        if (folders.length === 0) {
+            throw new Error('No workspace folder is open');
+        }
+
+        const active = this.getActiveFolder();
+        const [first, ...rest] = filePath.replace(/\\/g, '/').split('/');
+        const named = folders.length > 1 ? folders.find(folder => folder.name === first) : undefined;
+        const candidates = [
+            ...(named ? [{ folder: named, absolute: path.resolve(named.uri.fsPath, rest.join('/')) }] : []),
+            ...[active, ...folders.filter(folder => folder !== active)]
+                .filter((folder): folder is vscode.WorkspaceFolder => folder !== undefined)
+                .map(folder => ({ folder, absolute: path.resolve(folder.uri.fsPath, filePath) }))
+        ].filter(({ folder, absolute }) => {
+            const relative = path.relative(folder.uri.fsPath, absolute);
+            return !relative.startsWith('..') && !path.isAbsolute(relative);
+        });
+        if (candidates.length === 0) {
+            throw new Error(`${filePath} is outside the workspace`);
+        }
+
+        for (const { absolute } of candidates) {
+            try {
+                await vscode.workspace.fs.stat(vscode.Uri.file(absolute));
+                return vscode.Uri.file(absolute);
+            } catch (error) {
+                // Not in this folder
+            }
+        }
+        return vscode.Uri.file(candidates[0].absolute);
+    }
+
+    /**
+     * Whether the ignore patterns of its workspace folder exclude a file or
+     * folder, directly or through one of its parent folders.
+     */
+    isIgnored(uri: vscode.Uri, isDirectory = false): boolean {
+        const folder = vscode.workspace.getWorkspaceFolder(uri);
+        const patterns = folder ? this.getConfig(folder.uri).ignorePatterns : [];
+        if (!folder || patterns.length === 0) {
+            return false;
+        }
+
+        const key = patterns.join('\n');
+        if (!this._ignores.has(key)) {
+            this._ignores.set(key, new GitIgnore(key));
+        }
+        const ignore = this._ignores.get(key)!;
+        const segments = path.posix.relative(folder.uri.path, uri.path).split('/');
+        return segments.some((_segment, index) =>
+            ignore.ignores(segments.slice(0, index + 1).join('/'), index < segments.length - 1 || isDirectory));
+    }
+
+    /**
+     * Token budget for context files sent with a prompt, using the per-model
+     * override when one is configured.
+     */
+    getContextBudget(model?: string, scope?: vscode.Uri): number {
+        const config = this.getConfig(scope);
+        return config.modelContextBudgets[model ?? config.defaultModel] ?? config.contextBudget;
+    }
+
+    /**
+     * Writes a setting for the open workspace, so it does not carry over to
+     * other projects, or to the user settings when no folder is open. With a
+     * `scope`, a multi-root workspace gets it in that folder's settings.
+     */
+    async updateConfig<K extends keyof CodeForgeConfig>(
+        key: K,
+        value: CodeForgeConfig[K],
+        scope?: vscode.Uri,
+        target = this._defaultTarget(scope)
+    ): Promise<void> {
+        const folder = scope ? vscode.workspace.getWorkspaceFolder(scope) : undefined;
+        const config = vscode.workspace.getConfiguration(ConfigurationManager.CONFIG_SECTION, folder?.uri);
+        await config.update(key, value, target);
+    }
+
+    private _defaultTarget(scope?: vscode.Uri): vscode.ConfigurationTarget {
+        if (!vscode.workspace.workspaceFolders) {
+            return vscode.ConfigurationTarget.Global;
+        }
+        // A single-folder workspace has no separate folder settings
+        return scope && vscode.workspace.workspaceFile && vscode.workspace.getWorkspaceFolder(scope)
+            ? vscode.ConfigurationTarget.WorkspaceFolder
+            : vscode.ConfigurationTarget.Workspace;
+    }
+
+    /**
+     * Providers may be given as a plain command line (`npx -y some-mcp-server --flag`)
+     * or as a full server definition; plain strings are named after their executable.
+     */
+    private _toMcpServerConfig(provider: string | McpServerConfig): McpServerConfig {
+        if (typeof provider !== 'string') {
+            return provider;
+        }
+
+        const [command, ...args] = (provider.match(/"[^"]*"|'[^']*'|\S+/g) ?? [])
+            .map(token => token.replace(/^(["'])(.*)\1$/, '$2'));
+        const name = args.find(arg => !arg.startsWith('-')) ?? command;
+        return { name, command, args };
+    }
+
+    private async _loadProjectConfig(folder: vscode.WorkspaceFolder): Promise<void> {
+        const uri = vscode.Uri.joinPath(folder.uri, PROJECT_CONFIG_FILE);
+        let text: string;
+        try {
+            text = new TextDecoder().decode(await vscode.workspace.fs.readFile(uri));
+        } catch (error) {
+            // No project file, or it was deleted
+            this._projectConfigs.delete(folder.uri.toString());
+            this._onDidChangeProjectConfig.fire();
+            return;
+        }
+
+        const { config, errors } = parseProjectConfig(text);
+        this._projectConfigs.set(folder.uri.toString(), config);
+        if (errors.length > 0) {
+            vscode.window.showWarningMessage(
+                `CodeForgeX: ${vscode.workspace.asRelativePath(uri)}: ${errors[0]}${errors.length > 1 ? ` (and ${errors.length - 1} more)` : ''}. `
+                + 'The other settings in it still apply.'
+            );
+        }
+        this._onDidChangeProjectConfig.fire();
     }
 
     async openSettings(): Promise<void> {
@@ -39,12 +236,12 @@ export class ConfigurationManager {
 
     async testCliConnection(): Promise<boolean> {
         try {
-            const { exec } = require('child_process');
+            const { execFile } = require('child_process');
             const { promisify } = require('util');
-            const execAsync = promisify(exec);
+            const execFileAsync = promisify(execFile);
             
             const config = this.getConfig();
-            await execAsync(`${config.cliPath} --version`, { timeout: 5000 });
+            await execFileAsync(config.cliPath, ['--version'], { timeout: 5000 });
             
             vscode.window.showInformationMessage('CodeForgeAI CLI connection successful!');
             return true;
@@ -1,58 +1,142 @@
 import * as vscode from 'vscode';
-import { ExtensionMode } from '../types';
+import { ExtensionMode, ModeDefinition, ModeId } from '../types';
+import { ConfigurationManager } from './ConfigurationManager';
+import { BUILT_IN_MODES, parseModeDefinitions } from '../utils/modes';
+
+export class ModeManager implements vscode.Disposable {
+    static readonly MODES_GLOB = '.codeforgex/modes/*.json';
+
+    private _currentMode: ModeId = ExtensionMode.Ask;
+    private _customModes: ModeDefinition[] = [];
+    private _onModeChanged = new vscode.EventEmitter<ModeId>();
+    private _onDidChangeModes = new vscode.EventEmitter<void>();
+    private readonly _watcher: vscode.FileSystemWatcher;
+    private readonly _configListener: vscode.Disposable;
 
-export class ModeManager {
-    private _currentMode: ExtensionMode = ExtensionMode.Ask;
-    private _onModeChanged = new vscode.EventEmitter<ExtensionMode>();
-    
     readonly onModeChanged = this._onModeChanged.event;
+    /** Fires when custom modes were added, changed or removed. */
+    readonly onDidChangeModes = this._onDidChangeModes.event;
+
+    constructor(private readonly _configManager: ConfigurationManager) {
+        this._watcher = vscode.workspace.createFileSystemWatcher(`**/${ModeManager.MODES_GLOB}`);
+        this._watcher.onDidCreate(() => this._loadCustomModes());
+        this._watcher.onDidChange(() => this._loadCustomModes());
+        this._watcher.onDidDelete(() => this._loadCustomModes());
+        this._configListener = vscode.workspace.onDidChangeConfiguration(e => {
+            if (e.affectsConfiguration('codeforgex.customModes')) {
+                this._loadCustomModes();
+            }
+        });
+        this._loadCustomModes();
+    }
 
-    getCurrentMode(): ExtensionMode {
+    dispose(): void {
+        this._watcher.dispose();
+        this._configListener.dispose();
+        this._onModeChanged.dispose();
+        this._onDidChangeModes.dispose();
+    }
+
+    getCurrentMode(): ModeId {
         return this._currentMode;
     }
 
-    setMode(mode: ExtensionMode): void {
+    /**
+     * Built-in modes first, then custom ones.
+     */
+    getModes(): ModeDefinition[] {
+        return [...BUILT_IN_MODES, ...this._customModes];
+    }
+
+    /**
+     * Definition of a mode, the current one by default. Modes that are not
+     * defined (any more) are handled as Ask.
+     */
+    getMode(id: ModeId = this._currentMode): ModeDefinition {
+        return this.getModes().find(mode => mode.id === id) ?? BUILT_IN_MODES.find(mode => mode.id === ExtensionMode.Ask)!;
+    }
+
+    setMode(mode: ModeId, notify = true): void {
         if (this._currentMode !== mode) {
             this._currentMode = mode;
             this._onModeChanged.fire(mode);
-            vscode.window.showInformationMessage(`Switched to ${mode.toUpperCase()} mode`);
+            if (notify) {
+                vscode.window.showInformationMessage(`Switched to ${this.getMode(mode).name.toUpperCase()} mode`);
+            }
         }
     }
 
     switchMode(): void {
-        const modes = Object.values(ExtensionMode);
+        const modes = this.getModes().map(mode => mode.id);
         const currentIndex = modes.indexOf(this._currentMode);
         const nextIndex = (currentIndex + 1) % modes.length;
         this.setMode(modes[nextIndex]);
     }
 
     async selectMode(): Promise<void> {
-        const modes = Object.values(ExtensionMode);
-        const items = modes.map(mode => ({
-            label: mode.charAt(0).toUpperCase() + mode.slice(1),
-            description: this._getModeDescription(mode),
-            mode
-        }));
+        const toItem = (mode: ModeDefinition) => ({
+            label: `${mode.icon} ${mode.name}`,
+            description: mode.description,
+            mode: mode.id
+        });
+        const items: (vscode.QuickPickItem & { mode?: ModeId })[] = BUILT_IN_MODES.map(toItem);
+        if (this._customModes.length > 0) {
+            items.push({ label: 'Custom', kind: vscode.QuickPickItemKind.Separator }, ...this._customModes.map(toItem));
+        }
+        items.push({ label: '$(gear) Configure Modes...' });
 
         const selected = await vscode.window.showQuickPick(items, {
             placeHolder: 'Select CodeForgeX mode'
         });
 
-        if (selected) {
+        if (!selected) {
+            return;
+        }
+        if (selected.mode) {
             this.setMode(selected.mode);
+        } else {
+            await vscode.commands.executeCommand('workbench.action.openSettings', 'codeforgex.customModes');
         }
     }
 
-    private _getModeDescription(mode: ExtensionMode): string {
-        switch (mode) {
-            case ExtensionMode.Edit:
-                return 'Direct file editing with AI assistance';
-            case ExtensionMode.Agent:
-                return 'Autonomous AI agent for complex tasks';
-            case ExtensionMode.Ask:
-                return 'Question & answer mode';
-            default:
-                return '';
+    /**
+     * Reads custom modes from settings, then from the workspace's mode files,
+     * which replace setting-defined modes with the same id.
+     */
+    private async _loadCustomModes(): Promise<void> {
+        const modes = new Map<ModeId, ModeDefinition>();
+        const errors: string[] = [];
+        const add = (value: unknown, source: string) => {
+            const parsed = parseModeDefinitions(value, source);
+            parsed.modes.forEach(mode => modes.set(mode.id, mode));
+            errors.push(...parsed.errors);
+        };
+
+        const configured = this._configManager.getConfig().customModes;
+        if (Array.isArray(configured) && configured.length > 0) {
+            add(configured, 'codeforgex.customModes');
+        }
+
+        const files = (await vscode.workspace.findFiles(ModeManager.MODES_GLOB))
+            .sort((a, b) => a.fsPath.localeCompare(b.fsPath));
+        for (const file of files) {
+            const source = vscode.workspace.asRelativePath(file);
+            try {
+                add(JSON.parse(new TextDecoder().decode(await vscode.workspace.fs.readFile(file))), source);
+            } catch (error) {
+                errors.push(`${source}: ${error instanceof Error ? error.message : 'could not be read'}`);
+            }
+        }
+
+        this._customModes = [...modes.values()];
+        if (errors.length > 0) {
+            vscode.window.showWarningMessage(`CodeForgeX: custom mode ignored. ${errors[0]}${errors.length > 1 ? ` (and ${errors.length - 1} more)` : ''}`);
+        }
+        this._onDidChangeModes.fire();
+
+        // A session may have been left in a mode that was removed since
+        if (!this.getModes().some(mode => mode.id === this._currentMode)) {
+            this.setMode(ExtensionMode.Ask, false);
         }
     }
 }
@@ -0,0 +1,128 @@
+import * as vscode from 'vscode';
+import { ConfigurationManager } from './ConfigurationManager';
+
+export class ModelManager implements vscode.Disposable {
+    private _currentModel: string;
+    private _defaultModel: string;
+    private _disposables: vscode.Disposable[] = [];
+    private _onModelChanged = new vscode.EventEmitter<string>();
+    private _statusBarItem: vscode.StatusBarItem;
+
+    readonly onModelChanged = this._onModelChanged.event;
+    private _onDidChangeModels = new vscode.EventEmitter<void>();
+    /** Fires when settings or a project file changed the models on offer. */
+    readonly onDidChangeModels = this._onDidChangeModels.event;
+
+    constructor(private readonly _configManager: ConfigurationManager) {
+        this._currentModel = this._defaultModel = this._configManager.getConfig().defaultModel;
+        this._disposables.push(
+            this._configManager.onDidChangeProjectConfig(() => this._updateModels()),
+            vscode.workspace.onDidChangeConfiguration(e => {
+                if (e.affectsConfiguration('codeforgex.defaultModel') || e.affectsConfiguration('codeforgex.models')) {
+                    this._updateModels();
+                }
+            })
+        );
+
+        this._statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 100);
+        this._statusBarItem.command = 'codeforgex.selectModel';
+        this._updateStatusBar();
+        this._statusBarItem.show();
+    }
+
+    dispose(): void {
+        this._statusBarItem.dispose();
+        this._disposables.forEach(disposable => disposable.dispose());
+        this._onModelChanged.dispose();
+        this._onDidChangeModels.dispose();
+    }
+
+    getCurrentModel(): string {
+        return this._currentModel;
+    }
+
+    /**
+     * Model for a request about a workspace folder: the one the user picked,
+     * or while the picker still shows the default, that folder's default.
+     */
+    getModelFor(scope?: vscode.Uri): string {
+        return this._currentModel === this._defaultModel ? this._configManager.getConfig(scope).defaultModel : this._currentModel;
+    }
+
+    /**
+     * Model a request in the active folder runs with, which is what a chat
+     * session records.
+     */
+    getActiveModel(): string {
+        return this.getModelFor(this._configManager.getActiveFolder()?.uri);
+    }
+
+    /**
+     * Configured models with the default first. The current model is included
+     * even if it has since been removed from settings, so it stays selectable.
+     */
+    getAvailableModels(): string[] {
+        const config = this._configManager.getConfig();
+        return [...new Set([config.defaultModel, ...config.models, this._currentModel].filter(Boolean))];
+    }
+
+    setModel(model: string): void {
+        if (this._currentModel !== model) {
+            this._currentModel = model;
+            this._updateStatusBar();
+            this._onModelChanged.fire(model);
+        }
+    }
+
+    /**
+     * Selects the model a session recorded. A model that is the active
+     * folder's default selects the default again, so folders keep their own.
+     */
+    restoreModel(model?: string): void {
+        if (model) {
+            const folderDefault = this._configManager.getConfig(this._configManager.getActiveFolder()?.uri).defaultModel;
+            this.setModel(model === folderDefault ? this._defaultModel : model);
+        }
+    }
+
+    async selectModel(): Promise<void> {
+        const defaultModel = this._configManager.getConfig().defaultModel;
+        const items: (vscode.QuickPickItem & { model?: string })[] = this.getAvailableModels().map(model => ({
+            label: model === this._currentModel ? `$(check) ${model}` : model,
+            description: model === defaultModel ? 'default' : undefined,
+            model
+        }));
+        items.push({ label: '$(gear) Configure Models...' });
+
+        const selected = await vscode.window.showQuickPick(items, {
+            placeHolder: 'Select CodeForgeX model'
+        });
+
+        if (!selected) {
+            return;
+        }
+        if (selected.model) {
+            this.setModel(selected.model);
+        } else {
+            await vscode.commands.executeCommand('workbench.action.openSettings', 'codeforgex.models');
+        }
+    }
+
+    /**
+     * Settings or a project file can change the default; follow it unless
+     * another model was picked.
+     */
+    private _updateModels(): void {
+        const defaultModel = this._configManager.getConfig().defaultModel;
+        if (this._currentModel === this._defaultModel) {
+            this.setModel(defaultModel);
+        }
+        this._defaultModel = defaultModel;
+        this._onDidChangeModels.fire();
+    }
+
+    private _updateStatusBar(): void {
+        this._statusBarItem.text = `$(hubot) ${this._currentModel}`;
+        this._statusBarItem.tooltip = 'CodeForgeX model (click to change)';
+    }
+}
@@ -0,0 +1,215 @@
+import * as vscode from 'vscode';
+import { ChatMessage, ChatSession, ExtensionMode, ModeId } from '../types';
+
+export class SessionManager implements vscode.Disposable {
+    private static readonly SESSIONS_KEY = 'codeforgex.chatSessions';
+    private static readonly ACTIVE_SESSION_KEY = 'codeforgex.activeChatSession';
+    private static readonly DEFAULT_NAME = 'New Chat';
+
+    private _sessions: ChatSession[];
+    private _activeSessionId: string;
+    private _onDidChangeActiveSession = new vscode.EventEmitter<ChatSession>();
+    private _onDidRenameSession = new vscode.EventEmitter<ChatSession>();
+
+    readonly onDidChangeActiveSession = this._onDidChangeActiveSession.event;
+    readonly onDidRenameSession = this._onDidRenameSession.event;
+
+    constructor(private readonly _state: vscode.Memento) {
+        this._sessions = this._state.get<ChatSession[]>(SessionManager.SESSIONS_KEY, []).map(session => ({
+            ...session,
+            // Mementos round-trip through JSON, so dates come back as strings
+            messages: session.messages.map(message => ({ ...message, timestamp: new Date(message.timestamp) }))
+        }));
+
+        const activeId = this._state.get<string>(SessionManager.ACTIVE_SESSION_KEY);
+        const active = this._sessions.find(s => s.id === activeId) ?? this._sessions[0] ?? this._createSession();
+        this._activeSessionId = active.id;
+    }
+
+    dispose(): void {
+        this._onDidChangeActiveSession.dispose();
+        this._onDidRenameSession.dispose();
+    }
+
+    getActiveSession(): ChatSession {
+        return this._sessions.find(s => s.id === this._activeSessionId)!;
+    }
+
+    getSessions(): ChatSession[] {
+        return [...this._sessions].sort((a, b) => b.updatedAt - a.updatedAt);
+    }
+
+    createSession(mode?: ModeId, model?: string): ChatSession {
+        const session = this._createSession(mode, model);
+        this._activate(session);
+        return session;
+    }
+
+    switchSession(id: string): void {
+        const session = this._sessions.find(s => s.id === id);
+        if (session && session.id !== this._activeSessionId) {
+            this._activate(session);
+        }
+    }
+
+    renameSession(id: string, name: string): void {
+        const session = this._sessions.find(s => s.id === id);
+        if (session) {
+            session.name = name;
+            this.save();
+            this._onDidRenameSession.fire(session);
+        }
+    }
+
+    deleteSession(id: string): void {
+        const index = this._sessions.findIndex(s => s.id === id);
+        if (index === -1) {
+            return;
+        }
+
+        this._sessions.splice(index, 1);
+        if (id === this._activeSessionId) {
+            this._activate(this.getSessions()[0] ?? this._createSession());
+        } else {
+            this.save();
+        }
+    }
+
+    /**
+     * Records changes made to the active session. Sessions still carrying the
+     * default name are named after their first user message.
+     */
+    updateActiveSession(changes: Partial<Pick<ChatSession, 'messages' | 'mode' | 'model' | 'contextFiles' | 'contextDiagnostics'>>): void {
+        const session = this.getActiveSession();
+        Object.assign(session, changes);
+
+        if (session.name === SessionManager.DEFAULT_NAME) {
+            const firstPrompt = session.messages.find(m => m.type === 'user');
+            if (firstPrompt) {
+                session.name = firstPrompt.content.trim().split('\n')[0].slice(0, 40);
+            }
+        }
+
+        session.updatedAt = Date.now();
+        this.save();
+    }
+
+    save(): Thenable<void> {
+        return Promise.all([
+            this._state.update(SessionManager.SESSIONS_KEY, this._sessions),
+            this._state.update(SessionManager.ACTIVE_SESSION_KEY, this._activeSessionId)
+        ]).then(() => undefined);
+    }
+
+    async selectSession(): Promise<void> {
+        const items = this.getSessions().map(session => ({
+            label: session.id === this._activeSessionId ? `$(comment-discussion) ${session.name}` : session.name,
+            description: `${session.messages.length} messages · ${session.mode}${session.model ? ` · ${session.model}` : ''}`,
+            detail: `Last updated ${new Date(session.updatedAt).toLocaleString()}`,
+            session
+        }));
+
+        const selected = await vscode.window.showQuickPick(items, {
+            placeHolder: 'Select a chat session',
+            matchOnDetail: true
+        });
+
+        if (selected) {
+            this.switchSession(selected.session.id);
+        }
+    }
+
+    async promptRenameSession(): Promise<void> {
+        const session = this.getActiveSession();
+        const name = await vscode.window.showInputBox({
+            prompt: 'Chat session name',
+            value: session.name,
+            validateInput: value => value.trim() ? undefined : 'Name cannot be empty'
+        });
+
+        if (name) {
+            this.renameSession(session.id, name.trim());
+        }
+    }
+
+    async promptDeleteSession(): Promise<void> {
+        const session = this.getActiveSession();
+        const confirm = await vscode.window.showWarningMessage(
+            `Delete chat session "${session.name}"?`,
+            { modal: true },
+            'Delete'
+        );
+
+        if (confirm === 'Delete') {
+            this.deleteSession(session.id);
+        }
+    }
+
+    async exportSession(): Promise<void> {
+        const session = this.getActiveSession();
+        const defaultFolder = vscode.workspace.workspaceFolders?.[0]?.uri;
+        const fileName = `${session.name.replace(/[^\w-]+/g, '-')}.md`;
+
+        const target = await vscode.window.showSaveDialog({
+            defaultUri: defaultFolder ? vscode.Uri.joinPath(defaultFolder, fileName) : undefined,
+            filters: { 'Markdown': ['md'], 'JSON': ['json'] }
+        });
+
+        if (!target) {
+            return;
+        }
+
+        const content = target.path.endsWith('.json')
+            ? JSON.stringify(session, null, 2)
+            : this._toMarkdown(session);
+
+        await vscode.workspace.fs.writeFile(target, Buffer.from(content, 'utf8'));
+        vscode.window.showInformationMessage(`Exported "${session.name}" to ${vscode.workspace.asRelativePath(target)}`);
+    }
+
+    private _createSession(mode: ModeId = ExtensionMode.Ask, model?: string): ChatSession {
+        const now = Date.now();
+        const session: ChatSession = {
+            id: now.toString(36) + Math.random().toString(36).slice(2, 6),
+            name: SessionManager.DEFAULT_NAME,
+            mode,
+            model,
+            messages: [],
+            contextFiles: [],
+            createdAt: now,
+            updatedAt: now
+        };
+
+        this._sessions.push(session);
+        return session;
+    }
+
+    private _activate(session: ChatSession): void {
+        this._activeSessionId = session.id;
+        this.save();
+        this._onDidChangeActiveSession.fire(session);
+    }
+
+    private _toMarkdown(session: ChatSession): string {
+        const lines = [`# ${session.name}`, '', `Mode: ${session.mode}`, ...(session.model ? [`Model: ${session.model}`] : []), ''];
+
+        if (session.contextFiles.length > 0 || session.contextDiagnostics) {
+            lines.push('## Context', '');
+            if (session.contextDiagnostics) {
+                const { scope, isActive } = session.contextDiagnostics;
+                lines.push(`- Problems in ${scope === 'workspace' ? 'the workspace' : 'context files'}${isActive ? '' : ' (inactive)'}`);
+            }
+            session.contextFiles.forEach(file => {
+                lines.push(`- ${vscode.workspace.asRelativePath(vscode.Uri.parse(file.uri))}${file.isActive ? '' : ' (inactive)'}`);
+            });
+            lines.push('');
+        }
+
+        session.messages.forEach((message: ChatMessage) => {
+            lines.push(`## ${message.type.charAt(0).toUpperCase() + message.type.slice(1)}${message.model ? ` (${message.model})` : ''} · ${message.timestamp.toLocaleString()}`, '');
+            lines.push(message.content, '');
+        });
+
+        return lines.join('\n');
+    }
+}
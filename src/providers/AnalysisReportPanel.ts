@@ -0,0 +1,267 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { AnalysisIssue, ProjectAnalysis, ProjectAnalysisDiff } from '../types';
+import { diffAnalyses, formatAnalysisMarkdown, groupDependencies } from '../utils/analysis';
+import { escapeHtml } from '../utils/highlight';
+import { getNonce } from '../utils/webview';
+
+/** Messages the report's webview sends. */
+type ReportMessage =
+    | { type: 'open'; file: string; line?: number }
+    | { type: 'export'; format: 'markdown' | 'json' };
+
+/**
+ * Shows project analyses as a report with clickable locations, keeps the last
+ * analysis of each folder to show what changed, and exports to Markdown or JSON.
+ */
+export class AnalysisReportPanel implements vscode.Disposable {
+    private static readonly STATE_KEY = 'codeforgex.projectAnalyses';
+
+    private _panel?: vscode.WebviewPanel;
+    private _analysis?: ProjectAnalysis;
+    private _diff?: ProjectAnalysisDiff;
+
+    constructor(private readonly _state: vscode.Memento) {}
+
+    dispose(): void {
+        this._panel?.dispose();
+    }
+
+    /**
+     * Shows an analysis, compared with the previous one of the same folder,
+     * which it then replaces.
+     */
+    async show(analysis: ProjectAnalysis): Promise<void> {
+        const analyses = this._state.get<Record<string, ProjectAnalysis>>(AnalysisReportPanel.STATE_KEY, {});
+        const previous = analyses[analysis.root];
+        this._analysis = analysis;
+        this._diff = previous ? diffAnalyses(previous, analysis) : undefined;
+        await this._state.update(AnalysisReportPanel.STATE_KEY, { ...analyses, [analysis.root]: analysis });
+
+        if (!this._panel) {
+            this._panel = vscode.window.createWebviewPanel(
+                'projectAnalysis',
+                'Project Analysis',
+                vscode.ViewColumn.Beside,
+                { enableScripts: true, enableFindWidget: true, localResourceRoots: [] }
+            );
+            this._panel.onDidDispose(() => {
+                this._panel = undefined;
+            });
+            this._panel.webview.onDidReceiveMessage(message => this._handleMessage(message));
+        }
+
+        this._panel.title = `Project Analysis: ${path.basename(analysis.root)}`;
+        this._panel.webview.html = this._getHtml(this._panel.webview, analysis, this._diff);
+        this._panel.reveal();
+    }
+
+    private async _handleMessage(data: unknown): Promise<void> {
+        const message = this._parseMessage(data);
+        switch (message?.type) {
+            case 'open':
+                await this._open(message.file, message.line);
+                break;
+            case 'export':
+                await this._export(message.format);
+                break;
+        }
+    }
+
+    private _parseMessage(data: unknown): ReportMessage | undefined {
+        if (!data || typeof data !== 'object') {
+            return undefined;
+        }
+        const message = data as Record<string, unknown>;
+        if (message.type === 'open' && typeof message.file === 'string') {
+            return { type: 'open', file: message.file, line: Number(message.line) || undefined };
+        }
+        if (message.type === 'export') {
+            return { type: 'export', format: message.format === 'json' ? 'json' : 'markdown' };
+        }
+        return undefined;
+    }
+
+    /**
+     * Opens a location from the report. Locations come from the CLI's output,
+     * so only files inside the analyzed folder are opened.
+     */
+    private async _open(file: string, line?: number): Promise<void> {
+        if (!this._analysis) {
+            return;
+        }
+
+        const root = this._analysis.root;
+        const relative = path.relative(root, path.resolve(root, file));
+        if (relative === '..' || relative.startsWith(`..${path.sep}`) || path.isAbsolute(relative)) {
+            vscode.window.showWarningMessage(`${file} is outside ${root}`);
+            return;
+        }
+
+        const uri = vscode.Uri.file(path.join(root, relative));
+        try {
+            await vscode.workspace.fs.stat(uri);
+        } catch (error) {
+            vscode.window.showWarningMessage(`${file} was not found in ${this._analysis.root}`);
+            return;
+        }
+
+        const position = new vscode.Position(Math.max(0, (line ?? 1) - 1), 0);
+        await vscode.window.showTextDocument(uri, { selection: new vscode.Range(position, position), viewColumn: vscode.ViewColumn.One });
+    }
+
+    private async _export(format: 'markdown' | 'json'): Promise<void> {
+        if (!this._analysis) {
+            return;
+        }
+
+        const extension = format === 'json' ? 'json' : 'md';
+        const target = await vscode.window.showSaveDialog({
+            defaultUri: vscode.Uri.joinPath(vscode.Uri.file(this._analysis.root), `project-analysis.${extension}`),
+            filters: format === 'json' ? { JSON: ['json'] } : { Markdown: ['md'] }
+        });
+        if (!target) {
+            return;
+        }
+
+        const content = format === 'json'
+            ? JSON.stringify({ ...this._analysis, changes: this._diff }, null, 2)
+            : formatAnalysisMarkdown(this._analysis, this._diff);
+        await vscode.workspace.fs.writeFile(target, Buffer.from(content, 'utf8'));
+        vscode.window.showInformationMessage(`Exported the analysis to ${vscode.workspace.asRelativePath(target)}`);
+    }
+
+    private _getHtml(webview: vscode.Webview, analysis: ProjectAnalysis, diff?: ProjectAnalysisDiff): string {
+        const nonce = getNonce();
+        const location = (file: string, line?: number) =>
+            `<a href="#" class="location" data-file="${escapeHtml(file)}" data-line="${line ?? ''}">${escapeHtml(file)}${line ? `:${line}` : ''}</a>`;
+        const issue = (entry: AnalysisIssue) =>
+            `<li><span class="severity ${entry.severity}">${entry.severity}</span> ${location(entry.file, entry.line)} ${escapeHtml(entry.message)}</li>`;
+        const sections: string[] = [];
+
+        if (diff) {
+            const languageChanges = diff.languageChanges
+                .map(change => `<li>${escapeHtml(change.name)}: ${change.previousFiles} → ${change.files} files</li>`)
+                .join('');
+            sections.push(`<section id="changes">
+                <h2>Changes since ${escapeHtml(new Date(diff.previousCreatedAt).toLocaleString())}</h2>
+                <ul class="stats">
+                    <li>${diff.newIssues.length} new issue(s), ${diff.resolvedIssues.length} resolved</li>
+                    <li>${diff.newHotspots.length} new hotspot(s)</li>
+                    <li>${diff.addedDependencies.length} dependency edge(s) added, ${diff.removedDependencies.length} removed</li>
+                    ${languageChanges}
+                </ul>
+                ${diff.newIssues.length > 0 ? `<h3>New issues</h3><ul>${diff.newIssues.map(issue).join('')}</ul>` : ''}
+                ${diff.resolvedIssues.length > 0 ? `<h3>Resolved issues</h3><ul class="resolved">${diff.resolvedIssues.map(issue).join('')}</ul>` : ''}
+            </section>`);
+        }
+
+        if (analysis.languages.length > 0) {
+            const rows = analysis.languages
+                .map(language => `<tr><td>${escapeHtml(language.name)}</td><td class="number">${language.files}</td><td class="number">${language.lines ?? ''}</td></tr>`)
+                .join('');
+            sections.push(`<section id="languages"><h2>Languages</h2>
+                <table><thead><tr><th>Language</th><th class="number">Files</th><th class="number">Lines</th></tr></thead><tbody>${rows}</tbody></table>
+            </section>`);
+        }
+
+        if (analysis.hotspots.length > 0) {
+            const items = analysis.hotspots
+                .map(hotspot => `<li>${location(hotspot.file, hotspot.line)}${hotspot.score !== undefined ? ` <span class="score">score ${hotspot.score}</span>` : ''} ${escapeHtml(hotspot.reason)}</li>`)
+                .join('');
+            sections.push(`<section id="hotspots"><h2>Hotspots</h2><ul>${items}</ul></section>`);
+        }
+
+        if (analysis.issues.length > 0) {
+            // Grouped by file so related problems read together
+            const byFile = new Map<string, AnalysisIssue[]>();
+            analysis.issues.forEach(entry => byFile.set(entry.file, [...(byFile.get(entry.file) ?? []), entry]));
+            const groups = [...byFile.entries()]
+                .map(([file, entries]) => `<details open><summary>${escapeHtml(file)} (${entries.length})</summary><ul>${entries.map(issue).join('')}</ul></details>`)
+                .join('');
+            sections.push(`<section id="issues"><h2>Issues</h2>${groups}</section>`);
+        }
+
+        if (analysis.dependencies.length > 0) {
+            // Nodes that look like paths open the file; package names are plain text
+            const node = (name: string) => /[/\\]|\.\w+$/.test(name) ? location(name) : `<code>${escapeHtml(name)}</code>`;
+            const items = [...groupDependencies(analysis.dependencies).entries()]
+                .map(([from, targets]) => `<li>${node(from)} → ${targets.map(node).join(', ')}</li>`)
+                .join('');
+            sections.push(`<section id="dependencies"><h2>Dependency Graph</h2><ul>${items}</ul></section>`);
+        }
+
+        const navigation = [
+            ['changes', 'Changes', !!diff],
+            ['languages', 'Languages', analysis.languages.length > 0],
+            ['hotspots', `Hotspots (${analysis.hotspots.length})`, analysis.hotspots.length > 0],
+            ['issues', `Issues (${analysis.issues.length})`, analysis.issues.length > 0],
+            ['dependencies', 'Dependencies', analysis.dependencies.length > 0]
+        ].filter(([, , shown]) => shown).map(([id, label]) => `<a href="#${id}">${label}</a>`).join('');
+
+        return `<!DOCTYPE html>
+        <html lang="en">
+        <head>
+            <meta charset="UTF-8">
+            <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${webview.cspSource} 'unsafe-inline'; script-src 'nonce-${nonce}';">
+            <meta name="viewport" content="width=device-width, initial-scale=1.0">
+            <title>Project Analysis</title>
+            <style>
+                body { font-family: var(--vscode-font-family); color: var(--vscode-foreground); padding: 0 20px 20px; }
+                header { position: sticky; top: 0; background: var(--vscode-editor-background); padding: 12px 0; border-bottom: 1px solid var(--vscode-panel-border); }
+                header h1 { margin: 0 0 4px; font-size: 1.4em; }
+                .meta { color: var(--vscode-descriptionForeground); }
+                nav a { margin-right: 12px; }
+                .actions { float: right; }
+                button { background: var(--vscode-button-secondaryBackground); color: var(--vscode-button-secondaryForeground); border: none; padding: 4px 10px; cursor: pointer; border-radius: 2px; }
+                button:hover { background: var(--vscode-button-secondaryHoverBackground); }
+                a { color: var(--vscode-textLink-foreground); text-decoration: none; }
+                a:hover { text-decoration: underline; }
+                .location { font-family: var(--vscode-editor-font-family); }
+                ul { padding-left: 20px; }
+                li { margin: 4px 0; }
+                table { border-collapse: collapse; }
+                th, td { border: 1px solid var(--vscode-panel-border); padding: 4px 10px; text-align: left; }
+                .number { text-align: right; }
+                .severity { display: inline-block; min-width: 56px; font-size: 0.85em; text-transform: uppercase; }
+                .severity.error { color: var(--vscode-errorForeground); }
+                .severity.warning { color: var(--vscode-editorWarning-foreground); }
+                .severity.info { color: var(--vscode-editorInfo-foreground); }
+                .resolved li { text-decoration: line-through; opacity: 0.7; }
+                .score { color: var(--vscode-descriptionForeground); }
+                summary { cursor: pointer; margin: 6px 0; }
+            </style>
+        </head>
+        <body>
+            <header>
+                <span class="actions">
+                    <button data-export="markdown">Export Markdown</button>
+                    <button data-export="json">Export JSON</button>
+                </span>
+                <h1>Project Analysis</h1>
+                <div class="meta">${escapeHtml(analysis.root)} · ${escapeHtml(new Date(analysis.createdAt).toLocaleString())}</div>
+                <nav>${navigation}</nav>
+            </header>
+            ${analysis.summary ? `<p>${escapeHtml(analysis.summary)}</p>` : ''}
+            ${sections.join('\n') || '<p>The analysis found nothing to report.</p>'}
+            <script nonce="${nonce}">
+                (function() {
+                    const vscode = acquireVsCodeApi();
+                    document.addEventListener('click', event => {
+                        const location = event.target.closest('.location');
+                        if (location) {
+                            event.preventDefault();
+                            vscode.postMessage({ type: 'open', file: location.dataset.file, line: location.dataset.line });
+                            return;
+                        }
+                        const exportButton = event.target.closest('[data-export]');
+                        if (exportButton) {
+                            vscode.postMessage({ type: 'export', format: exportButton.dataset.export });
+                        }
+                    });
+                })();
+            </script>
+        </body>
+        </html>`;
+    }
+}
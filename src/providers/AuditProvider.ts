@@ -0,0 +1,106 @@
+import * as vscode from 'vscode';
+import { AuditFinding, AuditFindingStatus } from '../types';
+import { AuditService } from '../services/AuditService';
+import { SWC_REGISTRY } from '../utils/solidity';
+import { compareFindings } from '../utils/audit';
+
+export type AuditTreeNode =
+    | { kind: 'status'; status: AuditFindingStatus; findings: AuditFinding[] }
+    | { kind: 'finding'; finding: AuditFinding };
+
+export const AUDIT_STATUS_LABELS: Record<AuditFindingStatus, string> = {
+    'open': 'Open',
+    'acknowledged': 'Acknowledged',
+    'fixed': 'Fixed',
+    'false-positive': 'False Positive'
+};
+
+const SEVERITY_ICONS: Record<AuditFinding['severity'], vscode.ThemeIcon> = {
+    high: new vscode.ThemeIcon('error', new vscode.ThemeColor('list.errorForeground')),
+    medium: new vscode.ThemeIcon('warning', new vscode.ThemeColor('list.warningForeground')),
+    low: new vscode.ThemeIcon('info'),
+    info: new vscode.ThemeIcon('circle-outline')
+};
+
+/**
+ * Lists saved audit findings grouped by status, most severe first.
+ */
+export class AuditProvider implements vscode.TreeDataProvider<AuditTreeNode>, vscode.Disposable {
+    private _onDidChangeTreeData: vscode.EventEmitter<AuditTreeNode | undefined | null | void> = new vscode.EventEmitter<AuditTreeNode | undefined | null | void>();
+    readonly onDidChangeTreeData: vscode.Event<AuditTreeNode | undefined | null | void> = this._onDidChangeTreeData.event;
+
+    private _findingsListener: vscode.Disposable;
+
+    constructor(private readonly _auditService: AuditService) {
+        this._findingsListener = this._auditService.onDidChangeFindings(() => this.refresh());
+    }
+
+    dispose(): void {
+        this._findingsListener.dispose();
+        this._onDidChangeTreeData.dispose();
+    }
+
+    refresh(): void {
+        this._onDidChangeTreeData.fire();
+    }
+
+    getTreeItem(element: AuditTreeNode): vscode.TreeItem {
+        if (element.kind === 'status') {
+            const item = new vscode.TreeItem(
+                AUDIT_STATUS_LABELS[element.status],
+                element.status === 'open' ? vscode.TreeItemCollapsibleState.Expanded : vscode.TreeItemCollapsibleState.Collapsed
+            );
+            item.description = String(element.findings.length);
+            item.contextValue = 'auditStatus';
+            return item;
+        }
+
+        const { finding } = element;
+        const item = new vscode.TreeItem(`${finding.id} ${finding.title}`, vscode.TreeItemCollapsibleState.None);
+        item.description = `${finding.file}:${finding.line}${finding.notReportedSince ? ' · not reported by the last audit' : ''}`;
+        item.iconPath = SEVERITY_ICONS[finding.severity];
+        item.contextValue = 'auditFinding';
+
+        const swc = finding.swc ? ` · ${finding.swc}${SWC_REGISTRY[finding.swc] ? ` ${SWC_REGISTRY[finding.swc]}` : ''}` : '';
+        const tooltip = new vscode.MarkdownString();
+        tooltip.appendMarkdown(`**${finding.severity.toUpperCase()}** ${finding.category ? `· ${finding.category}` : ''}${swc}\n\n`);
+        tooltip.appendText(finding.description);
+        if (finding.recommendation) {
+            tooltip.appendMarkdown('\n\n**Recommendation:** ');
+            tooltip.appendText(finding.recommendation);
+        }
+        if (finding.justification) {
+            tooltip.appendMarkdown(`\n\n**${AUDIT_STATUS_LABELS[finding.status]}:** `);
+            tooltip.appendText(finding.justification);
+        }
+        item.tooltip = tooltip;
+
+        const root = this._auditService.getRoot();
+        if (root) {
+            item.command = {
+                command: 'vscode.open',
+                title: 'Open Finding',
+                arguments: [
+                    vscode.Uri.joinPath(root, finding.file),
+                    { selection: new vscode.Range(finding.line - 1, 0, finding.endLine - 1, Number.MAX_SAFE_INTEGER) }
+                ]
+            };
+        }
+        return item;
+    }
+
+    getChildren(element?: AuditTreeNode): Thenable<AuditTreeNode[]> {
+        if (!element) {
+            const findings = this._auditService.getFindings();
+            return Promise.resolve((Object.keys(AUDIT_STATUS_LABELS) as AuditFindingStatus[])
+                .map(status => ({ kind: 'status' as const, status, findings: findings.filter(finding => finding.status === status) }))
+                .filter(group => group.findings.length > 0));
+        }
+
+        if (element.kind === 'status') {
+            return Promise.resolve([...element.findings].sort(compareFindings).map(finding => ({ kind: 'finding' as const, finding })));
+        }
+
+        return Promise.resolve([]);
+    }
+}
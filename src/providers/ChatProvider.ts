@@ -1,25 +1,87 @@
 import * as vscode from 'vscode';
-import { ChatMessage, ExtensionMode } from '../types';
+import { AgentStep, ChatMessage, ChatSession, ContextBudgetReport, ExtensionMode, ModeId } from '../types';
 import { CodeForgeService } from '../services/CodeForgeService';
 import { ContextProvider } from './ContextProvider';
 import { ModeManager } from '../managers/ModeManager';
-
-export class ChatProvider implements vscode.WebviewViewProvider {
+import { SessionManager } from '../managers/SessionManager';
+import { ModelManager } from '../managers/ModelManager';
+import { EditReviewService } from '../services/EditReviewService';
+import { AuditService } from '../services/AuditService';
+import { PromptLibraryService } from '../services/PromptLibraryService';
+import { MentionService } from '../services/MentionService';
+import { ConfigurationManager } from '../managers/ConfigurationManager';
+import { formatTokens } from '../utils/tokens';
+import { mergeContextFiles, mergeDiagnostics, parseMentions } from '../utils/mentions';
+import { CodeBlockAction, renderMarkdown } from '../utils/markdown';
+import { toLanguageId } from '../utils/highlight';
+import { getNonce } from '../utils/webview';
+
+export class ChatProvider implements vscode.WebviewViewProvider, vscode.Disposable {
     private _view?: vscode.WebviewView;
-    private _messages: ChatMessage[] = [];
+    private _messages: ChatMessage[];
+    private _pendingRequest?: vscode.CancellationTokenSource;
+    private _disposables: vscode.Disposable[] = [];
+    // Listeners of the current webview, which is disposed when the view is hidden
+    private _viewDisposables: vscode.Disposable[] = [];
+    // Context of the last session switch being read back; requests wait for it
+    private _restoring: Promise<void> = Promise.resolve();
 
     constructor(
         private readonly _extensionUri: vscode.Uri,
         private readonly _codeForgeService: CodeForgeService,
         private readonly _contextProvider: ContextProvider,
-        private readonly _modeManager: ModeManager
-    ) {}
+        private readonly _modeManager: ModeManager,
+        private readonly _sessionManager: SessionManager,
+        private readonly _modelManager: ModelManager,
+        private readonly _editReviewService: EditReviewService,
+        private readonly _auditService: AuditService,
+        private readonly _promptLibrary: PromptLibraryService,
+        private readonly _mentionService: MentionService,
+        private readonly _configManager: ConfigurationManager
+    ) {
+        const session = this._sessionManager.getActiveSession();
+        this._messages = session.messages;
+        this._restoring = this._restoreSessionState(session);
+
+        // Keep the active session in sync with the mode, model and context it was used with
+        this._disposables.push(
+            this._modeManager.onModeChanged(mode => {
+                this._sessionManager.updateActiveSession({ mode });
+                const model = this._modeManager.getMode(mode).model;
+                if (model) {
+                    this._modelManager.setModel(model);
+                }
+            }),
+            this._modelManager.onModelChanged(() => {
+                this._sessionManager.updateActiveSession({ model: this._modelManager.getActiveModel() });
+                this._updateModelDisplay();
+            }),
+            this._modelManager.onDidChangeModels(() => this._updateModelDisplay()),
+            this._contextProvider.onDidChangeTreeData(() => {
+                this._sessionManager.updateActiveSession({
+                    contextFiles: this._contextProvider.getSnapshot(),
+                    contextDiagnostics: this._contextProvider.getDiagnosticsSnapshot()
+                });
+            }),
+            this._sessionManager.onDidChangeActiveSession(session => this._loadSession(session)),
+            this._codeForgeService.onDidTrimContext(report => this._reportContextTrim(report)),
+            this._sessionManager.onDidRenameSession(() => this._updateSessionDisplay()),
+            this._promptLibrary.onDidChangePrompts(() => this._updatePromptsDisplay())
+        );
+    }
+
+    dispose(): void {
+        this._pendingRequest?.cancel();
+        this._disposeView();
+        this._disposables.forEach(disposable => disposable.dispose());
+    }
 
     public resolveWebviewView(
         webviewView: vscode.WebviewView,
         context: vscode.WebviewViewResolveContext,
         _token: vscode.CancellationToken,
     ) {
+        this._disposeView();
         this._view = webviewView;
 
         webviewView.webview.options = {
@@ -30,11 +92,30 @@ export class ChatProvider implements vscode.WebviewViewProvider {
         webviewView.webview.html = this._getHtmlForWebview(webviewView.webview);
 
         // Handle messages from webview
-        webviewView.webview.onDidReceiveMessage(async (data) => {
+        const onMessage = webviewView.webview.onDidReceiveMessage(async (data) => {
             switch (data.type) {
+                case 'ready':
+                    this._updateWebview();
+                    this._updateRequestState();
+                    this._updateModeDisplay();
+                    this._updateModelDisplay();
+                    this._updateSessionDisplay();
+                    this._updatePromptsDisplay();
+                    break;
                 case 'sendMessage':
                     await this._handleUserMessage(data.message);
                     break;
+                case 'completeMention':
+                    this._view?.webview.postMessage({
+                        type: 'mentionCompletions',
+                        requestId: data.requestId,
+                        from: data.from,
+                        items: await this._mentionService.complete(data.kind, data.query)
+                    });
+                    break;
+                case 'cancelRequest':
+                    this._pendingRequest?.cancel();
+                    break;
                 case 'clearChat':
                     this._clearChat();
                     break;
@@ -42,33 +123,109 @@ export class ChatProvider implements vscode.WebviewViewProvider {
                     this._modeManager.switchMode();
                     this._updateModeDisplay();
                     break;
+                case 'selectModel':
+                    this._modelManager.setModel(data.model);
+                    break;
+                case 'newSession':
+                    this._sessionManager.createSession(this._modeManager.getCurrentMode(), this._modelManager.getActiveModel());
+                    break;
+                case 'selectSession':
+                    await this._sessionManager.selectSession();
+                    break;
+                case 'codeAction':
+                    await this._handleCodeAction(data.action, data.code, data.language, data.path);
+                    break;
             }
         });
 
-        // Update mode display when mode changes
-        this._modeManager.onModeChanged(() => {
-            this._updateModeDisplay();
-        });
+        this._viewDisposables.push(
+            onMessage,
+            // Update mode display when mode changes
+            this._modeManager.onModeChanged(() => {
+                this._updateModeDisplay();
+            }),
+            this._modeManager.onDidChangeModes(() => {
+                this._updateModeDisplay();
+                this._updateWebview();
+            }),
+            webviewView.onDidDispose(() => {
+                if (this._view === webviewView) {
+                    this._view = undefined;
+                }
+                this._disposeView();
+            })
+        );
+    }
+
+    private _disposeView(): void {
+        this._viewDisposables.forEach(disposable => disposable.dispose());
+        this._viewDisposables = [];
+    }
+
+    /**
+     * Sends a message on the user's behalf, switching modes first when given,
+     * and brings the chat into view to show the reply.
+     */
+    public async sendMessage(message: string, mode?: ModeId) {
+        if (mode) {
+            this._modeManager.setMode(mode, false);
+        }
+        await vscode.commands.executeCommand('codeforgex.chatView.focus');
+        await this._handleUserMessage(message);
     }
 
     private async _handleUserMessage(message: string) {
         if (!message.trim()) {
             return;
         }
+        if (this._pendingRequest) {
+            vscode.window.showInformationMessage('CodeForgeX is still answering; stop the current request first');
+            return;
+        }
 
         // Add user message
+        const mentions = parseMentions(message).map(mention => mention.text);
         const userMessage: ChatMessage = {
             id: Date.now().toString(),
             type: 'user',
             content: message,
             timestamp: new Date(),
-            mode: this._modeManager.getCurrentMode()
+            mode: this._modeManager.getCurrentMode(),
+            mentions: mentions.length > 0 ? mentions : undefined
         };
         this._addMessage(userMessage);
 
+        // Assistant reply is created on the first streamed chunk and grown in place
+        const assistantMessage: ChatMessage = {
+            id: (Date.now() + 1).toString(),
+            type: 'assistant',
+            content: '',
+            timestamp: new Date(),
+            mode: this._modeManager.getCurrentMode()
+        };
+        const onOutput = (chunk: string) => this._appendToMessage(assistantMessage, chunk);
+        const onStep = (step: AgentStep) => this._updateStep(assistantMessage, step);
+        const cancellation = new vscode.CancellationTokenSource();
+        this._pendingRequest = cancellation;
+        this._updateRequestState();
+        const token = cancellation.token;
+        const sessionId = this._sessionManager.getActiveSession().id;
+
         try {
+            // The context of a session just switched to may still be loading
+            await this._restoring;
+
+            // Slash commands are shown as typed but sent as their expanded prompt
+            const request = await this._promptLibrary.expand(message) ?? message;
+
+            // @-mentions add context to this message only
+            const mentioned = await this._mentionService.resolve(message);
+
             // Get context files
-            const contextFiles = this._contextProvider.getContextFiles();
+            const contextFiles = mergeContextFiles(this._contextProvider.getContextFiles(), mentioned.files);
+            const diagnostics = mergeDiagnostics(await this._contextProvider.getDiagnostics(), mentioned.diagnostics);
+            // Labelled with the model the request runs with, which may be its folder's default
+            assistantMessage.model = this._codeForgeService.getModelFor(contextFiles);
             
             // Process with CodeForge CLI based on current mode
             let response: string;
@@ -76,72 +233,296 @@ export class ChatProvider implements vscode.WebviewViewProvider {
             
             switch (currentMode) {
                 case ExtensionMode.Edit:
-                    response = await this._codeForgeService.processEdit(message, contextFiles);
+                    response = await this._codeForgeService.processEdit(request, contextFiles, onOutput, token);
                     break;
                 case ExtensionMode.Agent:
-                    response = await this._codeForgeService.processAgent(message, contextFiles);
+                    response = await this._codeForgeService.processAgent(request, contextFiles, onOutput, token, onStep, diagnostics);
                     break;
                 case ExtensionMode.Ask:
-                    response = await this._codeForgeService.processPrompt(message, contextFiles);
+                    response = await this._codeForgeService.processPrompt(request, contextFiles, onOutput, token, diagnostics);
+                    break;
+                case ExtensionMode.Audit:
+                    response = await this._auditService.audit(contextFiles, request, token);
                     break;
                 default:
-                    response = await this._codeForgeService.processPrompt(message, contextFiles);
+                    response = await this._codeForgeService.processCustomMode(
+                        this._modeManager.getMode(currentMode), request, contextFiles, onOutput, token, onStep, diagnostics
+                    );
             }
 
-            // Add assistant response
-            const assistantMessage: ChatMessage = {
-                id: (Date.now() + 1).toString(),
-                type: 'assistant',
-                content: response,
-                timestamp: new Date(),
-                mode: currentMode
-            };
-            this._addMessage(assistantMessage);
+            // Replace the streamed content with the final response
+            assistantMessage.content = response;
+            if (this._messages.includes(assistantMessage)) {
+                this._commitMessages();
+            } else {
+                this._addMessage(assistantMessage);
+            }
 
         } catch (error) {
+            if (this._sessionManager.getActiveSession().id !== sessionId) {
+                // Cancelled by switching sessions; the other session is now displayed
+                return;
+            }
+
+            if (error instanceof vscode.CancellationError) {
+                // Keep whatever streamed before the stop, then mark the turn as cancelled
+                this._addMessage({
+                    id: (Date.now() + 2).toString(),
+                    type: 'system',
+                    content: 'Request cancelled',
+                    timestamp: new Date(),
+                    cancelled: true
+                });
+                return;
+            }
+
             const errorMessage: ChatMessage = {
-                id: (Date.now() + 1).toString(),
+                id: (Date.now() + 2).toString(),
                 type: 'system',
                 content: `Error: ${error instanceof Error ? error.message : 'Unknown error occurred'}`,
                 timestamp: new Date()
             };
             this._addMessage(errorMessage);
+        } finally {
+            if (this._pendingRequest === cancellation) {
+                this._pendingRequest = undefined;
+                this._updateRequestState();
+            }
+            cancellation.dispose();
+        }
+    }
+
+    /**
+     * Reported while the request is still running, so the notice is appended
+     * on its own rather than re-rendering the whole chat.
+     */
+    private _reportContextTrim(report: ContextBudgetReport) {
+        const details = report.trimmed.map(trim => {
+            const what = trim.action === 'dropped'
+                ? 'dropped'
+                : trim.action === 'symbols' ? 'reduced to relevant symbols' : 'truncated to head and tail';
+            return `• ${trim.relativePath}: ${what} (~${formatTokens(trim.originalTokens)} → ~${formatTokens(trim.keptTokens)} tokens)`;
+        });
+
+        const notice: ChatMessage = {
+            id: `${Date.now()}-context`,
+            type: 'system',
+            content: `Context exceeded the ${formatTokens(report.budget)} token budget:\n${details.join('\n')}`,
+            timestamp: new Date()
+        };
+        this._messages.push(notice);
+        this._sessionManager.updateActiveSession({ messages: this._messages });
+        this._view?.webview.postMessage({ type: 'updateMessage', message: this._toWebviewMessage(notice) });
+    }
+
+    private _appendToMessage(message: ChatMessage, chunk: string) {
+        if (!this._messages.includes(message)) {
+            this._messages.push(message);
+        }
+        message.content += chunk;
+
+        if (this._view) {
+            this._view.webview.postMessage({
+                type: 'appendToMessage',
+                message: this._toWebviewMessage(message),
+                chunk
+            });
+        }
+    }
+
+    private _updateStep(message: ChatMessage, step: AgentStep) {
+        if (!this._messages.includes(message)) {
+            this._messages.push(message);
+        }
+        const steps = message.steps ?? (message.steps = []);
+        const index = steps.findIndex(existing => existing.id === step.id);
+        if (index === -1) {
+            steps.push(step);
+        } else {
+            steps[index] = step;
+        }
+
+        if (this._view) {
+            this._view.webview.postMessage({
+                type: 'updateMessage',
+                message: this._toWebviewMessage(message)
+            });
         }
     }
 
     private _addMessage(message: ChatMessage) {
         this._messages.push(message);
-        this._updateWebview();
+        this._commitMessages();
     }
 
     private _clearChat() {
         this._messages = [];
+        this._commitMessages();
+    }
+
+    private _commitMessages() {
+        this._sessionManager.updateActiveSession({ messages: this._messages });
+        this._updateWebview();
+        this._updateSessionDisplay();
+    }
+
+    private _loadSession(session: ChatSession) {
+        // A reply still streaming belongs to the previous session
+        this._pendingRequest?.cancel();
+
+        this._messages = session.messages;
+        // Chained so a quick second switch cannot be overtaken by the first
+        this._restoring = this._restoring.then(() => this._restoreSessionState(session));
         this._updateWebview();
+        this._updateSessionDisplay();
+    }
+
+    private async _restoreSessionState(session: ChatSession): Promise<void> {
+        this._modeManager.setMode(session.mode, false);
+        this._modelManager.restoreModel(session.model);
+        try {
+            await this._contextProvider.restoreSnapshot(session.contextFiles, session.contextDiagnostics);
+        } catch (error) {
+            vscode.window.showWarningMessage(`Could not restore the context of "${session.name}": ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
+
+    /**
+     * Send and Stop follow whether a request is running here, whatever the
+     * webview last asked for.
+     */
+    private _updateRequestState() {
+        this._view?.webview.postMessage({ type: 'requestState', busy: this._pendingRequest !== undefined });
     }
 
     private _updateWebview() {
         if (this._view) {
             this._view.webview.postMessage({
                 type: 'updateMessages',
-                messages: this._messages
+                messages: this._messages.map(message => this._toWebviewMessage(message))
+            });
+        }
+    }
+
+    /**
+     * Assistant replies are rendered from markdown here, where the renderer can
+     * escape everything it does not produce itself.
+     */
+    private _toWebviewMessage(message: ChatMessage) {
+        const modeIcon = message.mode ? this._modeManager.getMode(message.mode).icon : undefined;
+        return message.type === 'assistant'
+            ? { ...message, modeIcon, html: renderMarkdown(message.content) }
+            : { ...message, modeIcon };
+    }
+
+    private async _handleCodeAction(action: CodeBlockAction, code: string, language: string, filePath: string) {
+        switch (action) {
+            case 'copy':
+                await vscode.env.clipboard.writeText(code);
+                vscode.window.setStatusBarMessage('Code copied to clipboard', 2000);
+                break;
+            case 'insert': {
+                const editor = vscode.window.activeTextEditor ?? vscode.window.visibleTextEditors[0];
+                if (!editor) {
+                    vscode.window.showErrorMessage('Open an editor to insert the code into');
+                    return;
+                }
+                await editor.edit(builder => {
+                    editor.selections.forEach(selection => builder.replace(selection, code));
+                });
+                break;
+            }
+            case 'apply': {
+                let uri: vscode.Uri | undefined;
+                try {
+                    uri = await this._resolveApplyTarget(filePath);
+                } catch (error) {
+                    vscode.window.showErrorMessage(`Cannot apply the code: ${error instanceof Error ? error.message : 'unknown error'}`);
+                    return;
+                }
+                if (uri) {
+                    await this._editReviewService.review([{ uri, relativePath: vscode.workspace.asRelativePath(uri), content: code }]);
+                }
+                break;
+            }
+            case 'newFile': {
+                const document = await vscode.workspace.openTextDocument({ content: code, language: toLanguageId(language) });
+                await vscode.window.showTextDocument(document);
+                break;
+            }
+        }
+    }
+
+    /**
+     * The file named on the code fence, else the active editor's file, else one
+     * the user picks. Fence paths must stay inside the workspace.
+     */
+    private async _resolveApplyTarget(filePath: string): Promise<vscode.Uri | undefined> {
+        if (filePath && vscode.workspace.workspaceFolders?.length) {
+            return this._configManager.resolveWorkspacePath(filePath);
+        }
+
+        const editor = vscode.window.activeTextEditor ?? vscode.window.visibleTextEditors[0];
+        if (editor && editor.document.uri.scheme === 'file') {
+            return editor.document.uri;
+        }
+
+        const picked = await vscode.window.showOpenDialog({
+            canSelectMany: false,
+            defaultUri: this._configManager.getActiveFolder()?.uri,
+            openLabel: 'Apply Code'
+        });
+        return picked?.[0];
+    }
+
+    private _updateSessionDisplay() {
+        if (this._view) {
+            this._view.webview.postMessage({
+                type: 'updateSession',
+                name: this._sessionManager.getActiveSession().name
+            });
+        }
+    }
+
+    private _updateModelDisplay() {
+        if (this._view) {
+            this._view.webview.postMessage({
+                type: 'updateModels',
+                models: this._modelManager.getAvailableModels(),
+                current: this._modelManager.getCurrentModel()
+            });
+        }
+    }
+
+    private _updatePromptsDisplay() {
+        if (this._view) {
+            this._view.webview.postMessage({
+                type: 'updatePrompts',
+                prompts: this._promptLibrary.getPrompts().map(({ name, description }) => ({ name, description }))
             });
         }
     }
 
     private _updateModeDisplay() {
         if (this._view) {
+            const mode = this._modeManager.getMode();
             this._view.webview.postMessage({
                 type: 'updateMode',
-                mode: this._modeManager.getCurrentMode()
+                mode: this._modeManager.getCurrentMode(),
+                name: mode.name,
+                icon: mode.icon
             });
         }
     }
 
     private _getHtmlForWebview(webview: vscode.Webview): string {
+        const nonce = getNonce();
+
         return `<!DOCTYPE html>
         <html lang="en">
         <head>
             <meta charset="UTF-8">
+            <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${webview.cspSource} 'unsafe-inline'; img-src ${webview.cspSource} data:; script-src 'nonce-${nonce}';">
             <meta name="viewport" content="width=device-width, initial-scale=1.0">
             <title>CodeForgeX Chat</title>
             <style>
@@ -195,6 +576,31 @@ export class ChatProvider implements vscode.WebviewViewProvider {
                     color: var(--vscode-titleBar-activeForeground, #cccccc);
                 }
 
+                .session-name {
+                    font-size: 12px;
+                    color: var(--vscode-descriptionForeground, #999999);
+                    overflow: hidden;
+                    text-overflow: ellipsis;
+                    white-space: nowrap;
+                    min-width: 0;
+                }
+
+                .model-select {
+                    margin-left: auto;
+                    max-width: 140px;
+                    padding: 4px 8px;
+                    background: var(--vscode-dropdown-background, #3c3c3c);
+                    color: var(--vscode-dropdown-foreground, #cccccc);
+                    border: 1px solid var(--vscode-dropdown-border, #464647);
+                    border-radius: 4px;
+                    font-size: 12px;
+                    outline: none;
+                }
+
+                .model-select:focus {
+                    border-color: var(--vscode-focusBorder, #007acc);
+                }
+
                 .mode-indicator {
                     background: var(--vscode-badge-background, #0e639c);
                     color: var(--vscode-badge-foreground, #ffffff);
@@ -204,7 +610,6 @@ export class ChatProvider implements vscode.WebviewViewProvider {
                     font-weight: 500;
                     text-transform: uppercase;
                     letter-spacing: 0.5px;
-                    margin-left: auto;
                     box-shadow: 0 2px 4px rgba(0,0,0,0.2);
                     transition: all 0.3s ease;
                 }
@@ -346,6 +751,12 @@ export class ChatProvider implements vscode.WebviewViewProvider {
                     border: 1px solid var(--vscode-inputValidation-warningBorder, #b89500);
                 }
 
+                .system.cancelled .message-bubble {
+                    background: var(--vscode-editorWidget-background, #252526);
+                    color: var(--vscode-descriptionForeground, #999999);
+                    border: 1px dashed var(--vscode-panel-border, #464647);
+                }
+
                 .message-header {
                     font-size: 11px;
                     opacity: 0.8;
@@ -356,6 +767,29 @@ export class ChatProvider implements vscode.WebviewViewProvider {
                     color: var(--vscode-descriptionForeground, #999999);
                 }
 
+                .message-model {
+                    padding: 0 6px;
+                    border-radius: 8px;
+                    background: var(--vscode-badge-background, #4d4d4d);
+                    color: var(--vscode-badge-foreground, #ffffff);
+                    font-size: 10px;
+                }
+
+                .message-mentions {
+                    display: flex;
+                    flex-wrap: wrap;
+                    gap: 4px;
+                    margin-top: 6px;
+                }
+
+                .mention-chip {
+                    padding: 0 6px;
+                    border-radius: 8px;
+                    background: var(--vscode-badge-background, #4d4d4d);
+                    color: var(--vscode-badge-foreground, #ffffff);
+                    font-size: 10px;
+                }
+
                 .message-content {
                     white-space: pre-wrap;
                     color: inherit;
@@ -370,6 +804,160 @@ export class ChatProvider implements vscode.WebviewViewProvider {
                     font-size: 12px;
                 }
 
+                .agent-steps {
+                    margin-top: 8px;
+                    font-size: 12px;
+                }
+
+                .agent-steps > summary {
+                    cursor: pointer;
+                    color: var(--vscode-descriptionForeground, #999999);
+                }
+
+                .agent-steps ol {
+                    list-style: none;
+                    margin-top: 4px;
+                }
+
+                .agent-step summary {
+                    cursor: pointer;
+                    padding: 2px 0;
+                }
+
+                .agent-step.failed summary {
+                    color: var(--vscode-errorForeground, #f48771);
+                }
+
+                .agent-step.declined summary {
+                    opacity: 0.7;
+                }
+
+                .step-result {
+                    margin: 4px 0 4px 20px;
+                    padding: 6px 8px;
+                    max-height: 200px;
+                    overflow: auto;
+                    background: var(--vscode-textCodeBlock-background, #0f1419);
+                    border-radius: 4px;
+                    font-family: var(--vscode-editor-font-family, 'Monaco', 'Menlo', 'Courier New', monospace);
+                    font-size: 11px;
+                }
+
+                .message-content.markdown {
+                    white-space: normal;
+                    line-height: 1.5;
+                }
+
+                .markdown p,
+                .markdown ul,
+                .markdown ol,
+                .markdown blockquote,
+                .markdown table,
+                .markdown .code-block {
+                    margin: 6px 0;
+                }
+
+                .markdown h1,
+                .markdown h2,
+                .markdown h3,
+                .markdown h4,
+                .markdown h5,
+                .markdown h6 {
+                    margin: 10px 0 6px;
+                    font-weight: 600;
+                }
+
+                .markdown h1 { font-size: 1.4em; }
+                .markdown h2 { font-size: 1.25em; }
+                .markdown h3 { font-size: 1.1em; }
+
+                .markdown ul,
+                .markdown ol {
+                    padding-left: 20px;
+                }
+
+                .markdown blockquote {
+                    padding-left: 10px;
+                    border-left: 3px solid var(--vscode-textBlockQuote-border, #007acc);
+                    color: var(--vscode-textBlockQuote-foreground, inherit);
+                }
+
+                .markdown hr {
+                    border: none;
+                    border-top: 1px solid var(--vscode-panel-border, #464647);
+                    margin: 10px 0;
+                }
+
+                .markdown a {
+                    color: var(--vscode-textLink-foreground, #3794ff);
+                }
+
+                .markdown table {
+                    border-collapse: collapse;
+                    display: block;
+                    overflow-x: auto;
+                }
+
+                .markdown th,
+                .markdown td {
+                    padding: 4px 8px;
+                    border: 1px solid var(--vscode-panel-border, #464647);
+                }
+
+                .code-block {
+                    border: 1px solid var(--vscode-panel-border, #464647);
+                    border-radius: 6px;
+                    overflow: hidden;
+                }
+
+                .code-toolbar {
+                    display: flex;
+                    align-items: center;
+                    gap: 4px;
+                    padding: 4px 6px;
+                    background: var(--vscode-editorGroupHeader-tabsBackground, #252526);
+                    font-size: 11px;
+                }
+
+                .code-lang {
+                    margin-right: auto;
+                    color: var(--vscode-descriptionForeground, #999999);
+                }
+
+                .code-action {
+                    padding: 2px 6px;
+                    border: none;
+                    border-radius: 3px;
+                    background: var(--vscode-button-secondaryBackground, #3a3d41);
+                    color: var(--vscode-button-secondaryForeground, #cccccc);
+                    font-size: 11px;
+                    cursor: pointer;
+                }
+
+                .code-action:hover {
+                    background: var(--vscode-button-secondaryHoverBackground, #45494e);
+                }
+
+                .code-block pre {
+                    margin: 0;
+                    padding: 8px 10px;
+                    overflow-x: auto;
+                    background: var(--vscode-textCodeBlock-background, #0f1419);
+                }
+
+                .markdown .code-block code {
+                    padding: 0;
+                    background: none;
+                    white-space: pre;
+                }
+
+                .tok-keyword { color: var(--vscode-symbolIcon-keywordForeground, #569cd6); }
+                .tok-string { color: var(--vscode-symbolIcon-stringForeground, #ce9178); }
+                .tok-number { color: var(--vscode-symbolIcon-numberForeground, #b5cea8); }
+                .tok-comment { color: var(--vscode-descriptionForeground, #6a9955); font-style: italic; }
+                .tok-function { color: var(--vscode-symbolIcon-functionForeground, #dcdcaa); }
+                .tok-type { color: var(--vscode-symbolIcon-classForeground, #4ec9b0); }
+
                 .input-container {
                     padding: 16px;
                     background: var(--vscode-sideBar-background, #252526);
@@ -384,6 +972,48 @@ export class ChatProvider implements vscode.WebviewViewProvider {
                     position: relative;
                 }
 
+                .command-suggestions {
+                    display: none;
+                    position: absolute;
+                    left: 0;
+                    right: 0;
+                    bottom: calc(100% + 4px);
+                    max-height: 200px;
+                    overflow-y: auto;
+                    background: var(--vscode-editorSuggestWidget-background, #252526);
+                    border: 1px solid var(--vscode-editorSuggestWidget-border, #454545);
+                    border-radius: 6px;
+                    box-shadow: 0 2px 8px rgba(0,0,0,0.3);
+                    z-index: 10;
+                }
+
+                .command-suggestions.active {
+                    display: block;
+                }
+
+                .command-suggestion {
+                    display: flex;
+                    gap: 8px;
+                    padding: 6px 12px;
+                    font-size: 12px;
+                    cursor: pointer;
+                }
+
+                .command-suggestion.selected {
+                    background: var(--vscode-editorSuggestWidget-selectedBackground, #04395e);
+                }
+
+                .command-name {
+                    font-weight: 600;
+                }
+
+                .command-description {
+                    color: var(--vscode-descriptionForeground, #a6a6a6);
+                    overflow: hidden;
+                    text-overflow: ellipsis;
+                    white-space: nowrap;
+                }
+
                 .message-input {
                     width: 100%;
                     min-height: 40px;
@@ -442,6 +1072,22 @@ export class ChatProvider implements vscode.WebviewViewProvider {
                     transform: none;
                 }
 
+                .stop-btn {
+                    display: none;
+                    background: var(--vscode-inputValidation-errorBackground, #5a1d1d);
+                    color: var(--vscode-errorForeground, #f48771);
+                    border: 1px solid var(--vscode-inputValidation-errorBorder, #be1100);
+                }
+
+                .stop-btn.active {
+                    display: flex;
+                }
+
+                .stop-btn:hover {
+                    background: var(--vscode-inputValidation-errorBorder, #be1100);
+                    color: #ffffff;
+                }
+
                 .typing-indicator {
                     display: none;
                     padding: 12px 16px;
@@ -555,6 +1201,8 @@ export class ChatProvider implements vscode.WebviewViewProvider {
             <div class="header">
                 <div class="header-icon">🤖</div>
                 <div class="header-title">CodeForgeX AI</div>
+                <div class="session-name" id="sessionName"></div>
+                <select class="model-select" id="modelSelect" title="Model"></select>
                 <div class="mode-indicator" id="modeIndicator">
                     <span class="status-indicator status-online"></span>
                     Mode: Ask
@@ -566,6 +1214,14 @@ export class ChatProvider implements vscode.WebviewViewProvider {
                     <span class="icon">⚙️</span>
                     Switch Mode
                 </button>
+                <button class="control-btn" id="newSessionBtn" title="Start a New Chat Session">
+                    <span class="icon">➕</span>
+                    New
+                </button>
+                <button class="control-btn" id="historyBtn" title="Browse Chat Sessions">
+                    <span class="icon">🕘</span>
+                    History
+                </button>
                 <button class="control-btn" id="clearChatBtn" title="Clear Chat History">
                     <span class="icon">🗑️</span>
                     Clear
@@ -593,18 +1249,35 @@ export class ChatProvider implements vscode.WebviewViewProvider {
 
             <div class="input-container">
                 <div class="input-wrapper">
+                    <div class="command-suggestions" id="commandSuggestions"></div>
                     <textarea id="messageInput" class="message-input" 
-                             placeholder="Ask me anything about your code..." 
+                             placeholder="Ask about your code. / for commands, @ to attach context" 
                              rows="1"></textarea>
                 </div>
                 <button class="send-btn" id="sendBtn" title="Send Message">
                     ▶
                 </button>
+                <button class="send-btn stop-btn" id="stopBtn" title="Stop">
+                    ■
+                </button>
             </div>
             
-            <script>
+            <script nonce="${nonce}">
                 const vscode = acquireVsCodeApi();
                 let isWaitingForResponse = false;
+                let prompts = [];
+                let suggestions = [];
+                let selectedSuggestion = 0;
+                let mentionRequest = 0;
+                let mentionTimer;
+                
+                const MENTION_KINDS = [
+                    { label: '@file', description: 'Attach a file to this message', insert: '@file:' },
+                    { label: '@symbol', description: 'Attach a function, class or other symbol', insert: '@symbol:' },
+                    { label: '@folder', description: 'Attach the files in a folder', insert: '@folder:' },
+                    { label: '@git:diff', description: 'Attach the staged changes, or the working tree changes', insert: '@git:diff ' },
+                    { label: '@problems', description: 'Attach the problems in the workspace', insert: '@problems ' }
+                ];
                 
                 function autoResize(textarea) {
                     textarea.style.height = 'auto';
@@ -612,12 +1285,101 @@ export class ChatProvider implements vscode.WebviewViewProvider {
                 }
                 
                 function handleKeyDown(event) {
+                    if (suggestions.length > 0) {
+                        if (event.key === 'ArrowDown' || event.key === 'ArrowUp') {
+                            event.preventDefault();
+                            const step = event.key === 'ArrowDown' ? 1 : -1;
+                            selectedSuggestion = (selectedSuggestion + step + suggestions.length) % suggestions.length;
+                            renderSuggestions();
+                            return;
+                        }
+                        if (event.key === 'Tab' || (event.key === 'Enter' && !event.shiftKey)) {
+                            event.preventDefault();
+                            acceptSuggestion(selectedSuggestion);
+                            return;
+                        }
+                        if (event.key === 'Escape') {
+                            event.preventDefault();
+                            suggestions = [];
+                            renderSuggestions();
+                            return;
+                        }
+                    }
+                    
                     if (event.key === 'Enter' && !event.shiftKey) {
                         event.preventDefault();
                         sendMessage();
                     }
                 }
                 
+                // Completes slash commands at the start of the input and @-mentions anywhere in it
+                function updateSuggestions() {
+                    const input = document.getElementById('messageInput');
+                    const before = input.value.slice(0, input.selectionStart);
+                    clearTimeout(mentionTimer);
+                    // Completions still on their way are for what was typed before
+                    const requestId = ++mentionRequest;
+                    
+                    const command = /^\\/([\\w-]*)$/.exec(before);
+                    if (command) {
+                        showSuggestions(prompts
+                            .filter(prompt => prompt.name.startsWith(command[1].toLowerCase()))
+                            .map(prompt => ({ label: '/' + prompt.name, description: prompt.description, from: 0, insert: '/' + prompt.name + ' ' })));
+                        return;
+                    }
+                    
+                    const mention = /(^|\\s)@([\\w-]*)(:("[^"]*|\\S*))?$/.exec(before);
+                    if (!mention) {
+                        showSuggestions([]);
+                        return;
+                    }
+                    
+                    const from = mention.index + mention[1].length;
+                    const typed = before.slice(from);
+                    const kinds = MENTION_KINDS.filter(kind => kind.insert.startsWith(typed) && kind.insert !== typed);
+                    if (kinds.length > 0 || !mention[3] || !['file', 'folder', 'symbol'].includes(mention[2])) {
+                        showSuggestions(kinds.map(kind => ({ ...kind, from })));
+                        return;
+                    }
+                    
+                    mentionTimer = setTimeout(() => vscode.postMessage({
+                        type: 'completeMention',
+                        kind: mention[2],
+                        query: mention[4].replace(/^"/, ''),
+                        requestId,
+                        from
+                    }), 150);
+                }
+                
+                function showSuggestions(items) {
+                    suggestions = items;
+                    selectedSuggestion = 0;
+                    renderSuggestions();
+                }
+                
+                function renderSuggestions() {
+                    const list = document.getElementById('commandSuggestions');
+                    list.innerHTML = suggestions.map((suggestion, index) => \`
+                        <div class="command-suggestion\${index === selectedSuggestion ? ' selected' : ''}" data-index="\${index}">
+                            <span class="command-name">\${escapeHtml(suggestion.label)}</span>
+                            <span class="command-description">\${escapeHtml(suggestion.description || '')}</span>
+                        </div>
+                    \`).join('');
+                    list.className = suggestions.length > 0 ? 'command-suggestions active' : 'command-suggestions';
+                    list.querySelector('.selected')?.scrollIntoView({ block: 'nearest' });
+                }
+                
+                function acceptSuggestion(index) {
+                    const input = document.getElementById('messageInput');
+                    const suggestion = suggestions[index];
+                    const caret = suggestion.from + suggestion.insert.length;
+                    input.value = input.value.slice(0, suggestion.from) + suggestion.insert + input.value.slice(input.selectionStart);
+                    input.setSelectionRange(caret, caret);
+                    input.focus();
+                    autoResize(input);
+                    updateSuggestions();
+                }
+                
                 function sendMessage() {
                     if (isWaitingForResponse) return;
                     
@@ -651,10 +1413,16 @@ export class ChatProvider implements vscode.WebviewViewProvider {
                     }, 1000);
                 }
                 
+                function cancelRequest() {
+                    if (!isWaitingForResponse) return;
+                    vscode.postMessage({ type: 'cancelRequest' });
+                }
+                
                 function updateSendButton(enabled) {
                     const btn = document.getElementById('sendBtn');
                     btn.disabled = !enabled;
                     btn.innerHTML = enabled ? '▶' : '<div class="spinner"></div>';
+                    document.getElementById('stopBtn').className = enabled ? 'send-btn stop-btn' : 'send-btn stop-btn active';
                 }
                 
                 function showTypingIndicator(show) {
@@ -669,30 +1437,104 @@ export class ChatProvider implements vscode.WebviewViewProvider {
                     return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
                 }
                 
-                function getModeIcon(mode) {
-                    switch(mode) {
-                        case 'edit': return '✏️';
-                        case 'agent': return '🤖';
-                        case 'ask': 
-                        default: return '💬';
-                    }
-                }
-                
                 window.addEventListener('message', event => {
                     const message = event.data;
                     switch (message.type) {
                         case 'updateMessages':
                             updateMessages(message.messages);
-                            isWaitingForResponse = false;
-                            updateSendButton(true);
-                            showTypingIndicator(false);
+                            break;
+                        case 'requestState':
+                            isWaitingForResponse = message.busy;
+                            updateSendButton(!message.busy);
+                            showTypingIndicator(message.busy);
+                            break;
+                        case 'appendToMessage':
+                        case 'updateMessage':
+                            updateMessage(message.message);
                             break;
                         case 'updateMode':
-                            updateMode(message.mode);
+                            updateMode(message.name, message.icon);
+                            break;
+                        case 'updateModels':
+                            updateModels(message.models, message.current);
+                            break;
+                        case 'updateSession':
+                            document.getElementById('sessionName').textContent = message.name;
+                            break;
+                        case 'updatePrompts':
+                            prompts = message.prompts;
+                            updateSuggestions();
+                            break;
+                        case 'mentionCompletions':
+                            if (message.requestId === mentionRequest) {
+                                showSuggestions(message.items.map(item => ({
+                                    label: item.label,
+                                    description: item.description,
+                                    from: message.from,
+                                    insert: item.mention + ' '
+                                })));
+                            }
                             break;
                     }
                 });
                 
+                function escapeHtml(text) {
+                    return text
+                        .replace(/&/g, '&amp;')
+                        .replace(/</g, '&lt;')
+                        .replace(/>/g, '&gt;')
+                        .replace(/"/g, '&quot;')
+                        .replace(/'/g, '&#39;')
+                        .replace(/\\n/g, '<br>');
+                }
+                
+                function renderMessage(msg) {
+                    const timestamp = new Date(msg.timestamp);
+                    const modeIcon = escapeHtml(msg.modeIcon || '💬');
+                    
+                    return \`
+                        <div class="message \${msg.type}\${msg.cancelled ? ' cancelled' : ''}" data-id="\${msg.id}">
+                            <div class="message-header">
+                                <span class="icon">\${modeIcon}</span>
+                                <span>\${msg.type.charAt(0).toUpperCase() + msg.type.slice(1)}</span>
+                                \${msg.model ? \`<span class="message-model">\${escapeHtml(msg.model)}</span>\` : ''}
+                                <span style="margin-left: auto; font-size: 10px;">\${formatTimestamp(timestamp)}</span>
+                            </div>
+                            <div class="message-bubble">
+                                \${msg.html !== undefined
+                                    ? \`<div class="message-content markdown">\${msg.html}</div>\`
+                                    : \`<div class="message-content">\${escapeHtml(msg.content)}</div>\`}
+                                \${msg.mentions?.length ? \`
+                                    <div class="message-mentions">
+                                        \${msg.mentions.map(mention => \`<span class="mention-chip">\${escapeHtml(mention)}</span>\`).join('')}
+                                    </div>
+                                \` : ''}
+                                \${msg.steps?.length ? renderSteps(msg.steps) : ''}
+                            </div>
+                        </div>
+                    \`;
+                }
+                
+                function renderSteps(steps) {
+                    const icons = { running: '⏳', done: '✔', failed: '✖', declined: '⊘' };
+                    const running = steps.some(step => step.status === 'running');
+                    const items = steps.map(step => \`
+                        <li class="agent-step \${step.status}">
+                            <details data-step-id="\${step.id}">
+                                <summary>\${icons[step.status] || ''} \${escapeHtml(step.summary)}</summary>
+                                \${step.result ? \`<div class="step-result">\${escapeHtml(step.result)}</div>\` : ''}
+                            </details>
+                        </li>
+                    \`).join('');
+                    
+                    return \`
+                        <details class="agent-steps"\${running ? ' open' : ''}>
+                            <summary>Plan · \${steps.length} step\${steps.length === 1 ? '' : 's'}\${running ? ' (running)' : ''}</summary>
+                            <ol>\${items}</ol>
+                        </details>
+                    \`;
+                }
+                
                 function updateMessages(messages) {
                     const container = document.getElementById('messages');
                     const emptyState = document.getElementById('emptyState');
@@ -704,44 +1546,60 @@ export class ChatProvider implements vscode.WebviewViewProvider {
                     }
                     
                     emptyState.style.display = 'none';
+                    container.innerHTML = messages.map(renderMessage).join('');
+                    container.lastElementChild?.scrollIntoView({ behavior: 'smooth' });
+                }
+                
+                function updateMessage(msg) {
+                    const container = document.getElementById('messages');
+                    document.getElementById('emptyState').style.display = 'none';
+                    showTypingIndicator(false);
                     
-                    container.innerHTML = messages.map(msg => {
-                        const timestamp = new Date(msg.timestamp);
-                        const modeIcon = msg.mode ? getModeIcon(msg.mode) : '💬';
-                        
-                        // Properly escape HTML and handle line breaks
-                        const escapedContent = msg.content
-                            .replace(/&/g, '&amp;')
-                            .replace(/</g, '&lt;')
-                            .replace(/>/g, '&gt;')
-                            .replace(/"/g, '&quot;')
-                            .replace(/'/g, '&#39;')
-                            .replace(/\n/g, '<br>');
+                    // Re-render only the streaming message so earlier ones keep their DOM
+                    const existing = container.querySelector(\`.message[data-id="\${msg.id}"]\`);
+                    if (existing) {
+                        // Keep steps the user expanded open across re-renders
+                        const openSteps = [...existing.querySelectorAll('details[data-step-id]')]
+                            .filter(details => details.open)
+                            .map(details => details.dataset.stepId);
+                        const planOpen = existing.querySelector('.agent-steps')?.open;
+                        existing.outerHTML = renderMessage(msg);
                         
-                        return \`
-                            <div class="message \${msg.type}">
-                                <div class="message-header">
-                                    <span class="icon">\${modeIcon}</span>
-                                    <span>\${msg.type.charAt(0).toUpperCase() + msg.type.slice(1)}</span>
-                                    <span style="margin-left: auto; font-size: 10px;">\${formatTimestamp(timestamp)}</span>
-                                </div>
-                                <div class="message-bubble">
-                                    <div class="message-content">\${escapedContent}</div>
-                                </div>
-                            </div>
-                        \`;
-                    }).join('');
-                    
-                    container.lastElementChild?.scrollIntoView({ behavior: 'smooth' });
+                        const updated = container.querySelector(\`.message[data-id="\${msg.id}"]\`);
+                        openSteps.forEach(id => {
+                            const details = updated.querySelector(\`details[data-step-id="\${id}"]\`);
+                            if (details) {
+                                details.open = true;
+                            }
+                        });
+                        const plan = updated.querySelector('.agent-steps');
+                        if (plan && planOpen) {
+                            plan.open = true;
+                        }
+                    } else {
+                        container.insertAdjacentHTML('beforeend', renderMessage(msg));
+                    }
+                    container.lastElementChild?.scrollIntoView({ block: 'end' });
+                }
+                
+                function updateModels(models, current) {
+                    const select = document.getElementById('modelSelect');
+                    select.innerHTML = '';
+                    models.forEach(model => {
+                        const option = document.createElement('option');
+                        option.value = model;
+                        option.textContent = model;
+                        option.selected = model === current;
+                        select.appendChild(option);
+                    });
                 }
                 
-                function updateMode(mode) {
+                function updateMode(name, icon) {
                     const indicator = document.getElementById('modeIndicator');
-                    const modeText = mode.charAt(0).toUpperCase() + mode.slice(1);
                     
                     indicator.innerHTML = \`
                         <span class="status-indicator status-online"></span>
-                        Mode: \${modeText}
+                        Mode: \${escapeHtml(icon)} \${escapeHtml(name)}
                     \`;
                     
                     // Add visual feedback
@@ -755,14 +1613,21 @@ export class ChatProvider implements vscode.WebviewViewProvider {
                 (function() {
                     const input = document.getElementById('messageInput');
                     const sendBtn = document.getElementById('sendBtn');
+                    const stopBtn = document.getElementById('stopBtn');
                     const switchModeBtn = document.getElementById('switchModeBtn');
                     const clearChatBtn = document.getElementById('clearChatBtn');
+                    const newSessionBtn = document.getElementById('newSessionBtn');
+                    const historyBtn = document.getElementById('historyBtn');
+                    const modelSelect = document.getElementById('modelSelect');
                     
                     console.log('Initializing...', { input, sendBtn, switchModeBtn, clearChatBtn });
                     
                     if (input) {
                         input.addEventListener('keydown', handleKeyDown);
-                        input.addEventListener('input', function() { autoResize(this); });
+                        input.addEventListener('input', function() {
+                            autoResize(this);
+                            updateSuggestions();
+                        });
                         input.focus();
                         console.log('Input events attached');
                     }
@@ -772,6 +1637,10 @@ export class ChatProvider implements vscode.WebviewViewProvider {
                         console.log('Send button event attached');
                     }
                     
+                    if (stopBtn) {
+                        stopBtn.addEventListener('click', cancelRequest);
+                    }
+                    
                     if (switchModeBtn) {
                         switchModeBtn.addEventListener('click', switchMode);
                         console.log('Switch mode button event attached');
@@ -781,6 +1650,45 @@ export class ChatProvider implements vscode.WebviewViewProvider {
                         clearChatBtn.addEventListener('click', clearChat);
                         console.log('Clear chat button event attached');
                     }
+                    
+                    if (newSessionBtn) {
+                        newSessionBtn.addEventListener('click', () => vscode.postMessage({ type: 'newSession' }));
+                    }
+                    
+                    if (historyBtn) {
+                        historyBtn.addEventListener('click', () => vscode.postMessage({ type: 'selectSession' }));
+                    }
+                    
+                    // Mousedown rather than click, so the input keeps focus
+                    document.getElementById('commandSuggestions')?.addEventListener('mousedown', event => {
+                        const suggestion = event.target.closest('.command-suggestion');
+                        if (!suggestion) return;
+                        
+                        event.preventDefault();
+                        acceptSuggestion(Number(suggestion.dataset.index));
+                    });
+                    
+                    // Code block toolbar buttons are re-rendered with their message, so listen on the container
+                    document.getElementById('messages')?.addEventListener('click', event => {
+                        const button = event.target.closest('.code-action');
+                        if (!button) return;
+                        
+                        const block = button.closest('.code-block');
+                        vscode.postMessage({
+                            type: 'codeAction',
+                            action: button.dataset.action,
+                            code: block.querySelector('code').textContent,
+                            language: block.dataset.lang,
+                            path: block.dataset.path
+                        });
+                    });
+                    
+                    if (modelSelect) {
+                        modelSelect.addEventListener('change', () => vscode.postMessage({ type: 'selectModel', model: modelSelect.value }));
+                    }
+                    
+                    // Ask the host for the restored session now that listeners are in place
+                    vscode.postMessage({ type: 'ready' });
                 })();
             </script>
         </body>
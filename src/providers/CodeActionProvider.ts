@@ -0,0 +1,62 @@
+import * as vscode from 'vscode';
+import { InlineEditService } from '../services/InlineEditService';
+
+/**
+ * Offers CodeForgeX actions in the lightbulb menu: fixes for the diagnostics
+ * under the cursor and, for a selection, explain, document and refactor. Each
+ * runs `codeforgex.inlineAction`, which previews the result inline.
+ */
+export class CodeActionProvider implements vscode.CodeActionProvider {
+    static readonly providedCodeActionKinds = [
+        vscode.CodeActionKind.QuickFix,
+        vscode.CodeActionKind.RefactorRewrite
+    ];
+
+    // Keeps the lightbulb menu short when many problems overlap
+    private static readonly MAX_FIX_ACTIONS = 3;
+
+    provideCodeActions(
+        document: vscode.TextDocument,
+        range: vscode.Range | vscode.Selection,
+        context: vscode.CodeActionContext
+    ): vscode.CodeAction[] {
+        const actions: vscode.CodeAction[] = [];
+        const wants = (kind: vscode.CodeActionKind) => !context.only || context.only.contains(kind) || kind.contains(context.only);
+
+        if (wants(vscode.CodeActionKind.QuickFix)) {
+            for (const diagnostic of context.diagnostics.slice(0, CodeActionProvider.MAX_FIX_ACTIONS)) {
+                const message = diagnostic.message.split('\n')[0];
+                const action = new vscode.CodeAction(
+                    `Fix with CodeForgeX: ${message.length > 60 ? `${message.slice(0, 57)}...` : message}`,
+                    vscode.CodeActionKind.QuickFix
+                );
+                action.diagnostics = [diagnostic];
+                action.command = this._command('fix', document, diagnostic.range, [diagnostic]);
+                actions.push(action);
+            }
+        }
+
+        if (!range.isEmpty && wants(vscode.CodeActionKind.RefactorRewrite)) {
+            const selectionActions: [string, 'explain' | 'document' | 'refactor'][] = [
+                ['Explain Selection with CodeForgeX', 'explain'],
+                [`Add ${InlineEditService.docStyle(document.languageId)} with CodeForgeX`, 'document'],
+                ['Refactor with CodeForgeX', 'refactor']
+            ];
+            for (const [title, kind] of selectionActions) {
+                const action = new vscode.CodeAction(title, vscode.CodeActionKind.RefactorRewrite);
+                action.command = this._command(kind, document, range, []);
+                actions.push(action);
+            }
+        }
+
+        return actions;
+    }
+
+    private _command(action: string, document: vscode.TextDocument, range: vscode.Range, diagnostics: readonly vscode.Diagnostic[]): vscode.Command {
+        return {
+            command: 'codeforgex.inlineAction',
+            title: 'CodeForgeX',
+            arguments: [action, document.uri, range, [...diagnostics]]
+        };
+    }
+}
@@ -1,34 +1,122 @@
 import * as vscode from 'vscode';
-import { ContextFile } from '../types';
+import { ContextDiagnostic, ContextDiagnostics, ContextFile, ContextFileSnapshot, ContextFolder, ContextRange, ContextTreeNode } from '../types';
 import * as path from 'path';
+import { createHash } from 'crypto';
+import { estimateTokens, formatTokens } from '../utils/tokens';
+import { CONTEXT_FILE_SEPARATOR, formatContextFile } from '../utils/context';
+import { GitIgnore } from '../utils/gitignore';
+import { isContractArtifactPath, parseContractArtifact, summarizeAbi } from '../utils/abi';
+import { SolidityService } from '../services/SolidityService';
+import { ConfigurationManager } from '../managers/ConfigurationManager';
 
-export class ContextProvider implements vscode.TreeDataProvider<ContextFile> {
-    private _onDidChangeTreeData: vscode.EventEmitter<ContextFile | undefined | null | void> = new vscode.EventEmitter<ContextFile | undefined | null | void>();
-    readonly onDidChangeTreeData: vscode.Event<ContextFile | undefined | null | void> = this._onDidChangeTreeData.event;
+interface IgnoreScope {
+    base: vscode.Uri;
+    rules: GitIgnore;
+}
+
+export class ContextProvider implements vscode.TreeDataProvider<ContextTreeNode>, vscode.Disposable {
+    private static readonly MAX_FOLDER_FILES = 500;
+    private static readonly MAX_FILE_SIZE = 512 * 1024;
+    // Artifacts carry bytecode and the AST but are only sent as their ABI summary
+    private static readonly MAX_ARTIFACT_SIZE = 16 * 1024 * 1024;
+    // A workspace can report thousands of problems; the most severe ones are enough to act on
+    private static readonly MAX_DIAGNOSTICS = 50;
+    private static readonly DIAGNOSTIC_CONTEXT_LINES = 2;
+
+    private _onDidChangeTreeData: vscode.EventEmitter<ContextTreeNode | undefined | null | void> = new vscode.EventEmitter<ContextTreeNode | undefined | null | void>();
+    readonly onDidChangeTreeData: vscode.Event<ContextTreeNode | undefined | null | void> = this._onDidChangeTreeData.event;
 
     private _contextFiles: ContextFile[] = [];
+    private _diagnostics?: ContextDiagnostics;
+    // Content hash at the time each entry was added, keyed by entry key
+    private _addedHashes = new Map<string, string>();
+    private _disposables: vscode.Disposable[] = [];
+    private _refreshTimer?: NodeJS.Timeout;
+    // Files being renamed from VS Code, whose watcher delete is not a deletion
+    private _renaming = new Set<string>();
 
-    constructor() {}
+    constructor(
+        private readonly _solidityService: SolidityService,
+        private readonly _configManager: ConfigurationManager
+    ) {
+        // Keep entries in step with edits in open editors and with changes made outside VS Code
+        const watcher = vscode.workspace.createFileSystemWatcher('**/*');
+        this._disposables.push(
+            watcher,
+            watcher.onDidChange(uri => this._syncFromDisk(uri)),
+            watcher.onDidCreate(uri => this._syncFromDisk(uri)),
+            watcher.onDidDelete(uri => this._markMissing(uri)),
+            vscode.workspace.onDidChangeTextDocument(e => this._syncFromDocument(e.document, e.contentChanges)),
+            vscode.workspace.onDidSaveTextDocument(document => this._syncFromDocument(document)),
+            vscode.workspace.onWillRenameFiles(e => e.files.forEach(file => this._renaming.add(file.oldUri.toString()))),
+            vscode.workspace.onDidRenameFiles(e => e.files.forEach(file => {
+                this._renaming.delete(file.oldUri.toString());
+                this._handleRename(file.oldUri, file.newUri);
+            })),
+            vscode.workspace.onDidDeleteFiles(e => e.files.forEach(uri => this._markMissing(uri))),
+            vscode.languages.onDidChangeDiagnostics(() => {
+                if (this._diagnostics) {
+                    this._scheduleRefresh();
+                }
+            })
+        );
+    }
+
+    dispose(): void {
+        clearTimeout(this._refreshTimer);
+        this._disposables.forEach(d => d.dispose());
+        this._onDidChangeTreeData.dispose();
+    }
 
     refresh(): void {
         this._onDidChangeTreeData.fire();
     }
 
-    getTreeItem(element: ContextFile): vscode.TreeItem {
+    getTreeItem(element: ContextTreeNode): vscode.TreeItem {
+        if (isContextDiagnostics(element)) {
+            const count = this._collectDiagnostics().length;
+            const where = element.scope === 'workspace' ? 'workspace' : 'context files';
+            const item = new vscode.TreeItem('Problems', vscode.TreeItemCollapsibleState.None);
+            item.iconPath = new vscode.ThemeIcon(element.isActive ? 'warning' : 'circle-outline');
+            item.description = `${count} in ${where}`;
+            item.tooltip = `Errors, warnings and info from the Problems panel for the ${where}, with the lines around each\n${element.isActive ? 'Active in context' : 'Inactive'}`;
+            item.contextValue = 'contextDiagnostics';
+            item.command = { command: 'workbench.actions.view.problems', title: 'Show Problems' };
+            return item;
+        }
+
+        if (isContextFolder(element)) {
+            const files = this._filesUnder(element);
+            const item = new vscode.TreeItem(element.name, vscode.TreeItemCollapsibleState.Expanded);
+            item.iconPath = element.path ? vscode.ThemeIcon.Folder : new vscode.ThemeIcon('root-folder');
+            item.description = `${files.length} file${files.length === 1 ? '' : 's'}`;
+            item.tooltip = element.path || vscode.Uri.parse(element.root).fsPath;
+            item.contextValue = 'contextFolder';
+            return item;
+        }
+
         const item = new vscode.TreeItem(element.name, vscode.TreeItemCollapsibleState.None);
         item.resourceUri = element.uri;
-        item.description = element.relativePath;
-        item.tooltip = `${element.uri.fsPath}\n${element.isActive ? 'Active in context' : 'Inactive'}`;
-        
+        const tokens = estimateTokens(element.content ?? '');
+        const state = element.isMissing ? 'deleted' : element.isModified ? 'modified since added' : undefined;
+        item.description = element.isMissing
+            ? 'deleted'
+            : `${element.isAbiSummary ? 'ABI · ' : ''}~${formatTokens(tokens)} tokens${element.isModified ? ' · ●' : ''}`;
+        item.tooltip = `${element.uri.fsPath}${element.range ? `:${element.range.startLine}-${element.range.endLine}` : ''}\n${element.isActive ? 'Active in context' : 'Inactive'}\n~${tokens} tokens${state ? `\n${state.charAt(0).toUpperCase() + state.slice(1)}` : ''}`;
+
         item.contextValue = 'contextFile';
         item.command = {
             command: 'vscode.open',
             title: 'Open File',
-            arguments: [element.uri]
+            arguments: element.range
+                ? [element.uri, { selection: new vscode.Range(element.range.startLine - 1, 0, element.range.endLine - 1, 0) }]
+                : [element.uri]
         };
 
-        // Visual indicator for active/inactive files
-        if (element.isActive) {
+        // Visual indicator for missing, active and inactive files
+        if (element.isMissing) {
+            item.iconPath = new vscode.ThemeIcon('warning', new vscode.ThemeColor('list.errorForeground'));
+        } else if (element.isActive) {
             item.iconPath = new vscode.ThemeIcon('check');
         } else {
             item.iconPath = new vscode.ThemeIcon('circle-outline');
@@ -37,82 +125,765 @@ export class ContextProvider implements vscode.TreeDataProvider<ContextFile> {
         return item;
     }
 
-    getChildren(element?: ContextFile): Thenable<ContextFile[]> {
-        if (!element) {
-            return Promise.resolve(this._contextFiles);
+    /**
+     * Groups entries by the folders in their workspace-relative path. Folders
+     * come first, then the entries directly inside in the order they were added.
+     * In a multi-root workspace each workspace folder is a node of its own, so
+     * the same path in two folders stays apart. Attached problems sit above
+     * everything else.
+     */
+    getChildren(element?: ContextTreeNode): Thenable<ContextTreeNode[]> {
+        if (element && !isContextFolder(element)) {
+            return Promise.resolve([]);
+        }
+        if (element) {
+            return Promise.resolve(this._childrenOf(element.root, element.path));
+        }
+
+        const diagnostics: ContextTreeNode[] = this._diagnostics ? [this._diagnostics] : [];
+        const workspaceFolders = vscode.workspace.workspaceFolders ?? [];
+        const roots = new Set(this._contextFiles.map(file => this._rootOf(file)));
+        const workspaceEntries: ContextTreeNode[] = workspaceFolders.length === 1
+            ? this._childrenOf(workspaceFolders[0].uri.toString(), '')
+            : workspaceFolders
+                .filter(folder => roots.has(folder.uri.toString()))
+                .map(folder => ({ kind: 'folder', root: folder.uri.toString(), path: '', name: folder.name }));
+        // Files outside the workspace are listed after the workspace's
+        return Promise.resolve([...diagnostics, ...workspaceEntries, ...this._childrenOf('', '')]);
+    }
+
+    private _childrenOf(root: string, parentPath: string): ContextTreeNode[] {
+        const prefix = parentPath ? parentPath + '/' : '';
+        const folders = new Map<string, ContextFolder>();
+        const files: ContextFile[] = [];
+
+        for (const file of this._contextFiles.filter(f => this._rootOf(f) === root)) {
+            const directory = this._directoryOf(file);
+            if (directory === parentPath) {
+                files.push(file);
+            } else if (directory.startsWith(prefix)) {
+                const name = directory.slice(prefix.length).split('/')[0];
+                folders.set(name, { kind: 'folder', root, path: prefix + name, name });
+            }
         }
-        return Promise.resolve([]);
+
+        const sortedFolders = [...folders.values()].sort((a, b) => a.name.localeCompare(b.name));
+        return [...sortedFolders, ...files];
     }
 
     async addFile(uri: vscode.Uri): Promise<void> {
         // Check if file already exists in context
-        const existing = this._contextFiles.find(f => f.uri.toString() === uri.toString());
-        if (existing) {
+        if (this._findEntry(uri)) {
             vscode.window.showInformationMessage(`File ${path.basename(uri.fsPath)} is already in context`);
             return;
         }
 
-        // Read file content
-        let content: string | undefined;
+        let contextFile: ContextFile;
         try {
-            const document = await vscode.workspace.openTextDocument(uri);
-            content = document.getText();
+            contextFile = await this._readContextFile(uri, true);
         } catch (error) {
             vscode.window.showErrorMessage(`Failed to read file: ${error instanceof Error ? error.message : 'Unknown error'}`);
             return;
         }
 
-        // Get relative path
-        const workspaceFolder = vscode.workspace.getWorkspaceFolder(uri);
-        const relativePath = workspaceFolder 
-            ? path.relative(workspaceFolder.uri.fsPath, uri.fsPath)
-            : path.basename(uri.fsPath);
+        this._pushEntry(contextFile);
+        const dependencies = await this._addSolidityDependencies([uri]);
+        this.refresh();
 
-        const contextFile: ContextFile = {
-            uri,
-            name: path.basename(uri.fsPath),
-            relativePath,
-            content,
-            isActive: true
-        };
+        vscode.window.showInformationMessage(
+            `Added ${contextFile.name}${dependencies > 0 ? ` and ${dependencies} of its dependencies` : ''} to context`
+        );
+    }
+
+    /**
+     * Makes sure a whole file is in context and active, adding it if needed.
+     */
+    async ensureFile(uri: vscode.Uri): Promise<void> {
+        const existing = this._findEntry(uri);
+        if (!existing) {
+            await this.addFile(uri);
+        } else if (!existing.isActive) {
+            existing.isActive = true;
+            this.refresh();
+        }
+    }
+
+    /**
+     * Adds a mix of files and folders, as passed by a multi-selection in the explorer.
+     */
+    async addResources(uris: vscode.Uri[]): Promise<void> {
+        const files: vscode.Uri[] = [];
+
+        for (const uri of uris) {
+            // Open documents are files, and untitled ones cannot be stat'ed
+            const isOpen = vscode.workspace.textDocuments.some(document => document.uri.toString() === uri.toString());
+            if (!isOpen && (await vscode.workspace.fs.stat(uri)).type & vscode.FileType.Directory) {
+                if (uris.length === 1) {
+                    return this.addFolder(uri);
+                }
+                files.push(...await this.collectFolderFiles(uri));
+            } else {
+                if (uris.length === 1) {
+                    return this.addFile(uri);
+                }
+                files.push(uri);
+            }
+        }
+
+        await this._addMany(files, `${uris.length} selected items`);
+    }
+
+    /**
+     * Adds every text file under a folder, skipping anything matched by the
+     * .gitignore files that apply to it.
+     */
+    async addFolder(uri: vscode.Uri): Promise<void> {
+        const files = await this.collectFolderFiles(uri);
+        await this._addMany(files, path.basename(uri.fsPath));
+    }
+
+    async addGlob(pattern: string): Promise<void> {
+        const files = await vscode.workspace.findFiles(pattern, undefined, ContextProvider.MAX_FOLDER_FILES + 1);
+        if (files.length === 0) {
+            vscode.window.showInformationMessage(`No files match ${pattern}`);
+            return;
+        }
+
+        await this._addMany(files.sort((a, b) => a.path.localeCompare(b.path)), pattern);
+    }
+
+    /**
+     * Adds just the selected lines of an editor as their own context entry.
+     */
+    addSelection(editor: vscode.TextEditor): void {
+        const selection = editor.selection;
+        if (selection.isEmpty) {
+            vscode.window.showErrorMessage('No text selected');
+            return;
+        }
 
-        this._contextFiles.push(contextFile);
+        // A selection ending at column 0 does not include that line
+        const lastLine = selection.end.character === 0 && selection.end.line > selection.start.line
+            ? selection.end.line - 1
+            : selection.end.line;
+        const range: ContextRange = { startLine: selection.start.line + 1, endLine: lastLine + 1 };
+        const uri = editor.document.uri;
+
+        if (this._findEntry(uri, range)) {
+            vscode.window.showInformationMessage('Selection is already in context');
+            return;
+        }
+
+        const contextFile = this._createEntry(uri, editor.document.getText(), true, range);
+        this._pushEntry(contextFile);
         this.refresh();
-        
+
         vscode.window.showInformationMessage(`Added ${contextFile.name} to context`);
     }
 
-    removeFile(uri: vscode.Uri): void {
-        const index = this._contextFiles.findIndex(f => f.uri.toString() === uri.toString());
+    /**
+     * Attaches the Problems panel entries for the files in context, or for the
+     * whole workspace. They are read again every time a prompt is sent.
+     */
+    addDiagnostics(scope: ContextDiagnostics['scope']): void {
+        if (this._diagnostics?.scope === scope) {
+            vscode.window.showInformationMessage('Problems are already in context');
+            return;
+        }
+
+        this._diagnostics = { kind: 'diagnostics', scope, isActive: true };
+        this.refresh();
+
+        const count = this._collectDiagnostics().length;
+        vscode.window.showInformationMessage(
+            `Added problems for the ${scope === 'workspace' ? 'workspace' : 'context files'} to context (${count} now)`
+        );
+    }
+
+    removeFile(uri: vscode.Uri, range?: ContextRange): void {
+        const key = this._key(uri, range);
+        const index = this._contextFiles.findIndex(f => this._key(f.uri, f.range) === key);
         if (index !== -1) {
             const removed = this._contextFiles.splice(index, 1)[0];
+            this._addedHashes.delete(key);
             this.refresh();
             vscode.window.showInformationMessage(`Removed ${removed.name} from context`);
         }
     }
 
-    toggleFileActive(uri: vscode.Uri): void {
-        const file = this._contextFiles.find(f => f.uri.toString() === uri.toString());
+    /**
+     * Removes a file entry, every entry under a folder node, or the problems.
+     */
+    removeNode(node: ContextTreeNode): void {
+        if (isContextDiagnostics(node)) {
+            this._diagnostics = undefined;
+            this.refresh();
+            vscode.window.showInformationMessage('Removed problems from context');
+            return;
+        }
+
+        if (!isContextFolder(node)) {
+            this.removeFile(node.uri, node.range);
+            return;
+        }
+
+        const removed = this._filesUnder(node);
+        this._contextFiles = this._contextFiles.filter(f => !removed.includes(f));
+        removed.forEach(f => this._addedHashes.delete(this._key(f.uri, f.range)));
+        this.refresh();
+        vscode.window.showInformationMessage(`Removed ${removed.length} file(s) in ${node.path || node.name} from context`);
+    }
+
+    toggleFileActive(uri: vscode.Uri, range?: ContextRange): void {
+        const file = this._findEntry(uri, range);
         if (file) {
             file.isActive = !file.isActive;
             this.refresh();
         }
     }
 
+    /**
+     * Toggles a file entry. For a folder node, activates everything under it
+     * unless it is all active already, in which case it deactivates it all.
+     */
+    toggleNode(node: ContextTreeNode): void {
+        if (isContextDiagnostics(node)) {
+            node.isActive = !node.isActive;
+            this.refresh();
+            return;
+        }
+
+        if (!isContextFolder(node)) {
+            this.toggleFileActive(node.uri, node.range);
+            return;
+        }
+
+        const files = this._filesUnder(node);
+        const activate = !files.every(f => f.isActive);
+        files.forEach(f => {
+            f.isActive = activate;
+        });
+        this.refresh();
+    }
+
     clearContext(): void {
         this._contextFiles = [];
+        this._diagnostics = undefined;
+        this._addedHashes.clear();
         this.refresh();
         vscode.window.showInformationMessage('Context cleared');
     }
 
+    getSnapshot(): ContextFileSnapshot[] {
+        return this._contextFiles.map(f => ({ uri: f.uri.toString(), isActive: f.isActive, range: f.range }));
+    }
+
+    getDiagnosticsSnapshot(): ContextDiagnostics | undefined {
+        return this._diagnostics && { ...this._diagnostics };
+    }
+
+    /**
+     * Replaces the context with the given files, re-reading their current content.
+     * Files that can no longer be read are dropped.
+     */
+    async restoreSnapshot(snapshot: ContextFileSnapshot[], diagnostics?: ContextDiagnostics): Promise<void> {
+        this._diagnostics = diagnostics && { ...diagnostics };
+
+        const restored = await Promise.all(snapshot.map(entry =>
+            this._readContextFile(vscode.Uri.parse(entry.uri), entry.isActive, entry.range).catch(() => undefined)
+        ));
+
+        this._contextFiles = restored.filter((f): f is ContextFile => f !== undefined);
+        this._addedHashes = new Map(this._contextFiles.map(f => [this._key(f.uri, f.range), this._hash(f.content)]));
+        this.refresh();
+    }
+
     getContextFiles(): ContextFile[] {
-        return this._contextFiles.filter(f => f.isActive);
+        return this._contextFiles.filter(f => f.isActive && !f.isMissing);
+    }
+
+    /**
+     * The attached problems as they are now, most severe first, each with the
+     * source lines around it. Empty when no problems are attached or they are
+     * inactive. With a scope, reads the problems of that scope instead.
+     */
+    async getDiagnostics(scope?: ContextDiagnostics['scope']): Promise<ContextDiagnostic[]> {
+        const entries = this._collectDiagnostics(scope).slice(0, ContextProvider.MAX_DIAGNOSTICS);
+        const texts = new Map<string, Promise<string[] | undefined>>();
+        const linesOf = (uri: vscode.Uri) => {
+            const key = uri.toString();
+            if (!texts.has(key)) {
+                texts.set(key, this._readText(uri).then(text => text.split(/\r?\n/), () => undefined));
+            }
+            return texts.get(key)!;
+        };
+
+        return Promise.all(entries.map(async ([uri, diagnostic]): Promise<ContextDiagnostic> => {
+            const { start, end } = diagnostic.range;
+            const lines = await linesOf(uri);
+            const code = typeof diagnostic.code === 'object' ? diagnostic.code.value : diagnostic.code;
+
+            return {
+                relativePath: this._relativePath(uri),
+                severity: diagnostic.severity === vscode.DiagnosticSeverity.Error
+                    ? 'error'
+                    : diagnostic.severity === vscode.DiagnosticSeverity.Warning ? 'warning' : 'info',
+                range: { startLine: start.line + 1, endLine: end.line + 1 },
+                column: start.character + 1,
+                message: diagnostic.message,
+                source: diagnostic.source,
+                code: code !== undefined ? String(code) : undefined,
+                snippet: lines ? this._snippet(lines, start.line, end.line) : ''
+            };
+        }));
+    }
+
+    /**
+     * Reads a file as an active context entry without adding it, for context
+     * attached to a single message.
+     */
+    readEntry(uri: vscode.Uri, range?: ContextRange): Promise<ContextFile> {
+        return this._readContextFile(uri, true, range);
+    }
+
+    /**
+     * Estimated tokens of all active context files before any budget trimming.
+     */
+    getActiveTokenCount(): number {
+        return this._contextFiles
+            .filter(f => f.isActive && !f.isMissing)
+            .reduce((sum, f) => sum + estimateTokens(f.content ?? ''), 0);
     }
 
     getActiveContextContent(): string {
         return this._contextFiles
             .filter(f => f.isActive && f.content)
-            .map(f => `// File: ${f.relativePath}\n${f.content}`)
-            .join('\n\n---\n\n');
+            .map(f => formatContextFile(f))
+            .join(CONTEXT_FILE_SEPARATOR);
+    }
+
+    /**
+     * Errors, warnings and info for the attached scope, most severe first.
+     * Hints are left out; they are suggestions rather than problems.
+     */
+    private _collectDiagnostics(scope = this._diagnostics?.isActive ? this._diagnostics.scope : undefined): [vscode.Uri, vscode.Diagnostic][] {
+        if (!scope) {
+            return [];
+        }
+
+        let entries: [vscode.Uri, vscode.Diagnostic][];
+        if (scope === 'workspace') {
+            entries = vscode.languages.getDiagnostics()
+                .filter(([uri]) => uri.scheme === 'file')
+                .flatMap(([uri, diagnostics]) => diagnostics.map(d => [uri, d] as [vscode.Uri, vscode.Diagnostic]));
+        } else {
+            const files = this.getContextFiles();
+            const uris = [...new Map(files.map(f => [f.uri.toString(), f.uri])).values()];
+            entries = uris.flatMap(uri => {
+                const ranges = files.filter(f => f.uri.toString() === uri.toString()).map(f => f.range);
+                // Selections only bring in the problems that touch their lines
+                return vscode.languages.getDiagnostics(uri)
+                    .filter(d => ranges.some(range => !range || (d.range.start.line < range.endLine && d.range.end.line >= range.startLine - 1)))
+                    .map(d => [uri, d] as [vscode.Uri, vscode.Diagnostic]);
+            });
+        }
+
+        return entries
+            .filter(([, d]) => d.severity !== vscode.DiagnosticSeverity.Hint)
+            .sort(([uriA, a], [uriB, b]) => a.severity - b.severity
+                || uriA.path.localeCompare(uriB.path)
+                || a.range.start.line - b.range.start.line);
+    }
+
+    private _snippet(lines: string[], startLine: number, endLine: number): string {
+        const first = Math.max(0, startLine - ContextProvider.DIAGNOSTIC_CONTEXT_LINES);
+        const last = Math.min(lines.length - 1, endLine + ContextProvider.DIAGNOSTIC_CONTEXT_LINES);
+        const width = String(last + 1).length;
+        const snippet: string[] = [];
+        for (let line = first; line <= last; line++) {
+            const marker = line >= startLine && line <= endLine ? '>' : ' ';
+            snippet.push(`${marker} ${String(line + 1).padStart(width)} | ${lines[line]}`);
+        }
+        return snippet.join('\n');
+    }
+
+    private async _addMany(uris: vscode.Uri[], source: string): Promise<void> {
+        if (uris.length > ContextProvider.MAX_FOLDER_FILES) {
+            vscode.window.showWarningMessage(
+                `${source} has more than ${ContextProvider.MAX_FOLDER_FILES} files; only the first ${ContextProvider.MAX_FOLDER_FILES} were added`
+            );
+            uris = uris.slice(0, ContextProvider.MAX_FOLDER_FILES);
+        }
+
+        let added = 0;
+        let skipped = 0;
+
+        for (const uri of uris) {
+            if (this._findEntry(uri)) {
+                continue;
+            }
+            try {
+                this._pushEntry(await this._readContextFile(uri, true));
+                added++;
+            } catch (error) {
+                // Binary, oversized or unreadable
+                skipped++;
+            }
+        }
+
+        const dependencies = await this._addSolidityDependencies(uris);
+        this.refresh();
+        vscode.window.showInformationMessage(
+            `Added ${added} file(s) from ${source} to context`
+            + `${dependencies > 0 ? ` with ${dependencies} Solidity dependencies` : ''}`
+            + `${skipped > 0 ? ` (${skipped} binary or unreadable skipped)` : ''}`
+        );
+    }
+
+    /**
+     * Brings in the imports, base contracts and libraries of the Solidity
+     * files among `uris`. Returns how many entries were added.
+     */
+    private async _addSolidityDependencies(uris: vscode.Uri[]): Promise<number> {
+        let added = 0;
+        for (const uri of uris.filter(SolidityService.isSolidity)) {
+            for (const dependency of await this._solidityService.dependenciesFor(uri)) {
+                if (this._findEntry(dependency)) {
+                    continue;
+                }
+                try {
+                    this._pushEntry(await this._readContextFile(dependency, true));
+                    added++;
+                } catch (error) {
+                    // Unreadable dependencies are left out
+                }
+            }
+        }
+        return added;
+    }
+
+    /**
+     * Files under a folder that neither a .gitignore nor the configured ignore
+     * patterns exclude, up to one past the folder limit.
+     */
+    async collectFolderFiles(folder: vscode.Uri): Promise<vscode.Uri[]> {
+        const files: vscode.Uri[] = [];
+
+        // .gitignore files from the workspace root down to the folder's parent apply as well
+        const inherited: IgnoreScope[] = [];
+        const root = vscode.workspace.getWorkspaceFolder(folder)?.uri;
+        const fromRoot = root ? path.posix.relative(root.path, folder.path) : '';
+        if (root && fromRoot && !fromRoot.startsWith('..')) {
+            let current = root;
+            for (const segment of fromRoot.split('/')) {
+                const rules = await this._readGitIgnore(current);
+                if (rules) {
+                    inherited.push({ base: current, rules });
+                }
+                current = vscode.Uri.joinPath(current, segment);
+            }
+        }
+
+        const walk = async (directory: vscode.Uri, scopes: IgnoreScope[]): Promise<void> => {
+            const own = await this._readGitIgnore(directory);
+            const active = own ? [...scopes, { base: directory, rules: own }] : scopes;
+
+            const entries = await vscode.workspace.fs.readDirectory(directory);
+            for (const [name, type] of entries.sort(([a], [b]) => a.localeCompare(b))) {
+                // One past the limit so _addMany can tell the user it was hit
+                if (files.length > ContextProvider.MAX_FOLDER_FILES) {
+                    return;
+                }
+
+                const isDirectory = (type & vscode.FileType.Directory) !== 0;
+                const child = vscode.Uri.joinPath(directory, name);
+                if (name === '.git' || this._configManager.isIgnored(child, isDirectory) || active.some(({ base, rules }) => rules.ignores(path.posix.relative(base.path, child.path), isDirectory))) {
+                    continue;
+                }
+
+                if (isDirectory) {
+                    await walk(child, active);
+                } else if (type & vscode.FileType.File) {
+                    files.push(child);
+                }
+            }
+        };
+
+        await walk(folder, inherited);
+        return files;
+    }
+
+    private async _readGitIgnore(directory: vscode.Uri): Promise<GitIgnore | undefined> {
+        try {
+            const bytes = await vscode.workspace.fs.readFile(vscode.Uri.joinPath(directory, '.gitignore'));
+            return new GitIgnore(new TextDecoder().decode(bytes));
+        } catch (error) {
+            return undefined;
+        }
+    }
+
+    private _syncFromDocument(document: vscode.TextDocument, changes: readonly vscode.TextDocumentContentChangeEvent[] = []): void {
+        const text = document.getText();
+        this._entriesFor(document.uri).forEach(file => {
+            if (file.range && changes.length > 0) {
+                this._moveRange(file, file.range, changes);
+            }
+            this._updateContent(file, text);
+        });
+    }
+
+    /**
+     * Keeps a selection on the same code as lines are edited: edits above it
+     * move it, edits inside it grow or shrink it.
+     */
+    private _moveRange(file: ContextFile, range: ContextRange, changes: readonly vscode.TextDocumentContentChangeEvent[]): void {
+        let { startLine, endLine } = range;
+        for (const change of changes) {
+            // Zero-based lines of the change against the one-based range
+            const changeStart = change.range.start.line + 1;
+            const changeEnd = change.range.end.line + 1;
+            if (changeStart > endLine) {
+                continue;
+            }
+            const delta = change.text.split(/\r?\n/).length - 1 - (changeEnd - changeStart);
+            if (changeEnd < startLine) {
+                startLine += delta;
+            } else {
+                startLine = Math.min(startLine, changeStart);
+            }
+            endLine = Math.max(startLine, endLine + delta);
+        }
+
+        if (startLine === range.startLine && endLine === range.endLine) {
+            return;
+        }
+        const oldKey = this._key(file.uri, range);
+        const hash = this._addedHashes.get(oldKey);
+        this._addedHashes.delete(oldKey);
+        file.range = { startLine, endLine };
+        if (hash !== undefined) {
+            this._addedHashes.set(this._key(file.uri, file.range), hash);
+        }
+        file.name = this._entryName(file.uri, file.range);
+        this._scheduleRefresh();
+    }
+
+    private async _syncFromDisk(uri: vscode.Uri): Promise<void> {
+        const entries = this._entriesFor(uri);
+        if (entries.length === 0) {
+            return;
+        }
+
+        // Unsaved edits in an open editor take precedence over the file on disk
+        const openDocument = vscode.workspace.textDocuments.find(d => d.uri.toString() === uri.toString());
+        if (openDocument?.isDirty) {
+            return;
+        }
+
+        try {
+            const bytes = await vscode.workspace.fs.readFile(uri);
+            const text = new TextDecoder().decode(bytes);
+            entries.forEach(file => this._updateContent(file, text));
+        } catch (error) {
+            this._confirmMissing(uri);
+        }
+    }
+
+    /**
+     * Updates an entry from the full text of its file.
+     */
+    private _updateContent(file: ContextFile, text: string): void {
+        const { content, isAbiSummary } = this._extractContent(file.uri, text, file.range);
+        if (file.content === content && !file.isMissing) {
+            return;
+        }
+
+        file.content = content;
+        file.isAbiSummary = isAbiSummary;
+        file.isMissing = false;
+        file.isModified = this._hash(content) !== this._addedHashes.get(this._key(file.uri, file.range));
+        this._scheduleRefresh();
+    }
+
+    private _markMissing(uri: vscode.Uri): void {
+        // Renames also surface as a delete; onDidRenameFiles re-points those entries
+        if ([...this._renaming].some(renamed => this._isSameOrChild(uri, vscode.Uri.parse(renamed)))) {
+            return;
+        }
+        this._confirmMissing(uri);
+    }
+
+    private async _confirmMissing(uri: vscode.Uri): Promise<void> {
+        // A deleted folder takes every context file under it along
+        const candidates = this._contextFiles.filter(f => !f.isMissing && this._isSameOrChild(f.uri, uri));
+        const exists = await Promise.all(candidates.map(f => Promise.resolve(vscode.workspace.fs.stat(f.uri)).then(() => true, () => false)));
+        const missing = candidates.filter((_, index) => !exists[index]);
+        if (missing.length === 0) {
+            return;
+        }
+
+        missing.forEach(file => {
+            file.isMissing = true;
+            file.content = undefined;
+        });
+        this.refresh();
+
+        const names = [...new Set(missing.map(f => path.basename(f.uri.fsPath)))].join(', ');
+        vscode.window.showWarningMessage(
+            `${names} ${missing.length === 1 ? 'was' : 'were'} deleted and will no longer be sent as context`,
+            'Remove from Context'
+        ).then(selection => {
+            if (selection === 'Remove from Context') {
+                missing.forEach(file => this.removeFile(file.uri, file.range));
+            }
+        });
     }
+
+    private _handleRename(oldUri: vscode.Uri, newUri: vscode.Uri): void {
+        const renamed = this._contextFiles.filter(f => this._isSameOrChild(f.uri, oldUri));
+        if (renamed.length === 0) {
+            return;
+        }
+
+        renamed.forEach(file => {
+            const updatedUri = vscode.Uri.joinPath(newUri, path.posix.relative(oldUri.path, file.uri.path));
+            const oldKey = this._key(file.uri, file.range);
+            const hash = this._addedHashes.get(oldKey);
+            this._addedHashes.delete(oldKey);
+            if (hash !== undefined) {
+                this._addedHashes.set(this._key(updatedUri, file.range), hash);
+            }
+
+            file.uri = updatedUri;
+            file.name = this._entryName(updatedUri, file.range);
+            file.relativePath = this._relativePath(updatedUri);
+        });
+        this.refresh();
+    }
+
+    private _pushEntry(file: ContextFile): void {
+        this._contextFiles.push(file);
+        this._addedHashes.set(this._key(file.uri, file.range), this._hash(file.content));
+    }
+
+    private _findEntry(uri: vscode.Uri, range?: ContextRange): ContextFile | undefined {
+        const key = this._key(uri, range);
+        return this._contextFiles.find(f => this._key(f.uri, f.range) === key);
+    }
+
+    private _entriesFor(uri: vscode.Uri): ContextFile[] {
+        return this._contextFiles.filter(f => f.uri.toString() === uri.toString());
+    }
+
+    private _filesUnder(folder: ContextFolder): ContextFile[] {
+        return this._contextFiles.filter(f => {
+            const directory = this._directoryOf(f);
+            return this._rootOf(f) === folder.root
+                && (!folder.path || directory === folder.path || directory.startsWith(folder.path + '/'));
+        });
+    }
+
+    private _rootOf(file: ContextFile): string {
+        return vscode.workspace.getWorkspaceFolder(file.uri)?.uri.toString() ?? '';
+    }
+
+    private _directoryOf(file: ContextFile): string {
+        const directory = path.posix.dirname(file.relativePath.replace(/\\/g, '/'));
+        return directory === '.' ? '' : directory;
+    }
+
+    // Selections of the same file are separate entries, so the range is part of the identity
+    private _key(uri: vscode.Uri, range?: ContextRange): string {
+        return range ? `${uri.toString()}#L${range.startLine}-${range.endLine}` : uri.toString();
+    }
+
+    private _isSameOrChild(uri: vscode.Uri, parent: vscode.Uri): boolean {
+        const child = uri.toString();
+        const prefix = parent.toString();
+        return child === prefix || child.startsWith(prefix.endsWith('/') ? prefix : prefix + '/');
+    }
+
+    private _scheduleRefresh(): void {
+        // Typing fires a change per keystroke; coalesce them into one tree update
+        clearTimeout(this._refreshTimer);
+        this._refreshTimer = setTimeout(() => this.refresh(), 300);
+    }
+
+    private _hash(content: string | undefined): string {
+        return createHash('sha1').update(content ?? '').digest('hex');
+    }
+
+    private _relativePath(uri: vscode.Uri): string {
+        const workspaceFolder = vscode.workspace.getWorkspaceFolder(uri);
+        return workspaceFolder
+            ? path.relative(workspaceFolder.uri.fsPath, uri.fsPath)
+            : path.basename(uri.fsPath);
+    }
+
+    private _entryName(uri: vscode.Uri, range?: ContextRange): string {
+        const name = path.basename(uri.fsPath);
+        return range ? `${name}:${range.startLine}-${range.endLine}` : name;
+    }
+
+    /**
+     * The part of a file sent as context. Compiled contract artifacts are
+     * replaced by a summary of their ABI.
+     */
+    private _extractContent(uri: vscode.Uri, text: string, range?: ContextRange): { content: string; isAbiSummary?: boolean } {
+        if (range) {
+            return { content: text.split(/\r?\n/).slice(range.startLine - 1, range.endLine).join('\n') };
+        }
+        if (isContractArtifactPath(uri.path)) {
+            const artifact = parseContractArtifact(text, path.basename(uri.path, '.json'));
+            if (artifact) {
+                return { content: summarizeAbi(artifact), isAbiSummary: true };
+            }
+        }
+        return { content: text };
+    }
+
+    private _createEntry(uri: vscode.Uri, text: string, isActive: boolean, range?: ContextRange): ContextFile {
+        return {
+            uri,
+            name: this._entryName(uri, range),
+            relativePath: this._relativePath(uri),
+            ...this._extractContent(uri, text, range),
+            isActive,
+            range
+        };
+    }
+
+    /**
+     * Reads an entry from the open document if there is one, so unsaved edits
+     * count, and from disk otherwise. Rejects binary and oversized files.
+     */
+    private async _readContextFile(uri: vscode.Uri, isActive: boolean, range?: ContextRange): Promise<ContextFile> {
+        return this._createEntry(uri, await this._readText(uri), isActive, range);
+    }
+
+    private async _readText(uri: vscode.Uri): Promise<string> {
+        const openDocument = vscode.workspace.textDocuments.find(d => d.uri.toString() === uri.toString());
+        if (openDocument) {
+            return openDocument.getText();
+        }
+
+        const bytes = await vscode.workspace.fs.readFile(uri);
+        const maxSize = isContractArtifactPath(uri.path) ? ContextProvider.MAX_ARTIFACT_SIZE : ContextProvider.MAX_FILE_SIZE;
+        if (bytes.length > maxSize) {
+            throw new Error(`${path.basename(uri.fsPath)} is larger than ${maxSize / 1024} KB`);
+        }
+        if (bytes.subarray(0, 8000).includes(0)) {
+            throw new Error(`${path.basename(uri.fsPath)} is a binary file`);
+        }
+
+        return new TextDecoder().decode(bytes);
+    }
+}
+
+export function isContextFolder(node: ContextTreeNode): node is ContextFolder {
+    return 'kind' in node && node.kind === 'folder';
+}
+
+export function isContextDiagnostics(node: ContextTreeNode): node is ContextDiagnostics {
+    return 'kind' in node && node.kind === 'diagnostics';
 }
@@ -0,0 +1,89 @@
+import * as vscode from 'vscode';
+import { McpResource, McpTool } from '../types';
+import { McpServerState, McpService } from '../services/McpService';
+
+export type McpTreeNode =
+    | { kind: 'server'; server: McpServerState }
+    | { kind: 'tool'; server: string; tool: McpTool }
+    | { kind: 'resource'; server: string; resource: McpResource };
+
+export class McpProvider implements vscode.TreeDataProvider<McpTreeNode>, vscode.Disposable {
+    private _onDidChangeTreeData: vscode.EventEmitter<McpTreeNode | undefined | null | void> = new vscode.EventEmitter<McpTreeNode | undefined | null | void>();
+    readonly onDidChangeTreeData: vscode.Event<McpTreeNode | undefined | null | void> = this._onDidChangeTreeData.event;
+
+    private _serverListener: vscode.Disposable;
+
+    constructor(private readonly _mcpService: McpService) {
+        this._serverListener = this._mcpService.onDidChangeServers(() => this.refresh());
+    }
+
+    dispose(): void {
+        this._serverListener.dispose();
+        this._onDidChangeTreeData.dispose();
+    }
+
+    refresh(): void {
+        this._onDidChangeTreeData.fire();
+    }
+
+    getTreeItem(element: McpTreeNode): vscode.TreeItem {
+        switch (element.kind) {
+            case 'server': {
+                const { config, status, error, tools, resources } = element.server;
+                const hasChildren = tools.length + resources.length > 0;
+                const item = new vscode.TreeItem(
+                    config.name,
+                    hasChildren ? vscode.TreeItemCollapsibleState.Expanded : vscode.TreeItemCollapsibleState.None
+                );
+                item.description = status === 'running'
+                    ? `${tools.length} tool${tools.length === 1 ? '' : 's'}`
+                    : status;
+                item.tooltip = `${config.command} ${(config.args ?? []).join(' ')}${error ? `\n${error}` : ''}`;
+                item.contextValue = 'mcpServer';
+
+                if (status === 'running') {
+                    item.iconPath = new vscode.ThemeIcon('server-process');
+                } else if (status === 'starting') {
+                    item.iconPath = new vscode.ThemeIcon('loading~spin');
+                } else if (status === 'error') {
+                    item.iconPath = new vscode.ThemeIcon('error', new vscode.ThemeColor('list.errorForeground'));
+                } else {
+                    item.iconPath = new vscode.ThemeIcon('debug-stop');
+                }
+                return item;
+            }
+            case 'tool': {
+                const item = new vscode.TreeItem(element.tool.name, vscode.TreeItemCollapsibleState.None);
+                item.description = element.tool.description;
+                item.tooltip = element.tool.description;
+                item.iconPath = new vscode.ThemeIcon('tools');
+                item.contextValue = 'mcpTool';
+                return item;
+            }
+            case 'resource': {
+                const item = new vscode.TreeItem(element.resource.name, vscode.TreeItemCollapsibleState.None);
+                item.description = element.resource.uri;
+                item.tooltip = element.resource.description ?? element.resource.uri;
+                item.iconPath = new vscode.ThemeIcon('file');
+                item.contextValue = 'mcpResource';
+                return item;
+            }
+        }
+    }
+
+    getChildren(element?: McpTreeNode): Thenable<McpTreeNode[]> {
+        if (!element) {
+            return Promise.resolve(this._mcpService.getServers().map(server => ({ kind: 'server' as const, server })));
+        }
+
+        if (element.kind === 'server') {
+            const name = element.server.config.name;
+            return Promise.resolve([
+                ...element.server.tools.map(tool => ({ kind: 'tool' as const, server: name, tool })),
+                ...element.server.resources.map(resource => ({ kind: 'resource' as const, server: name, resource }))
+            ]);
+        }
+
+        return Promise.resolve([]);
+    }
+}
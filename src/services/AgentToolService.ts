@@ -0,0 +1,341 @@
+import * as vscode from 'vscode';
+import { ToolCallOutcome } from '../types';
+import { EditReviewService } from './EditReviewService';
+import { McpService } from './McpService';
+import { ContractTestService } from './ContractTestService';
+import { ConfigurationManager } from '../managers/ConfigurationManager';
+import { ToolCall, ToolDescription } from '../utils/toolCalls';
+import { formatContractTestRun } from '../utils/contractTests';
+
+const BUILT_IN_TOOLS: ToolDescription[] = [
+    {
+        name: 'read_file',
+        description: 'Read a workspace file, optionally limited to a line range.',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                path: { type: 'string', description: 'Workspace-relative path' },
+                startLine: { type: 'number', description: 'First line, 1-based' },
+                endLine: { type: 'number', description: 'Last line, inclusive' }
+            },
+            required: ['path']
+        }
+    },
+    {
+        name: 'search_workspace',
+        description: 'Search workspace files for text, ignoring case, and return matching lines.',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                query: { type: 'string', description: 'Literal text to find' },
+                include: { type: 'string', description: 'Glob limiting the files searched' }
+            },
+            required: ['query']
+        }
+    },
+    {
+        name: 'list_directory',
+        description: 'List the entries of a workspace directory.',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                path: { type: 'string', description: 'Workspace-relative path; defaults to the root' }
+            }
+        }
+    },
+    {
+        name: 'propose_edit',
+        description: 'Propose the complete new content of a file. The user reviews the change before it is written.',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                path: { type: 'string', description: 'Workspace-relative path' },
+                content: { type: 'string', description: 'Full new file content' }
+            },
+            required: ['path', 'content']
+        }
+    },
+    {
+        name: 'run_contract_tests',
+        description: 'Run the Foundry (forge test) or Hardhat (hardhat test) tests after the user approves it. Returns pass/fail, revert reasons and gas for each test.',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                path: { type: 'string', description: 'Workspace-relative test file or project folder; defaults to the first project found' },
+                match: { type: 'string', description: 'Only run tests whose name matches this pattern' },
+                traces: { type: 'boolean', description: 'Foundry only: also return the call traces of failing tests' }
+            }
+        }
+    },
+    {
+        name: 'trace_transaction',
+        description: 'Trace a transaction on the local devnet (anvil or a Hardhat node): its call tree with gas and decoded revert reasons.',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                hash: { type: 'string', description: 'Transaction hash; defaults to the last transaction of the latest block' },
+                rpcUrl: { type: 'string', description: 'Local JSON-RPC URL; defaults to the codeforgex.devnetRpcUrl setting' }
+            }
+        }
+    },
+    {
+        name: 'run_task',
+        description: 'Run a VS Code task by name after the user approves it and report its exit code.',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                name: { type: 'string' }
+            },
+            required: ['name']
+        }
+    }
+];
+
+/**
+ * Executes the tools Agent mode can call: the built-in workspace tools and any
+ * tools exposed by running MCP servers (named `server/tool`). Anything that
+ * writes to disk or runs code asks the user first.
+ */
+export class AgentToolService {
+    private static readonly MAX_READ_CHARS = 20000;
+    private static readonly MAX_SEARCH_FILES = 1000;
+    private static readonly MAX_SEARCH_MATCHES = 50;
+    private static readonly MAX_FILE_SIZE = 512 * 1024;
+    private static readonly SEARCH_EXCLUDE = '**/{node_modules,.git,dist,out,build}/**';
+
+    constructor(
+        private readonly _editReviewService: EditReviewService,
+        private readonly _mcpService: McpService,
+        private readonly _contractTestService: ContractTestService,
+        private readonly _configManager: ConfigurationManager
+    ) {}
+
+    getTools(): ToolDescription[] {
+        const mcpTools = this._mcpService.getAvailableTools()
+            .map(({ server, tool }) => ({ ...tool, name: `${server}/${tool.name}` }));
+        return [...BUILT_IN_TOOLS, ...mcpTools];
+    }
+
+    /**
+     * One-line description of a call for the plan view.
+     */
+    describe(call: ToolCall): string {
+        const args = call.arguments;
+        switch (call.tool) {
+            case 'read_file':
+                return `Read ${args.path}${args.startLine ? ` (lines ${args.startLine}-${args.endLine ?? 'end'})` : ''}`;
+            case 'search_workspace':
+                return `Search for "${args.query}"${args.include ? ` in ${args.include}` : ''}`;
+            case 'list_directory':
+                return `List ${args.path || 'workspace root'}`;
+            case 'propose_edit':
+                return `Edit ${args.path}`;
+            case 'run_contract_tests':
+                return `Run contract tests${args.path ? ` in ${args.path}` : ''}${args.match ? ` matching "${args.match}"` : ''}`;
+            case 'trace_transaction':
+                return `Trace ${args.hash ?? 'the latest transaction'}`;
+            case 'run_task':
+                return `Run task "${args.name}"`;
+            default:
+                return `Call ${call.tool}`;
+        }
+    }
+
+    async execute(call: ToolCall, token?: vscode.CancellationToken): Promise<ToolCallOutcome> {
+        try {
+            switch (call.tool) {
+                case 'read_file':
+                    return await this._readFile(call.arguments);
+                case 'search_workspace':
+                    return await this._searchWorkspace(call.arguments, token);
+                case 'list_directory':
+                    return await this._listDirectory(call.arguments);
+                case 'propose_edit':
+                    return await this._proposeEdit(call.arguments);
+                case 'run_contract_tests':
+                    return await this._runContractTests(call.arguments, token);
+                case 'trace_transaction':
+                    return await this._traceTransaction(call.arguments, token);
+                case 'run_task':
+                    return await this._runTask(call.arguments, token);
+            }
+
+            // Server names may contain slashes (npm scopes); tool names do not
+            const separator = call.tool.lastIndexOf('/');
+            if (separator === -1) {
+                return { status: 'failed', result: `Unknown tool "${call.tool}"` };
+            }
+            return await this._mcpService.callTool(call.tool.slice(0, separator), call.tool.slice(separator + 1), call.arguments);
+        } catch (error) {
+            return { status: 'failed', result: error instanceof Error ? error.message : 'Unknown error' };
+        }
+    }
+
+    private async _readFile(args: Record<string, unknown>): Promise<ToolCallOutcome> {
+        const uri = await this._resolve(args.path);
+        const document = await vscode.workspace.openTextDocument(uri);
+        let content = document.getText();
+
+        if (typeof args.startLine === 'number') {
+            const lines = content.split(/\r?\n/);
+            const end = typeof args.endLine === 'number' ? args.endLine : lines.length;
+            content = lines.slice(Math.max(args.startLine - 1, 0), end).join('\n');
+        }
+
+        if (content.length > AgentToolService.MAX_READ_CHARS) {
+            content = `${content.slice(0, AgentToolService.MAX_READ_CHARS)}\n[truncated; read a line range to see more]`;
+        }
+        return { status: 'done', result: content };
+    }
+
+    private async _searchWorkspace(args: Record<string, unknown>, token?: vscode.CancellationToken): Promise<ToolCallOutcome> {
+        if (typeof args.query !== 'string' || !args.query) {
+            return { status: 'failed', result: 'search_workspace needs a "query"' };
+        }
+
+        // Literal matching only: a regex from the model could hang the extension host
+        const query = args.query.toLowerCase();
+        const include = typeof args.include === 'string' && args.include ? args.include : '**/*';
+        const files = await vscode.workspace.findFiles(include, AgentToolService.SEARCH_EXCLUDE, AgentToolService.MAX_SEARCH_FILES, token);
+
+        const matches: string[] = [];
+        for (const file of files) {
+            if (token?.isCancellationRequested || matches.length >= AgentToolService.MAX_SEARCH_MATCHES) {
+                break;
+            }
+            if (this._configManager.isIgnored(file)) {
+                continue;
+            }
+
+            const stat = await vscode.workspace.fs.stat(file);
+            if (stat.size > AgentToolService.MAX_FILE_SIZE) {
+                continue;
+            }
+
+            const text = Buffer.from(await vscode.workspace.fs.readFile(file)).toString('utf8');
+            if (text.includes('\0')) {
+                continue;
+            }
+
+            const lines = text.split(/\r?\n/);
+            for (let index = 0; index < lines.length && matches.length < AgentToolService.MAX_SEARCH_MATCHES; index++) {
+                if (lines[index].toLowerCase().includes(query)) {
+                    matches.push(`${vscode.workspace.asRelativePath(file)}:${index + 1}: ${lines[index].trim()}`);
+                }
+            }
+        }
+
+        if (matches.length === 0) {
+            return { status: 'done', result: 'No matches' };
+        }
+        const limited = matches.length >= AgentToolService.MAX_SEARCH_MATCHES ? '\n[more matches omitted]' : '';
+        return { status: 'done', result: matches.join('\n') + limited };
+    }
+
+    private async _listDirectory(args: Record<string, unknown>): Promise<ToolCallOutcome> {
+        const uri = await this._resolve(args.path || '.');
+        const entries = await vscode.workspace.fs.readDirectory(uri);
+
+        const listing = entries
+            .sort(([nameA, typeA], [nameB, typeB]) =>
+                (typeB & vscode.FileType.Directory) - (typeA & vscode.FileType.Directory) || nameA.localeCompare(nameB))
+            .map(([name, type]) => type & vscode.FileType.Directory ? `${name}/` : name);
+        return { status: 'done', result: listing.join('\n') || '(empty)' };
+    }
+
+    private async _proposeEdit(args: Record<string, unknown>): Promise<ToolCallOutcome> {
+        if (typeof args.content !== 'string') {
+            return { status: 'failed', result: 'propose_edit needs the full file "content"' };
+        }
+
+        const uri = await this._resolve(args.path);
+        const relativePath = vscode.workspace.asRelativePath(uri);
+        const { applied, rejected, skipped } = await this._editReviewService.review([{ uri, relativePath, content: args.content }]);
+
+        if (applied > 0) {
+            return { status: 'done', result: `The user applied the edit to ${relativePath}` };
+        }
+        if (rejected + skipped > 0) {
+            return { status: 'declined', result: `The user did not apply the edit to ${relativePath}` };
+        }
+        return { status: 'done', result: `${relativePath} already has this content` };
+    }
+
+    private async _runContractTests(args: Record<string, unknown>, token?: vscode.CancellationToken): Promise<ToolCallOutcome> {
+        const target = args.path ? await this._resolve(args.path) : undefined;
+        const project = await this._contractTestService.findTestProject(target);
+        const command = project.framework === 'foundry' ? 'forge test' : 'hardhat test';
+
+        const choice = await vscode.window.showWarningMessage(
+            `Allow CodeForgeX to run \`${command}\`?`,
+            { modal: true, detail: `In ${vscode.workspace.asRelativePath(project.root)}${args.match ? `, tests matching "${args.match}"` : ''}` },
+            'Run'
+        );
+        if (choice !== 'Run') {
+            return { status: 'declined', result: `The user declined to run \`${command}\`` };
+        }
+
+        const isFile = target && !((await vscode.workspace.fs.stat(target)).type & vscode.FileType.Directory);
+        const run = await this._contractTestService.runTests(project, {
+            file: isFile ? target : undefined,
+            match: typeof args.match === 'string' && args.match ? args.match : undefined,
+            traces: args.traces === true
+        }, token);
+
+        // Failures go back to the model as a failed step so it can fix them and rerun
+        const passed = !run.error && run.exitCode === 0 && run.tests.every(test => test.status !== 'failed');
+        return { status: passed ? 'done' : 'failed', result: formatContractTestRun(run) };
+    }
+
+    private async _traceTransaction(args: Record<string, unknown>, token?: vscode.CancellationToken): Promise<ToolCallOutcome> {
+        const hash = typeof args.hash === 'string' && args.hash ? args.hash : undefined;
+        const rpcUrl = typeof args.rpcUrl === 'string' && args.rpcUrl ? args.rpcUrl : undefined;
+        return { status: 'done', result: await this._contractTestService.traceTransaction(hash, rpcUrl, token) };
+    }
+
+    private async _runTask(args: Record<string, unknown>, token?: vscode.CancellationToken): Promise<ToolCallOutcome> {
+        const tasks = await vscode.tasks.fetchTasks();
+        const task = tasks.find(candidate => candidate.name === args.name);
+        if (!task) {
+            const names = [...new Set(tasks.map(candidate => candidate.name))].join(', ');
+            return { status: 'failed', result: `No task named "${args.name}". Available tasks: ${names || 'none'}` };
+        }
+
+        const choice = await vscode.window.showWarningMessage(
+            `Allow CodeForgeX to run the task "${task.name}"?`,
+            { modal: true, detail: task.source },
+            'Run'
+        );
+        if (choice !== 'Run') {
+            return { status: 'declined', result: `The user declined to run the task "${task.name}"` };
+        }
+
+        const execution = await vscode.tasks.executeTask(task);
+        const exitCode = await new Promise<number | undefined>(resolve => {
+            const finish = (code: number | undefined) => {
+                listeners.forEach(listener => listener?.dispose());
+                resolve(code);
+            };
+            // Tasks without a process (custom executions) only report that they ended
+            const listeners = [
+                vscode.tasks.onDidEndTaskProcess(e => e.execution === execution && finish(e.exitCode)),
+                vscode.tasks.onDidEndTask(e => e.execution === execution && finish(undefined)),
+                token?.onCancellationRequested(() => execution.terminate())
+            ];
+        });
+
+        return exitCode === 0
+            ? { status: 'done', result: `Task "${task.name}" succeeded` }
+            : { status: 'failed', result: `Task "${task.name}" exited with code ${exitCode ?? 'unknown'}; its output is in the terminal panel` };
+    }
+
+    /**
+     * Resolves a workspace-relative path, refusing anything outside the workspace.
+     */
+    private _resolve(relativePath: unknown): Promise<vscode.Uri> {
+        if (typeof relativePath !== 'string' || !relativePath) {
+            throw new Error('A workspace-relative "path" is required');
+        }
+        return this._configManager.resolveWorkspacePath(relativePath);
+    }
+}
@@ -0,0 +1,133 @@
+import * as vscode from 'vscode';
+import { AuditFile, AuditFinding, AuditFindingStatus, ContextFile } from '../types';
+import { CodeForgeService } from './CodeForgeService';
+import { SolidityService } from './SolidityService';
+import { AUDIT_CATEGORIES, formatAuditSummary, reconcileFindings } from '../utils/audit';
+
+/**
+ * Runs security audits of the Solidity files in context and keeps their
+ * findings in a workspace file, so statuses and justifications survive
+ * reruns and can be reviewed and committed with the code.
+ */
+export class AuditService implements vscode.Disposable {
+    static readonly AUDIT_PATH = '.codeforgex/audit.json';
+
+    private _findings: AuditFinding[] = [];
+    // What this service last wrote, so its own saves are not reloaded
+    private _lastWritten?: string;
+    private readonly _watcher?: vscode.FileSystemWatcher;
+
+    private readonly _onDidChangeFindings = new vscode.EventEmitter<void>();
+    readonly onDidChangeFindings = this._onDidChangeFindings.event;
+
+    constructor(private readonly _codeForgeService: CodeForgeService) {
+        const root = this.getRoot();
+        if (root) {
+            this._watcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(root, AuditService.AUDIT_PATH));
+            this._watcher.onDidCreate(() => this._load());
+            this._watcher.onDidChange(() => this._load());
+            this._watcher.onDidDelete(() => this._load());
+            this._load();
+        }
+    }
+
+    dispose(): void {
+        this._watcher?.dispose();
+        this._onDidChangeFindings.dispose();
+    }
+
+    /**
+     * Folder finding paths are relative to, which holds the audit file.
+     */
+    getRoot(): vscode.Uri | undefined {
+        return vscode.workspace.workspaceFolders?.[0]?.uri;
+    }
+
+    getAuditUri(): vscode.Uri | undefined {
+        const root = this.getRoot();
+        return root ? vscode.Uri.joinPath(root, AuditService.AUDIT_PATH) : undefined;
+    }
+
+    getFindings(): AuditFinding[] {
+        return this._findings;
+    }
+
+    /**
+     * Audits the Solidity files in context for the audit categories and merges
+     * the results into the saved findings. Files under lib/ and node_modules/
+     * are only read as dependencies. Returns a summary for the chat.
+     */
+    async audit(contextFiles: ContextFile[], notes: string, token?: vscode.CancellationToken): Promise<string> {
+        if (!this.getRoot()) {
+            throw new Error('Open a workspace folder to keep audit findings in');
+        }
+
+        const files = contextFiles.filter(file => SolidityService.isSolidity(file.uri));
+        if (files.length === 0) {
+            throw new Error('No Solidity files in context. Add the contracts to audit first.');
+        }
+        const isDependency = (file: ContextFile) => /(^|[\\/])(lib|node_modules)[\\/]/.test(file.relativePath);
+        const focused = files.some(file => !isDependency(file)) ? files.filter(file => !isDependency(file)) : files;
+        const focus = [...new Set(focused.map(file => file.relativePath))];
+
+        const reported = await this._codeForgeService.findVulnerabilities(files, focus, token, AUDIT_CATEGORIES, notes.trim() || undefined);
+        const reconciliation = reconcileFindings(this._findings, reported, focus);
+        this._findings = reconciliation.findings;
+        await this._save();
+
+        return formatAuditSummary(reconciliation, focus, AuditService.AUDIT_PATH);
+    }
+
+    async setStatus(id: string, status: AuditFindingStatus, justification?: string): Promise<void> {
+        const finding = this._findings.find(candidate => candidate.id === id);
+        if (!finding) {
+            return;
+        }
+        finding.status = status;
+        finding.justification = justification || undefined;
+        await this._save();
+    }
+
+    private async _load(): Promise<void> {
+        const uri = this.getAuditUri();
+        if (!uri) {
+            return;
+        }
+
+        let text: string;
+        try {
+            text = new TextDecoder().decode(await vscode.workspace.fs.readFile(uri));
+        } catch (error) {
+            // No audit yet, or it was deleted
+            this._findings = [];
+            this._onDidChangeFindings.fire();
+            return;
+        }
+        if (text === this._lastWritten) {
+            return;
+        }
+
+        try {
+            const data: Partial<AuditFile> = JSON.parse(text);
+            this._findings = Array.isArray(data.findings)
+                ? data.findings.filter(finding => typeof finding?.id === 'string' && typeof finding.file === 'string')
+                : [];
+        } catch (error) {
+            vscode.window.showWarningMessage(`${AuditService.AUDIT_PATH} is not valid JSON; its findings are not shown until it is fixed`);
+            this._findings = [];
+        }
+        this._onDidChangeFindings.fire();
+    }
+
+    private async _save(): Promise<void> {
+        const uri = this.getAuditUri();
+        if (!uri) {
+            return;
+        }
+
+        const data: AuditFile = { version: 1, updatedAt: Date.now(), findings: this._findings };
+        this._lastWritten = `${JSON.stringify(data, null, 2)}\n`;
+        await vscode.workspace.fs.writeFile(uri, Buffer.from(this._lastWritten, 'utf8'));
+        this._onDidChangeFindings.fire();
+    }
+}
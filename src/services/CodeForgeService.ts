@@ -1,41 +1,97 @@
 import * as vscode from 'vscode';
-import { exec } from 'child_process';
-import { promisify } from 'util';
-import { ContextFile, CommandResponse } from '../types';
+import { spawn } from 'child_process';
+import { AgentStep, ContextBudgetReport, ContextDiagnostic, ContextFile, CommandResponse, ModeDefinition, ProjectAnalysis, ProposedEdit, ReviewFinding, SolidityFinding } from '../types';
 import { ConfigurationManager } from '../managers/ConfigurationManager';
+import { ModelManager } from '../managers/ModelManager';
+import { EditReviewService } from './EditReviewService';
+import { ContextBudgetService } from './ContextBudgetService';
+import { AgentToolService } from './AgentToolService';
+import { formatToolInstructions, parseToolCalls, stripToolCalls } from '../utils/toolCalls';
+import { formatDiagnostics } from '../utils/context';
+import { formatCommitInstructions, normalizeCommitMessage } from '../utils/commitMessage';
+import { formatReviewInstructions, parseReviewFindings } from '../utils/review';
+import { parseProjectAnalysis } from '../utils/analysis';
+import { formatVulnerabilityInstructions, parseSolidityFindings } from '../utils/solidity';
+import { killProcessTree } from '../utils/process';
+import { isToolAllowed, renderModePrompt, usesAgentLoop } from '../utils/modes';
+import { numberUnifiedDiff } from '../utils/diff';
+import { estimateTokens, tokensToChars } from '../utils/tokens';
 import * as fs from 'fs';
 import * as path from 'path';
 
-const execAsync = promisify(exec);
+/**
+ * Receives stdout from the CLI as it is produced, before the process exits.
+ */
+export type OutputHandler = (chunk: string) => void;
 
-export class CodeForgeService {
-    constructor(private _configManager: ConfigurationManager) {}
+/**
+ * Receives each Agent mode tool call when it starts and again when it finishes.
+ */
+export type StepHandler = (step: AgentStep) => void;
 
-    async processPrompt(prompt: string, contextFiles: ContextFile[]): Promise<string> {
-        const contextContent = this._buildContextContent(contextFiles);
+interface ExecuteOptions {
+    onOutput?: OutputHandler;
+    token?: vscode.CancellationToken;
+    /** Written to the CLI's stdin, which is then closed. */
+    input?: string;
+    /** Folder the CLI runs in and whose settings apply; the active folder by default. */
+    folder?: vscode.WorkspaceFolder;
+}
+
+export class CodeForgeService implements vscode.Disposable {
+    // Keeps step results stored in chat sessions small; the model still sees the full result
+    private static readonly MAX_STEP_RESULT_LENGTH = 4000;
+    private static readonly REWRITE_CONTEXT_LINES = 20;
+
+    private _onDidTrimContext = new vscode.EventEmitter<ContextBudgetReport>();
+
+    /** Fires when context files had to be cut down to fit the token budget. */
+    readonly onDidTrimContext = this._onDidTrimContext.event;
+
+    constructor(
+        private _configManager: ConfigurationManager,
+        private _editReviewService: EditReviewService,
+        private _contextBudgetService: ContextBudgetService,
+        private _modelManager: ModelManager,
+        private _agentToolService: AgentToolService
+    ) {}
+
+    dispose(): void {
+        this._onDidTrimContext.dispose();
+    }
+
+    async processPrompt(
+        prompt: string,
+        contextFiles: ContextFile[],
+        onOutput?: OutputHandler,
+        token?: vscode.CancellationToken,
+        diagnostics: ContextDiagnostic[] = []
+    ): Promise<string> {
+        const contextContent = await this._buildContextContent(contextFiles, prompt, diagnostics);
         const fullPrompt = contextContent ? `Context:\n${contextContent}\n\nQuery: ${prompt}` : prompt;
         
-        return this._executeCommand(['prompt', `"${fullPrompt}"`]);
+        return this._executePrompt(['prompt'], fullPrompt, { onOutput, token, folder: this._folderFor(contextFiles) });
     }
 
-    async processEdit(request: string, contextFiles: ContextFile[]): Promise<string> {
+    async processEdit(request: string, contextFiles: ContextFile[], onOutput?: OutputHandler, token?: vscode.CancellationToken): Promise<string> {
+        // Selections, virtual entries and ABI summaries are read-only context; only whole files can be rewritten
+        contextFiles = contextFiles.filter(f => !f.range && !f.isVirtual && !f.isAbiSummary);
         if (contextFiles.length === 0) {
             throw new Error('No files in context for editing. Please add files to context first.');
         }
 
         // Create temporary files for editing
-        const tempDir = await this._createTempContext(contextFiles);
+        const { tempDir, files } = await this._createTempContext(contextFiles);
         
         try {
-            const result = await this._executeCommand([
-                'edit', 
-                tempDir,
-                '--user_prompt', 
-                `"${request}"`
-            ]);
+            const result = await this._executePrompt(
+                ['edit', tempDir, '--user_prompt'],
+                request,
+                { onOutput, token, folder: this._folderFor(contextFiles) }
+            );
 
             // Check for .codeforgedit files and offer to apply changes
-            await this._handleEditResults(tempDir, contextFiles);
+            await this._handleEditResults(tempDir, files);
             
             return result;
         } finally {
@@ -44,81 +100,388 @@ export class CodeForgeService {
         }
     }
 
-    async processAgent(request: string, contextFiles: ContextFile[]): Promise<string> {
-        // Agent mode combines analysis and suggestions
-        const contextContent = this._buildContextContent(contextFiles);
-        
-        // First analyze the context
-        const analysisPrompt = contextContent 
-            ? `Analyze this codebase and then respond to: ${request}\n\nContext:\n${contextContent}`
-            : `Act as a coding agent and respond to: ${request}`;
-            
-        return this._executeCommand(['prompt', `"${analysisPrompt}"`]);
+    /**
+     * Model a request with these context files runs with.
+     */
+    getModelFor(contextFiles: ContextFile[]): string {
+        return this._modelManager.getModelFor(this._folderFor(contextFiles)?.uri);
     }
 
-    async explainCode(filePath: string): Promise<string> {
-        return this._executeCommand(['explain', `"${filePath}"`]);
+    /**
+     * Runs the agent loop: the model either answers or requests tools, whose
+     * results are sent back until it answers or the step limit is reached.
+     * A custom mode replaces the agent instructions with its own prompt and
+     * limits the tools to those it allows.
+     */
+    async processAgent(
+        request: string,
+        contextFiles: ContextFile[],
+        onOutput?: OutputHandler,
+        token?: vscode.CancellationToken,
+        onStep?: StepHandler,
+        diagnostics: ContextDiagnostic[] = [],
+        mode?: ModeDefinition
+    ): Promise<string> {
+        const contextContent = await this._buildContextContent(contextFiles, request, diagnostics);
+        const tools = this._agentToolService.getTools().filter(tool => !mode || isToolAllowed(mode, tool.name));
+        const instructions = formatToolInstructions(tools);
+        const folder = this._folderFor(contextFiles);
+        const maxSteps = this._configManager.getConfig(folder?.uri).agentMaxSteps;
+        const subcommand = mode?.command ?? 'prompt';
+
+        let conversation = mode
+            ? [instructions, renderModePrompt(mode.systemPrompt ?? '', request, contextContent)].join('\n\n')
+            : [
+                'You are a coding agent working in the user\'s workspace. Start with a short plan, then use tools to inspect the code and make changes.',
+                instructions,
+                contextContent ? `Context:\n${contextContent}` : '',
+                `Task: ${request}`
+            ].filter(Boolean).join('\n\n');
+
+        const answers: string[] = [];
+        let stepCount = 0;
+
+        while (true) {
+            if (answers.length > 0) {
+                onOutput?.('\n\n');
+            }
+            const response = await this._executePrompt([subcommand], conversation, { onOutput, token, folder });
+            const calls = parseToolCalls(response);
+            answers.push(stripToolCalls(response));
+
+            if (calls.length === 0) {
+                break;
+            }
+            if (stepCount >= maxSteps) {
+                answers.push(`_Stopped after ${maxSteps} steps. Send another message to let the agent continue._`);
+                break;
+            }
+
+            const results: string[] = [];
+            for (const call of calls.slice(0, maxSteps - stepCount)) {
+                if (token?.isCancellationRequested) {
+                    throw new vscode.CancellationError();
+                }
+
+                const step: AgentStep = {
+                    id: String(++stepCount),
+                    tool: call.tool,
+                    summary: this._agentToolService.describe(call),
+                    status: 'running'
+                };
+                onStep?.({ ...step });
+
+                const outcome = mode && !isToolAllowed(mode, call.tool)
+                    ? { status: 'failed' as const, result: `${call.tool} is not available in ${mode.name} mode` }
+                    : await this._agentToolService.execute(call, token);
+                const result = outcome.result.length > CodeForgeService.MAX_STEP_RESULT_LENGTH
+                    ? `${outcome.result.slice(0, CodeForgeService.MAX_STEP_RESULT_LENGTH)}\n…`
+                    : outcome.result;
+                onStep?.({ ...step, status: outcome.status, result });
+
+                results.push(`Result of ${call.tool} (${outcome.status}):\n${outcome.result}`);
+            }
+            if (stepCount >= maxSteps && calls.length > results.length) {
+                results.push('Step limit reached; the remaining tool calls were not run. Answer with what you have.');
+            }
+
+            conversation += `\n\nAssistant:\n${response}\n\nTool results:\n${results.join('\n\n')}`;
+        }
+
+        return answers.filter(answer => answer.trim()).join('\n\n');
+    }
+
+    /**
+     * Handles a request in a custom mode: its prompt template is filled in and
+     * sent to its CLI subcommand, through the agent loop when the mode may use
+     * tools or propose edits.
+     */
+    async processCustomMode(
+        mode: ModeDefinition,
+        request: string,
+        contextFiles: ContextFile[],
+        onOutput?: OutputHandler,
+        token?: vscode.CancellationToken,
+        onStep?: StepHandler,
+        diagnostics: ContextDiagnostic[] = []
+    ): Promise<string> {
+        if (usesAgentLoop(mode)) {
+            return this.processAgent(request, contextFiles, onOutput, token, onStep, diagnostics, mode);
+        }
+
+        const contextContent = await this._buildContextContent(contextFiles, request, diagnostics);
+        const prompt = renderModePrompt(mode.systemPrompt ?? '', request, contextContent);
+        return this._executePrompt([mode.command ?? 'prompt'], prompt, { onOutput, token, folder: this._folderFor(contextFiles) });
     }
 
-    async generateCommitMessage(): Promise<string> {
-        return this._executeCommand(['commit-message']);
+    /**
+     * Asks the model to rewrite one range of a document and returns only the
+     * replacement code. Lines around the range are sent for reference.
+     */
+    async rewriteCode(instruction: string, document: vscode.TextDocument, range: vscode.Range, token?: vscode.CancellationToken): Promise<string> {
+        const before = document.getText(new vscode.Range(Math.max(range.start.line - CodeForgeService.REWRITE_CONTEXT_LINES, 0), 0, range.start.line, 0));
+        const after = document.getText(new vscode.Range(range.end.line + 1, 0, range.end.line + 1 + CodeForgeService.REWRITE_CONTEXT_LINES, 0));
+        const fence = '```';
+
+        const prompt = [
+            `You are editing ${vscode.workspace.asRelativePath(document.uri)} (${document.languageId}).`,
+            instruction,
+            'Reply with only the replacement for the code to edit, in a single fenced code block. Keep its indentation.',
+            before.trim() ? `Code above (for reference only):\n${fence}\n${before}${fence}` : '',
+            `Code to edit (lines ${range.start.line + 1}-${range.end.line + 1}):\n${fence}${document.languageId}\n${document.getText(range)}\n${fence}`,
+            after.trim() ? `Code below (for reference only):\n${fence}\n${after}${fence}` : ''
+        ].filter(Boolean).join('\n\n');
+
+        const folder = vscode.workspace.getWorkspaceFolder(document.uri);
+        const response = await this._executePrompt(['prompt'], prompt, { token, folder });
+
+        // Fall back to the whole reply when the model did not use a fence
+        const block = /```[^\n]*\n([\s\S]*?)\n?```/.exec(response);
+        return (block ? block[1] : response.trim()).replace(/\r?\n$/, '');
     }
 
-    async analyzeProject(path?: string): Promise<string> {
-        const args = ['analyze'];
-        if (path) {
-            args.push(`"${path}"`);
+    async explainCode(filePath: string, token?: vscode.CancellationToken): Promise<string> {
+        const folder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(filePath));
+        return this._executeCommand(['explain', filePath], { token, folder });
+    }
+
+    /**
+     * Writes a commit message for a diff of the repository at `root`, following
+     * the convention configured for its folder.
+     */
+    async generateCommitMessage(diff: string, root: vscode.Uri, token?: vscode.CancellationToken): Promise<string> {
+        const folder = this._folderForRepository(root);
+        const config = this._configManager.getConfig(folder?.uri);
+        const prompt = `${formatCommitInstructions(config.commitMessageConvention, config.commitSubjectMaxLength)}\n\nDiff:\n${this._fitDiff(diff, folder)}`;
+        const response = await this._executePrompt(['commit-message'], prompt, { token, folder });
+        return normalizeCommitMessage(response, config.commitSubjectMaxLength);
+    }
+
+    /**
+     * Reviews a `git diff` of the repository at `root` and returns the findings
+     * on lines of the new version.
+     */
+    async reviewDiff(diff: string, root: vscode.Uri, token?: vscode.CancellationToken): Promise<ReviewFinding[]> {
+        const folder = this._folderForRepository(root);
+        const prompt = `${formatReviewInstructions()}\n\nDiff:\n${this._fitDiff(numberUnifiedDiff(diff), folder)}`;
+        const response = await this._executePrompt(['prompt'], prompt, { token, folder });
+        return parseReviewFindings(response);
+    }
+
+    /**
+     * Audits the `focus` files among the given Solidity context files, which
+     * also carry their dependencies. `categories` narrows what to look for and
+     * `notes` passes on the user's own instructions.
+     */
+    async findVulnerabilities(
+        contextFiles: ContextFile[],
+        focus: string[],
+        token?: vscode.CancellationToken,
+        categories?: string[],
+        notes?: string
+    ): Promise<SolidityFinding[]> {
+        const instructions = formatVulnerabilityInstructions(focus, categories, notes);
+        const contextContent = await this._buildContextContent(contextFiles, instructions);
+        const response = await this._executePrompt(['prompt'], `Context:\n${contextContent}\n\n${instructions}`, { token, folder: this._folderFor(contextFiles) });
+        return parseSolidityFindings(response);
+    }
+
+    /**
+     * Analyzes a folder and returns the CLI's structured report: languages,
+     * dependency graph, hotspots and issues.
+     */
+    async analyzeProject(root: string, token?: vscode.CancellationToken): Promise<ProjectAnalysis> {
+        const folder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(root));
+        const output = await this._executeCommand(['analyze', root, '--format', 'json'], { token, folder });
+        return parseProjectAnalysis(output, root);
+    }
+
+    /**
+     * Fits the context files to the token budget. Problems are appended after
+     * fitting: they are short and are what the user is asking about.
+     */
+    private async _buildContextContent(contextFiles: ContextFile[], query: string, diagnostics: ContextDiagnostic[] = []): Promise<string> {
+        const folder = this._folderFor(contextFiles);
+        const { content, report } = await this._contextBudgetService.fit(contextFiles, query, this._modelManager.getModelFor(folder?.uri), folder?.uri);
+        if (report.trimmed.length > 0) {
+            this._onDidTrimContext.fire(report);
         }
-        return this._executeCommand(args);
+        if (diagnostics.length === 0) {
+            return content;
+        }
+        return [content, formatDiagnostics(diagnostics)].filter(Boolean).join('\n\n---\n\n');
     }
 
-    private _buildContextContent(contextFiles: ContextFile[]): string {
-        return contextFiles
-            .filter(f => f.isActive && f.content)
-            .map(f => `// File: ${f.relativePath}\n${f.content}`)
-            .join('\n\n---\n\n');
+    /**
+     * Cuts a diff down to the context budget. The start of a diff names the
+     * files and is usually enough to go on.
+     */
+    private _fitDiff(diff: string, folder?: vscode.WorkspaceFolder): string {
+        const budget = this._configManager.getContextBudget(this._modelManager.getModelFor(folder?.uri), folder?.uri);
+        return estimateTokens(diff) > budget ? `${diff.slice(0, tokensToChars(budget))}\n[diff truncated]` : diff;
     }
 
-    private async _executeCommand(args: string[]): Promise<string> {
-        const config = this._configManager.getConfig();
-        const cliPath = config.cliPath || 'codeforgeai';
-        const command = `${cliPath} ${args.join(' ')}`;
-        
-        try {
-            const { stdout, stderr } = await execAsync(command, {
-                timeout: config.timeout || 30000,
-                cwd: vscode.workspace.workspaceFolders?.[0]?.uri.fsPath
-            });
-            
-            if (stderr && !stdout) {
-                throw new Error(stderr);
-            }
-            
-            return stdout || stderr || 'Command executed successfully';
-        } catch (error) {
-            if (error instanceof Error) {
-                throw new Error(`CodeForgeAI CLI error: ${error.message}`);
+    /**
+     * The workspace folder a repository belongs to: the one it is in, or the
+     * first one inside it when the repository root is above the workspace.
+     */
+    private _folderForRepository(root: vscode.Uri): vscode.WorkspaceFolder | undefined {
+        return vscode.workspace.getWorkspaceFolder(root)
+            ?? vscode.workspace.workspaceFolders?.find(folder => folder.uri.path.startsWith(`${root.path.replace(/\/$/, '')}/`));
+    }
+
+    /**
+     * The workspace folder most of the active context files are in, so the CLI
+     * runs where the code it is asked about lives.
+     */
+    private _folderFor(contextFiles: ContextFile[]): vscode.WorkspaceFolder | undefined {
+        const counts = new Map<number, number>();
+        for (const file of contextFiles.filter(f => f.isActive)) {
+            const folder = vscode.workspace.getWorkspaceFolder(file.uri);
+            if (folder) {
+                counts.set(folder.index, (counts.get(folder.index) ?? 0) + 1);
             }
-            throw new Error('Unknown error executing CodeForgeAI CLI');
         }
+        const [index] = [...counts].sort(([, a], [, b]) => b - a)[0] ?? [];
+        return index !== undefined ? vscode.workspace.workspaceFolders?.[index] : this._configManager.getActiveFolder();
+    }
+
+    /**
+     * Runs a command whose last argument is free-form text. The text is always
+     * piped through stdin, with `-` in its place, so a prompt starting with `-`
+     * cannot be read as an option and its length is not limited by the command
+     * line. The project's custom instructions go ahead of the prompt.
+     */
+    private _executePrompt(args: string[], prompt: string, options: ExecuteOptions = {}): Promise<string> {
+        const instructions = this._configManager.getConfig(options.folder?.uri).customInstructions;
+        if (instructions) {
+            prompt = `Project instructions:\n${instructions}\n\n${prompt}`;
+        }
+
+        return this._executeCommand([...args, '-'], { ...options, input: prompt });
     }
 
-    private async _createTempContext(contextFiles: ContextFile[]): Promise<string> {
+    /**
+     * Spawns the CLI directly with an argv array. No shell is involved, so
+     * arguments are passed through verbatim regardless of quotes or `$()`.
+     */
+    private _executeCommand(args: string[], options: ExecuteOptions = {}): Promise<string> {
+        const { onOutput, token, input } = options;
+        const folder = options.folder ?? this._configManager.getActiveFolder();
+        const config = this._configManager.getConfig(folder?.uri);
+        const cliPath = config.cliPath || 'codeforgeai';
+        const timeout = config.timeout || 30000;
+
+        // Every subcommand takes the model right after its name
+        const model = this._modelManager.getModelFor(folder?.uri);
+        if (model) {
+            args = [args[0], '--model', model, ...args.slice(1)];
+        }
+
+        if (token?.isCancellationRequested) {
+            return Promise.reject(new vscode.CancellationError());
+        }
+
+        return new Promise((resolve, reject) => {
+            let stdout = '';
+            let stderr = '';
+            let settled = false;
+
+            // Own process group on POSIX so the CLI and everything it started can be killed together
+            const child = spawn(cliPath, args, {
+                shell: false,
+                detached: process.platform !== 'win32',
+                cwd: folder?.uri.fsPath
+            });
+
+            const settle = (error?: Error) => {
+                if (settled) {
+                    return false;
+                }
+                settled = true;
+                clearTimeout(timer);
+                cancellation?.dispose();
+                if (error) {
+                    reject(error);
+                }
+                return true;
+            };
+
+            const fail = (message: string) => settle(new Error(`CodeForgeAI CLI error: ${message}`));
+
+            // An inactivity timeout: a streaming answer may take longer than `timeout` as long as output keeps coming
+            const timer = setTimeout(() => {
+                killProcessTree(child);
+                fail(`Command produced no output for ${timeout}ms`);
+            }, timeout);
+
+            const cancellation = token?.onCancellationRequested(() => {
+                killProcessTree(child);
+                settle(new vscode.CancellationError());
+            });
+
+            child.stdout.setEncoding('utf8');
+            child.stdout.on('data', (chunk: string) => {
+                timer.refresh();
+                stdout += chunk;
+                onOutput?.(chunk);
+            });
+
+            child.stderr.setEncoding('utf8');
+            child.stderr.on('data', (chunk: string) => {
+                stderr += chunk;
+            });
+
+            child.on('error', error => fail(error.message));
+
+            // The CLI may exit before reading all of stdin; the exit code is what matters
+            child.stdin.on('error', () => undefined);
+            child.stdin.end(input);
+
+            child.on('close', code => {
+                if (settled) {
+                    return;
+                }
+                if (code !== 0 && code !== null) {
+                    fail(stderr || `Command failed with exit code ${code}`);
+                    return;
+                }
+                if (stderr && !stdout) {
+                    fail(stderr);
+                    return;
+                }
+                settle();
+                resolve(stdout || stderr || 'Command executed successfully');
+            });
+        });
+    }
+
+    /**
+     * Copies the files to a temporary folder for the CLI to edit. Returns the
+     * files by the path of their copy, which is how edits are matched back.
+     */
+    private async _createTempContext(contextFiles: ContextFile[]): Promise<{ tempDir: string; files: Map<string, ContextFile> }> {
         const tempDir = path.join(require('os').tmpdir(), 'codeforgex-' + Date.now());
         await fs.promises.mkdir(tempDir, { recursive: true });
+        const files = new Map<string, ContextFile>();
         
         for (const file of contextFiles) {
             if (file.content) {
-                const filePath = path.join(tempDir, file.relativePath);
+                let filePath = path.join(tempDir, file.relativePath);
+                // Files at the same path in different workspace folders each get their own copy
+                for (let copy = 1; files.has(filePath); copy++) {
+                    filePath = path.join(tempDir, `copy-${copy}`, file.relativePath);
+                }
+                files.set(filePath, file);
                 await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
                 await fs.promises.writeFile(filePath, file.content);
             }
         }
         
-        return tempDir;
+        return { tempDir, files };
     }
 
-    private async _handleEditResults(tempDir: string, originalFiles: ContextFile[]): Promise<void> {
+    private async _handleEditResults(tempDir: string, originalFiles: Map<string, ContextFile>): Promise<void> {
         // Look for .codeforgedit files
         const editFiles = await this._findEditFiles(tempDir);
         
@@ -130,10 +493,15 @@ export class CodeForgeService {
                 'Cancel'
             );
             
+            // Read the proposals now; the temp directory is removed once this returns
+            const edits = await this._loadProposedEdits(editFiles, originalFiles);
+
             if (action === 'Apply All') {
-                await this._applyAllEdits(editFiles, originalFiles);
+                if (await this._editReviewService.applyAll(edits)) {
+                    vscode.window.showInformationMessage('All edits applied successfully!');
+                }
             } else if (action === 'Review Each') {
-                await this._reviewEdits(editFiles, originalFiles);
+                await this._editReviewService.review(edits);
             }
         }
     }
@@ -159,31 +527,22 @@ export class CodeForgeService {
         return editFiles;
     }
 
-    private async _applyAllEdits(editFiles: string[], originalFiles: ContextFile[]): Promise<void> {
+    private async _loadProposedEdits(editFiles: string[], originalFiles: Map<string, ContextFile>): Promise<ProposedEdit[]> {
+        const edits: ProposedEdit[] = [];
+
         for (const editFile of editFiles) {
-            const originalPath = editFile.replace('.codeforgedit', '');
-            const originalFile = originalFiles.find(f => originalPath.endsWith(f.relativePath));
+            const originalFile = originalFiles.get(editFile.replace(/\.codeforgedit$/, ''));
             
             if (originalFile) {
-                const editedContent = await fs.promises.readFile(editFile, 'utf8');
-                const document = await vscode.workspace.openTextDocument(originalFile.uri);
-                const edit = new vscode.WorkspaceEdit();
-                const fullRange = new vscode.Range(
-                    document.positionAt(0),
-                    document.positionAt(document.getText().length)
-                );
-                edit.replace(originalFile.uri, fullRange, editedContent);
-                await vscode.workspace.applyEdit(edit);
+                edits.push({
+                    uri: originalFile.uri,
+                    relativePath: originalFile.relativePath,
+                    content: await fs.promises.readFile(editFile, 'utf8')
+                });
             }
         }
-        
-        vscode.window.showInformationMessage('All edits applied successfully!');
-    }
 
-    private async _reviewEdits(editFiles: string[], originalFiles: ContextFile[]): Promise<void> {
-        // Implementation for reviewing edits one by one
-        // This would show diff views for each edited file
-        vscode.window.showInformationMessage('Review mode not yet implemented');
+        return edits;
     }
 
     private async _cleanupTempDir(tempDir: string): Promise<void> {
@@ -0,0 +1,187 @@
+import * as vscode from 'vscode';
+import { ContextBudgetReport, ContextFile, ContextTrim } from '../types';
+import { ConfigurationManager } from '../managers/ConfigurationManager';
+import { estimateTokens, tokensToChars } from '../utils/tokens';
+import { CONTEXT_FILE_SEPARATOR, contextComment, formatContextFile } from '../utils/context';
+
+export interface BudgetedContext {
+    content: string;
+    report: ContextBudgetReport;
+}
+
+interface FittedFile {
+    file: ContextFile;
+    content: string;
+}
+
+// Files that would get less than this are dropped rather than cut to a useless stub
+const MIN_FILE_TOKENS = 64;
+
+/**
+ * Fits context files into the configured token budget. The strategy is
+ * deterministic: inactive files are never sent, the budget is shared out
+ * smallest-file-first, and files over their share are cut down to the symbols
+ * the query mentions or, failing that, to their head and tail. Each file's
+ * header and separator count against the budget along with its content.
+ */
+export class ContextBudgetService {
+    constructor(private _configManager: ConfigurationManager) {}
+
+    async fit(contextFiles: ContextFile[], query: string, model?: string, scope?: vscode.Uri): Promise<BudgetedContext> {
+        const budget = Math.max(0, this._configManager.getContextBudget(model, scope) - estimateTokens(query));
+        const trimmed: ContextTrim[] = [];
+
+        // Smallest first so small files are kept whole; ties broken by path for a stable order
+        const candidates = contextFiles
+            .filter(f => f.isActive && f.content)
+            .sort((a, b) => a.content!.length - b.content!.length || a.relativePath.localeCompare(b.relativePath));
+
+        // Drop the largest files until everyone left gets a usable share
+        const total = candidates.reduce((sum, f) => sum + this._cost(f, f.content!), 0);
+        const contentBudget = () => budget - candidates.reduce((sum, f) => sum + this._cost(f, ''), 0);
+        while (total > budget && candidates.length > 0 && contentBudget() / candidates.length < MIN_FILE_TOKENS) {
+            const dropped = candidates.pop()!;
+            trimmed.push({
+                relativePath: dropped.relativePath,
+                action: 'dropped',
+                originalTokens: estimateTokens(dropped.content!),
+                keptTokens: 0
+            });
+        }
+
+        const fitted: FittedFile[] = [];
+        let remaining = budget;
+
+        for (let index = 0; index < candidates.length; index++) {
+            const file = candidates[index];
+            const tokens = estimateTokens(file.content!);
+            const share = Math.floor(remaining / (candidates.length - index));
+
+            const cost = this._cost(file, file.content!);
+            if (cost <= share) {
+                fitted.push({ file, content: file.content! });
+                remaining -= cost;
+                continue;
+            }
+
+            const trim = await this._trimFile(file, query, Math.max(0, share - this._cost(file, '')));
+            fitted.push({ file, content: trim.content });
+            trimmed.push({
+                relativePath: file.relativePath,
+                action: trim.action,
+                originalTokens: tokens,
+                keptTokens: estimateTokens(trim.content)
+            });
+            remaining -= this._cost(file, trim.content);
+        }
+
+        // Restore the order the user added files in
+        fitted.sort((a, b) => contextFiles.indexOf(a.file) - contextFiles.indexOf(b.file));
+
+        return {
+            content: fitted
+                .map(f => formatContextFile(f.file, f.content))
+                .join(CONTEXT_FILE_SEPARATOR),
+            report: {
+                budget,
+                usedTokens: budget - remaining,
+                trimmed
+            }
+        };
+    }
+
+    /**
+     * Tokens a file takes in the context: its header, the content and, to keep
+     * the sum within budget without knowing the final order, a separator.
+     */
+    private _cost(file: ContextFile, content: string): number {
+        return estimateTokens(formatContextFile(file, content) + CONTEXT_FILE_SEPARATOR);
+    }
+
+    private async _trimFile(file: ContextFile, query: string, tokens: number): Promise<{ content: string; action: 'symbols' | 'truncated' }> {
+        const lines = file.content!.split(/\r?\n/);
+
+        // Symbol ranges are in whole-file coordinates, so they only apply to whole-file entries
+        const symbolContent = file.range ? undefined : await this._relevantSymbolContent(file, lines, query);
+        if (symbolContent && estimateTokens(symbolContent) <= tokens) {
+            return { content: symbolContent, action: 'symbols' };
+        }
+
+        return { content: this._headAndTail(file, lines, tokens), action: 'truncated' };
+    }
+
+    /**
+     * Source of the document symbols whose names appear in the query, each
+     * prefixed with its line range.
+     */
+    private async _relevantSymbolContent(file: ContextFile, lines: string[], query: string): Promise<string | undefined> {
+        const words = new Set(query.match(/[A-Za-z_$][\w$]*/g) ?? []);
+        if (words.size === 0) {
+            return undefined;
+        }
+
+        let symbols: (vscode.DocumentSymbol | vscode.SymbolInformation)[] | undefined;
+        try {
+            symbols = await vscode.commands.executeCommand<(vscode.DocumentSymbol | vscode.SymbolInformation)[]>(
+                'vscode.executeDocumentSymbolProvider',
+                file.uri
+            );
+        } catch (error) {
+            return undefined;
+        }
+
+        const ranges: vscode.Range[] = [];
+        const visit = (symbol: vscode.DocumentSymbol | vscode.SymbolInformation) => {
+            const range = 'range' in symbol ? symbol.range : symbol.location.range;
+            if (words.has(symbol.name)) {
+                ranges.push(range);
+                return;
+            }
+            if ('children' in symbol) {
+                symbol.children.forEach(visit);
+            }
+        };
+        (symbols ?? []).forEach(visit);
+
+        if (ranges.length === 0) {
+            return undefined;
+        }
+
+        return ranges
+            .sort((a, b) => a.start.line - b.start.line)
+            .map(range => `${contextComment(file.relativePath, `Lines ${range.start.line + 1}-${range.end.line + 1}`)}\n${lines.slice(range.start.line, range.end.line + 1).join('\n')}`)
+            .join('\n\n');
+    }
+
+    /**
+     * Keeps whole lines from the start (two thirds of the budget) and the end
+     * (one third), marking the gap in the file's comment syntax.
+     */
+    private _headAndTail(file: ContextFile, lines: string[], tokens: number): string {
+        const chars = tokensToChars(tokens) - 64;
+        const head: string[] = [];
+        const tail: string[] = [];
+        let headChars = 0;
+        let tailChars = 0;
+
+        for (const line of lines) {
+            if (headChars + line.length + 1 > chars * 2 / 3) {
+                break;
+            }
+            head.push(line);
+            headChars += line.length + 1;
+        }
+
+        for (let index = lines.length - 1; index >= head.length; index--) {
+            const line = lines[index];
+            if (headChars + tailChars + line.length + 1 > chars) {
+                break;
+            }
+            tail.unshift(line);
+            tailChars += line.length + 1;
+        }
+
+        const omitted = lines.length - head.length - tail.length;
+        return [...head, contextComment(file.relativePath, `... ${omitted} lines omitted to fit the context budget ...`), ...tail].join('\n');
+    }
+}
@@ -0,0 +1,354 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { spawn } from 'child_process';
+import { ContractTestRun } from '../types';
+import { ConfigurationManager } from '../managers/ConfigurationManager';
+import { SolidityProject, SolidityService } from './SolidityService';
+import { abiSelector, abiSignature, parseContractArtifact } from '../utils/abi';
+import {
+    decodeRevertData,
+    formatCallTrace,
+    formatContractTestRun,
+    parseCallFrame,
+    parseForgeTestResults,
+    parseGasReport,
+    parseHardhatTestResults,
+    parseStructTrace,
+    parseTransactionReceipt,
+    stripAnsi
+} from '../utils/contractTests';
+import { asArray, isRecord } from '../utils/json';
+import { killProcessTree } from '../utils/process';
+
+export interface ContractTestOptions {
+    /** Test file to run; all tests run otherwise. */
+    file?: vscode.Uri;
+    /** Only run tests whose name matches. */
+    match?: string;
+    /** Rerun failing Foundry tests with -vvvv to capture their traces. */
+    traces?: boolean;
+}
+
+interface ProcessResult {
+    stdout: string;
+    output: string;
+    exitCode: number | null;
+}
+
+/**
+ * Runs Foundry and Hardhat test suites for Agent mode and reads their results,
+ * and traces transactions on a local devnet (anvil or a Hardhat node). Output
+ * goes to the CodeForgeX Tests channel.
+ */
+export class ContractTestService implements vscode.Disposable {
+    private static readonly MAX_TRACE_CHARS = 8000;
+    private static readonly MAX_ERROR_CHARS = 4000;
+    // Artifacts read to name selectors in traces
+    private static readonly MAX_SIGNATURE_ARTIFACTS = 200;
+    private static readonly LOOPBACK_HOSTS = ['localhost', '127.0.0.1', '[::1]'];
+
+    private readonly _output = vscode.window.createOutputChannel('CodeForgeX Tests');
+
+    constructor(
+        private readonly _configManager: ConfigurationManager,
+        private readonly _solidityService: SolidityService
+    ) {}
+
+    dispose(): void {
+        this._output.dispose();
+    }
+
+    /**
+     * The Foundry or Hardhat project a test file or folder belongs to, or the
+     * first one in the workspace.
+     */
+    async findTestProject(target?: vscode.Uri): Promise<SolidityProject & { framework: NonNullable<SolidityProject['framework']> }> {
+        let probe = target;
+        if (target && (await vscode.workspace.fs.stat(target)).type & vscode.FileType.Directory) {
+            // findProject starts looking in the folder of the file it is given
+            probe = vscode.Uri.joinPath(target, 'foundry.toml');
+        }
+        if (!probe) {
+            const [config] = await vscode.workspace.findFiles('**/{foundry.toml,hardhat.config.{ts,js,cjs,mjs}}', '**/node_modules/**', 1);
+            probe = config;
+        }
+
+        const project = probe ? await this._solidityService.findProject(probe) : undefined;
+        if (!project?.framework) {
+            throw new Error('No Foundry (foundry.toml) or Hardhat (hardhat.config.*) project was found');
+        }
+        return { ...project, framework: project.framework };
+    }
+
+    /**
+     * Runs the tests of a project and reads pass/fail, revert reasons and gas
+     * from the output.
+     */
+    async runTests(project: SolidityProject, options: ContractTestOptions, token?: vscode.CancellationToken): Promise<ContractTestRun> {
+        const cwd = project.root.fsPath;
+        const file = options.file ? path.relative(cwd, options.file.fsPath) : undefined;
+        this._output.show(true);
+
+        if (project.framework === 'hardhat') {
+            const args = ['test', ...(file ? [file] : []), ...(options.match ? ['--grep', options.match] : [])];
+            const cli = await this._findHardhatCli(project.root);
+            const result = await this._run('node', [cli, ...args], cwd, { REPORT_GAS: 'true' }, token);
+            const tests = parseHardhatTestResults(result.output);
+            return this._finish({
+                framework: 'hardhat',
+                command: `hardhat ${args.join(' ')}`,
+                cwd: vscode.workspace.asRelativePath(project.root),
+                exitCode: result.exitCode,
+                tests: tests ?? [],
+                gasReport: parseGasReport(result.output),
+                error: tests ? undefined : this._tail(result.output)
+            });
+        }
+
+        const filters = [...(file ? ['--match-path', file] : []), ...(options.match ? ['--match-test', options.match] : [])];
+        const args = ['test', '--json', ...filters];
+        const result = await this._run('forge', args, cwd, {}, token, false);
+        const tests = parseForgeTestResults(result.stdout);
+        const run: ContractTestRun = {
+            framework: 'foundry',
+            command: `forge ${args.join(' ')}`,
+            cwd: vscode.workspace.asRelativePath(project.root),
+            exitCode: result.exitCode,
+            tests: tests ?? [],
+            gasReport: [],
+            error: tests ? undefined : this._tail(result.output)
+        };
+
+        const failing = [...new Set(run.tests.filter(test => test.status === 'failed').map(test => test.name.replace(/\(.*$/, '')))];
+        if (options.traces && failing.length > 0) {
+            const traceArgs = ['test', ...(file ? ['--match-path', file] : []), '--match-test', `^(${failing.join('|')})$`, '-vvvv'];
+            const traced = stripAnsi((await this._run('forge', traceArgs, cwd, {}, token)).output);
+            const start = traced.indexOf('Traces:');
+            run.traces = traced.slice(start === -1 ? 0 : start, (start === -1 ? 0 : start) + ContractTestService.MAX_TRACE_CHARS);
+        }
+        return this._finish(run);
+    }
+
+    /**
+     * Traces a transaction on the local devnet with the call tracer, falling
+     * back to the default tracer for nodes without it. Without a hash, the
+     * last transaction of the latest block is traced.
+     */
+    async traceTransaction(hash?: string, rpcUrl?: string, token?: vscode.CancellationToken): Promise<string> {
+        const url = rpcUrl ?? this._configManager.getConfig().devnetRpcUrl;
+        // Addresses the model supplies must stay on this machine
+        if (rpcUrl && !ContractTestService.LOOPBACK_HOSTS.includes(new URL(rpcUrl).hostname)) {
+            throw new Error(`${rpcUrl} is not a local devnet; only localhost URLs can be traced`);
+        }
+
+        if (!hash) {
+            const block = await this._rpc(url, 'eth_getBlockByNumber', ['latest', false], token);
+            const last = (isRecord(block) ? asArray(block.transactions) : []).at(-1);
+            hash = typeof last === 'string' ? last : undefined;
+            if (!hash) {
+                throw new Error('The latest block has no transactions; pass the hash of the transaction to trace');
+            }
+        }
+
+        const receipt = parseTransactionReceipt(await this._rpc(url, 'eth_getTransactionReceipt', [hash], token));
+        if (!receipt) {
+            throw new Error(`Transaction ${hash} was not found on ${url}`);
+        }
+        const signatures = await this._signatures();
+        const header = [
+            `Transaction ${hash} in block ${receipt.blockNumber}: ${receipt.succeeded ? 'succeeded' : 'reverted'}, gas used ${receipt.gasUsed}`,
+            receipt.contractAddress ? `Deployed ${receipt.contractAddress}` : '',
+            `${receipt.logCount} log(s) emitted`
+        ].filter(Boolean).join('\n');
+
+        let body: string;
+        try {
+            const frame = parseCallFrame(await this._rpc(url, 'debug_traceTransaction', [hash, { tracer: 'callTracer' }], token));
+            if (!frame) {
+                throw new Error('The call tracer returned no call frame');
+            }
+            body = formatCallTrace(frame, signatures);
+        } catch (error) {
+            if (error instanceof vscode.CancellationError) {
+                throw error;
+            }
+            const trace = parseStructTrace(await this._rpc(url, 'debug_traceTransaction', [hash, { disableStorage: true, disableMemory: true, disableStack: true }], token));
+            if (!trace) {
+                throw new Error(`The devnet at ${url} returned no trace for ${hash}`);
+            }
+            const steps = trace.steps;
+            const reason = trace.failed ? decodeRevertData(`0x${trace.returnValue.replace(/^0x/, '')}`, signatures) : undefined;
+            body = [
+                `${steps.length} steps${trace.failed ? `, reverted${reason ? `: ${reason}` : ''}` : ''}`,
+                'Last steps:',
+                ...steps.slice(-10).map(step => `  depth ${step.depth} pc ${step.pc} ${step.op}`)
+            ].join('\n');
+        }
+
+        const trace = `${header}\n\n${body}`;
+        this._output.appendLine(`\n[trace] ${hash}\n${trace}`);
+        return trace;
+    }
+
+    /**
+     * The project's own Hardhat CLI script, run with node rather than through
+     * npx: npx is a batch file on Windows, which only runs through a shell.
+     * Hoisted installs keep it in a parent folder's node_modules.
+     */
+    private async _findHardhatCli(root: vscode.Uri): Promise<string> {
+        let directory = root.fsPath;
+        while (true) {
+            const manifest = path.join(directory, 'node_modules', 'hardhat', 'package.json');
+            try {
+                const { bin } = JSON.parse(new TextDecoder().decode(await vscode.workspace.fs.readFile(vscode.Uri.file(manifest))));
+                const script = typeof bin === 'string' ? bin : bin?.hardhat;
+                if (typeof script === 'string') {
+                    return path.join(path.dirname(manifest), script);
+                }
+            } catch (error) {
+                // Not installed here
+            }
+
+            const parent = path.dirname(directory);
+            if (parent === directory) {
+                throw new Error('Hardhat is not installed in this project; run npm install first');
+            }
+            directory = parent;
+        }
+    }
+
+    private _finish(run: ContractTestRun): ContractTestRun {
+        this._output.appendLine(`\n${formatContractTestRun(run)}`);
+        return run;
+    }
+
+    /**
+     * Runs a test command, mirroring its output in the channel. `echoStdout`
+     * is off for forge's JSON, which is summarized once parsed instead.
+     */
+    private _run(
+        command: string,
+        args: string[],
+        cwd: string,
+        env: Record<string, string>,
+        token?: vscode.CancellationToken,
+        echoStdout = true
+    ): Promise<ProcessResult> {
+        if (token?.isCancellationRequested) {
+            return Promise.reject(new vscode.CancellationError());
+        }
+
+        this._output.appendLine(`\n> ${command} ${args.join(' ')} (in ${cwd})`);
+        return new Promise((resolve, reject) => {
+            let stdout = '';
+            let output = '';
+            let settled = false;
+
+            const child = spawn(command, args, {
+                cwd,
+                env: { ...process.env, FORCE_COLOR: '0', NO_COLOR: '1', ...env },
+                detached: process.platform !== 'win32'
+            });
+
+            const settle = (error?: Error) => {
+                if (settled) {
+                    return;
+                }
+                settled = true;
+                clearTimeout(timer);
+                cancellation?.dispose();
+                if (error) {
+                    reject(error);
+                } else {
+                    resolve({ stdout, output, exitCode: child.exitCode });
+                }
+            };
+
+            const timeout = this._configManager.getConfig().contractTestTimeout;
+            const timer = setTimeout(() => {
+                killProcessTree(child);
+                settle(new Error(`The test run timed out after ${timeout}ms`));
+            }, timeout);
+
+            const cancellation = token?.onCancellationRequested(() => {
+                killProcessTree(child);
+                settle(new vscode.CancellationError());
+            });
+
+            child.stdout.setEncoding('utf8');
+            child.stdout.on('data', (chunk: string) => {
+                stdout += chunk;
+                output += chunk;
+                if (echoStdout) {
+                    this._output.append(stripAnsi(chunk));
+                }
+            });
+
+            child.stderr.setEncoding('utf8');
+            child.stderr.on('data', (chunk: string) => {
+                output += chunk;
+                this._output.append(stripAnsi(chunk));
+            });
+
+            child.on('error', error => settle(new Error(`Could not run ${command}: ${error.message}`)));
+            child.on('close', () => settle());
+        });
+    }
+
+    private async _rpc(url: string, method: string, params: unknown[], token?: vscode.CancellationToken): Promise<unknown> {
+        const controller = new AbortController();
+        const cancellation = token?.onCancellationRequested(() => controller.abort());
+        try {
+            let response: Response;
+            try {
+                response = await fetch(url, {
+                    method: 'POST',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify({ jsonrpc: '2.0', id: 1, method, params }),
+                    signal: controller.signal
+                });
+            } catch (error) {
+                if (token?.isCancellationRequested) {
+                    throw new vscode.CancellationError();
+                }
+                throw new Error(`Could not reach the devnet at ${url}. Start anvil or npx hardhat node, or set codeforgex.devnetRpcUrl`);
+            }
+
+            const body: unknown = await response.json();
+            if (!isRecord(body)) {
+                throw new Error(`${method} returned no JSON-RPC response`);
+            }
+            if (body.error) {
+                const message = isRecord(body.error) && typeof body.error.message === 'string' ? body.error.message : JSON.stringify(body.error);
+                throw new Error(`${method} failed: ${message}`);
+            }
+            return body.result;
+        } finally {
+            cancellation?.dispose();
+        }
+    }
+
+    /**
+     * Function and error signatures by selector, from the compiled artifacts.
+     */
+    private async _signatures(): Promise<Map<string, string>> {
+        const signatures = new Map<string, string>();
+        const artifacts = (await this._solidityService.findArtifacts()).slice(0, ContractTestService.MAX_SIGNATURE_ARTIFACTS);
+        for (const uri of artifacts) {
+            try {
+                const artifact = parseContractArtifact(new TextDecoder().decode(await vscode.workspace.fs.readFile(uri)), path.basename(uri.path, '.json'));
+                artifact?.abi
+                    .filter(entry => entry.type === 'function' || entry.type === 'error')
+                    .forEach(entry => signatures.set(abiSelector(entry), abiSignature(entry)));
+            } catch (error) {
+                // Unreadable artifacts just leave selectors unnamed
+            }
+        }
+        return signatures;
+    }
+
+    private _tail(output: string): string {
+        const text = stripAnsi(output).trim();
+        return text.length > ContractTestService.MAX_ERROR_CHARS ? `…${text.slice(-ContractTestService.MAX_ERROR_CHARS)}` : text || 'No output';
+    }
+}
@@ -0,0 +1,221 @@
+import * as vscode from 'vscode';
+import { EditReviewResult, ProposedEdit } from '../types';
+import { DiffHunk, applyHunks, computeHunks } from '../utils/diff';
+
+interface ReviewDecision {
+    edit: ProposedEdit;
+    original: string;
+    /** The file does not exist yet and is created on apply. */
+    isNew: boolean;
+    hunks: DiffHunk[];
+}
+
+/**
+ * Presents CLI-proposed file contents as diffs and applies the accepted parts.
+ * Also serves the proposed side of those diffs as read-only virtual documents.
+ */
+export class EditReviewService implements vscode.TextDocumentContentProvider, vscode.Disposable {
+    static readonly SCHEME = 'codeforgex-proposed';
+
+    private _proposedContent = new Map<string, string>();
+    private _onDidChange = new vscode.EventEmitter<vscode.Uri>();
+
+    readonly onDidChange = this._onDidChange.event;
+
+    dispose(): void {
+        this._onDidChange.dispose();
+    }
+
+    provideTextDocumentContent(uri: vscode.Uri): string {
+        return this._proposedContent.get(uri.toString()) ?? '';
+    }
+
+    /**
+     * Replaces every edited file with its proposed content in a single WorkspaceEdit.
+     */
+    async applyAll(edits: ProposedEdit[]): Promise<boolean> {
+        const decisions: ReviewDecision[] = [];
+        for (const edit of edits) {
+            const { original, isNew } = await this._readOriginal(edit.uri);
+            decisions.push({ edit, original, isNew, hunks: computeHunks(original, edit.content) });
+        }
+        return this._apply(decisions);
+    }
+
+    /**
+     * Walks through each edited file in a diff editor, letting the user accept,
+     * reject or skip the file or pick individual hunks. Nothing is written until
+     * the review finishes; the accepted parts are then applied as one undoable edit.
+     */
+    async review(edits: ProposedEdit[]): Promise<EditReviewResult> {
+        const reviewId = Date.now().toString(36);
+        const accepted: ReviewDecision[] = [];
+        let rejected = 0;
+        let skipped = 0;
+
+        for (let index = 0; index < edits.length; index++) {
+            const edit = edits[index];
+            const { original, isNew } = await this._readOriginal(edit.uri);
+            const hunks = computeHunks(original, edit.content);
+
+            if (hunks.length === 0) {
+                continue;
+            }
+
+            const proposedUri = vscode.Uri.from({
+                scheme: EditReviewService.SCHEME,
+                path: '/' + edit.relativePath.replace(/\\/g, '/'),
+                query: reviewId
+            });
+            this._proposedContent.set(proposedUri.toString(), edit.content);
+            this._onDidChange.fire(proposedUri);
+
+            // A file that does not exist yet is compared against an empty document
+            const originalUri = isNew ? proposedUri.with({ query: `${reviewId}-empty` }) : edit.uri;
+
+            await vscode.commands.executeCommand(
+                'vscode.diff',
+                originalUri,
+                proposedUri,
+                `${edit.relativePath} ↔ CodeForgeX (${index + 1}/${edits.length})`,
+                { preview: true }
+            );
+
+            const action = await vscode.window.showQuickPick([
+                { label: '$(check) Accept', description: `Apply all ${hunks.length} change(s)`, action: 'accept' },
+                { label: '$(close) Reject', description: 'Discard the changes to this file', action: 'reject' },
+                { label: '$(list-selection) Choose Changes...', description: 'Accept individual hunks', action: 'hunks' },
+                { label: '$(debug-step-over) Skip', description: 'Leave this file unchanged for now', action: 'skip' },
+                { label: '$(debug-stop) Stop Reviewing', description: 'Skip the remaining files', action: 'stop' }
+            ], {
+                placeHolder: `Review ${edit.relativePath} (${index + 1}/${edits.length})`,
+                ignoreFocusOut: true
+            });
+
+            // Hunks are picked with the diff still open to compare them against
+            const chosen = action?.action === 'hunks' ? await this._pickHunks(edit, original, hunks) : [];
+
+            await this._closeDiff(proposedUri);
+            this._proposedContent.delete(proposedUri.toString());
+
+            switch (action?.action) {
+                case 'accept':
+                    accepted.push({ edit, original, isNew, hunks });
+                    break;
+                case 'reject':
+                    rejected++;
+                    break;
+                case 'hunks':
+                    if (chosen.length > 0) {
+                        accepted.push({ edit, original, isNew, hunks: chosen });
+                    } else {
+                        rejected++;
+                    }
+                    break;
+                case 'skip':
+                    skipped++;
+                    break;
+                default:
+                    // Stop Reviewing or the picker was dismissed
+                    skipped += edits.length - index;
+                    index = edits.length;
+            }
+        }
+
+        if (accepted.length > 0 && !(await this._apply(accepted))) {
+            return { applied: 0, rejected, skipped: skipped + accepted.length };
+        }
+
+        vscode.window.showInformationMessage(
+            `Review complete: ${accepted.length} file(s) updated, ${rejected} rejected, ${skipped} skipped`
+        );
+        return { applied: accepted.length, rejected, skipped };
+    }
+
+    private async _pickHunks(edit: ProposedEdit, original: string, hunks: DiffHunk[]): Promise<DiffHunk[]> {
+        const originalLines = original.split(/\r?\n/);
+        const items = hunks.map(hunk => {
+            const firstLine = hunk.originalStart + 1;
+            const lastLine = hunk.originalStart + Math.max(hunk.originalLength, 1);
+            const preview = hunk.modifiedLines[0] ?? originalLines[hunk.originalStart] ?? '';
+            return {
+                label: firstLine === lastLine ? `Line ${firstLine}` : `Lines ${firstLine}-${lastLine}`,
+                description: `-${hunk.originalLength} +${hunk.modifiedLines.length}`,
+                detail: preview.trim(),
+                picked: true,
+                hunk
+            };
+        });
+
+        const selected = await vscode.window.showQuickPick(items, {
+            placeHolder: `Select the changes to apply to ${edit.relativePath}`,
+            canPickMany: true,
+            ignoreFocusOut: true
+        });
+
+        return selected?.map(item => item.hunk) ?? [];
+    }
+
+    /**
+     * Applies the decisions as one edit, unless a file changed since its diff
+     * was computed: the hunks were chosen against the old text, and applying
+     * them would undo whatever was typed in the meantime.
+     */
+    private async _apply(decisions: ReviewDecision[]): Promise<boolean> {
+        const changed: string[] = [];
+        for (const { edit, original, isNew } of decisions) {
+            const current = await this._readOriginal(edit.uri);
+            if (current.isNew !== isNew || current.original !== original) {
+                changed.push(edit.relativePath);
+            }
+        }
+        if (changed.length > 0) {
+            vscode.window.showWarningMessage(
+                `${changed.join(', ')} changed during the review, so no edits were applied. Ask again to get edits for the current text.`
+            );
+            return false;
+        }
+
+        const workspaceEdit = new vscode.WorkspaceEdit();
+
+        for (const { edit, original, isNew, hunks } of decisions) {
+            if (isNew) {
+                workspaceEdit.createFile(edit.uri, { contents: Buffer.from(applyHunks(original, hunks)) });
+                continue;
+            }
+            const document = await vscode.workspace.openTextDocument(edit.uri);
+            const fullRange = new vscode.Range(
+                document.positionAt(0),
+                document.positionAt(document.getText().length)
+            );
+            workspaceEdit.replace(edit.uri, fullRange, applyHunks(original, hunks));
+        }
+
+        if (!await vscode.workspace.applyEdit(workspaceEdit)) {
+            vscode.window.showErrorMessage('Failed to apply the accepted edits');
+            return false;
+        }
+        return true;
+    }
+
+    private async _readOriginal(uri: vscode.Uri): Promise<{ original: string; isNew: boolean }> {
+        try {
+            await vscode.workspace.fs.stat(uri);
+        } catch (error) {
+            return { original: '', isNew: true };
+        }
+        const document = await vscode.workspace.openTextDocument(uri);
+        return { original: document.getText(), isNew: false };
+    }
+
+    private async _closeDiff(proposedUri: vscode.Uri): Promise<void> {
+        const tabs = vscode.window.tabGroups.all
+            .flatMap(group => group.tabs)
+            .filter(tab => tab.input instanceof vscode.TabInputTextDiff
+                && tab.input.modified.toString() === proposedUri.toString());
+
+        if (tabs.length > 0) {
+            await vscode.window.tabGroups.close(tabs);
+        }
+    }
+}
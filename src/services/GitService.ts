@@ -0,0 +1,142 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { execFile } from 'child_process';
+import { GitAPI, GitExtension, Repository } from '../types/git';
+
+export interface RepositoryChanges {
+    diff: string;
+    /** The diff is of the index rather than the working tree. */
+    staged: boolean;
+}
+
+/**
+ * Reaches repositories through the built-in git extension, so CodeForgeX sees
+ * the same repositories, index and input boxes as the Source Control view.
+ * Branch diffs run the extension's git executable directly, since its API
+ * only returns them file by file.
+ */
+export class GitService {
+    // Branch diffs can be large; anything past the context budget is cut off later anyway
+    private static readonly MAX_DIFF_BUFFER = 64 * 1024 * 1024;
+    private static readonly DEFAULT_BASES = ['main', 'master', 'origin/main', 'origin/master', 'develop', 'origin/develop'];
+
+    private _api?: GitAPI;
+
+    async getApi(): Promise<GitAPI> {
+        if (this._api) {
+            return this._api;
+        }
+
+        const extension = vscode.extensions.getExtension<GitExtension>('vscode.git');
+        if (!extension) {
+            throw new Error('The built-in Git extension is not installed');
+        }
+        const git = extension.isActive ? extension.exports : await extension.activate();
+        if (!git.enabled) {
+            throw new Error('The built-in Git extension is disabled (git.enabled)');
+        }
+
+        this._api = git.getAPI(1);
+        return this._api;
+    }
+
+    /**
+     * The repository behind an SCM title button, or one the user picks. With a
+     * single repository open there is nothing to pick.
+     */
+    async pickRepository(sourceControl?: vscode.SourceControl): Promise<Repository | undefined> {
+        const api = await this.getApi();
+        if (sourceControl?.rootUri) {
+            const repository = api.getRepository(sourceControl.rootUri);
+            if (repository) {
+                return repository;
+            }
+        }
+
+        const repositories = api.repositories;
+        if (repositories.length === 0) {
+            throw new Error('No Git repository is open');
+        }
+        if (repositories.length === 1) {
+            return repositories[0];
+        }
+
+        // Offer the repository of the active editor first
+        const activeUri = vscode.window.activeTextEditor?.document.uri;
+        const activeRepository = activeUri ? api.getRepository(activeUri) : null;
+        const ordered = activeRepository
+            ? [activeRepository, ...repositories.filter(repository => repository !== activeRepository)]
+            : repositories;
+
+        const picked = await vscode.window.showQuickPick(ordered.map(repository => ({
+            label: path.basename(repository.rootUri.fsPath),
+            description: vscode.workspace.asRelativePath(repository.rootUri),
+            detail: repository.state.HEAD?.name,
+            repository
+        })), { placeHolder: 'Select a repository' });
+        return picked?.repository;
+    }
+
+    /**
+     * The staged diff, or the working-tree diff when nothing is staged.
+     * Undefined when there are no changes at all.
+     */
+    async getChanges(repository: Repository): Promise<RepositoryChanges | undefined> {
+        const staged = await repository.diff(true);
+        if (staged.trim()) {
+            return { diff: staged, staged: true };
+        }
+
+        const workingTree = await repository.diff(false);
+        return workingTree.trim() ? { diff: workingTree, staged: false } : undefined;
+    }
+
+    /**
+     * Lets the user pick a branch to compare against. `preferred` (the last
+     * base used) is offered first, then the usual default branches.
+     */
+    async pickBase(repository: Repository, preferred?: string): Promise<string | undefined> {
+        const current = repository.state.HEAD?.name;
+        const names = [...new Set((await repository.getBranches({ remote: true }))
+            .map(ref => ref.name)
+            .filter((name): name is string => !!name && name !== current && !name.endsWith('/HEAD')))];
+
+        const rank = (name: string) => {
+            if (name === preferred) {
+                return -1;
+            }
+            const index = GitService.DEFAULT_BASES.indexOf(name);
+            return index === -1 ? GitService.DEFAULT_BASES.length : index;
+        };
+        names.sort((a, b) => rank(a) - rank(b) || a.localeCompare(b));
+
+        const picked = await vscode.window.showQuickPick(names.map(name => ({
+            label: name,
+            description: name === preferred ? 'last review' : undefined
+        })), { placeHolder: `Compare ${current ?? 'HEAD'} against` });
+        return picked?.label;
+    }
+
+    /**
+     * Diff of the working tree against the point where the current branch left
+     * `base`, like a pull request would show it, including uncommitted changes.
+     * Line numbers in it match the files as they are on disk.
+     */
+    async diffAgainst(repository: Repository, base: string): Promise<string> {
+        const mergeBase = (await this._git(repository, ['merge-base', base, 'HEAD'])).trim();
+        return this._git(repository, ['diff', '--no-color', '--no-ext-diff', mergeBase || base]);
+    }
+
+    private async _git(repository: Repository, args: string[]): Promise<string> {
+        const gitPath = (await this.getApi()).git.path;
+        return new Promise((resolve, reject) => {
+            execFile(gitPath, args, { cwd: repository.rootUri.fsPath, maxBuffer: GitService.MAX_DIFF_BUFFER }, (error, stdout, stderr) => {
+                if (error) {
+                    reject(new Error(stderr.trim() || error.message));
+                } else {
+                    resolve(stdout);
+                }
+            });
+        });
+    }
+}
@@ -0,0 +1,351 @@
+import * as vscode from 'vscode';
+import { CodeForgeService } from './CodeForgeService';
+import { DiffHunk, computeHunks, splitLines } from '../utils/diff';
+
+export type InlineEditAction = 'explain' | 'fix' | 'document' | 'refactor' | 'custom';
+
+interface InlinePreview {
+    document: vscode.TextDocument;
+    /** First line of the previewed block in the document. */
+    startLine: number;
+    lineCount: number;
+    /** Text that replaces the block on accept. */
+    proposed: string;
+    /** Changes relative to the block. */
+    hunks: DiffHunk[];
+    /** The whole document as it would read after accepting, for the diff view. */
+    diffUri: vscode.Uri;
+}
+
+/**
+ * Runs CodeForgeX edits on a range of the active editor and previews the
+ * result inline: replaced lines are struck through, the lines proposed in
+ * their place follow them as ghost text, and a CodeLens offers Accept, Reject
+ * and a full diff. The document itself is only changed on accept.
+ */
+export class InlineEditService implements vscode.CodeLensProvider, vscode.TextDocumentContentProvider, vscode.Disposable {
+    static readonly SCHEME = 'codeforgex-inline';
+
+    private static readonly PROGRESS_TITLES: Record<InlineEditAction, string> = {
+        explain: 'Explaining selection...',
+        fix: 'Fixing problem...',
+        document: 'Writing documentation...',
+        refactor: 'Refactoring...',
+        custom: 'Editing...'
+    };
+
+    private _previews = new Map<string, InlinePreview>();
+    private _applying = false;
+    private _onDidChangeCodeLenses = new vscode.EventEmitter<void>();
+    private _disposables: vscode.Disposable[] = [];
+
+    private readonly _addedDecoration = vscode.window.createTextEditorDecorationType({
+        after: {
+            color: new vscode.ThemeColor('editorGhostText.foreground'),
+            backgroundColor: new vscode.ThemeColor('diffEditor.insertedTextBackground'),
+            margin: '0 0 0 2em',
+            fontStyle: 'italic'
+        },
+        overviewRulerColor: new vscode.ThemeColor('editorOverviewRuler.addedForeground'),
+        overviewRulerLane: vscode.OverviewRulerLane.Left
+    });
+    private readonly _removedDecoration = vscode.window.createTextEditorDecorationType({
+        isWholeLine: true,
+        backgroundColor: new vscode.ThemeColor('diffEditor.removedLineBackground'),
+        textDecoration: 'line-through',
+        opacity: '0.7',
+        overviewRulerColor: new vscode.ThemeColor('editorOverviewRuler.deletedForeground'),
+        overviewRulerLane: vscode.OverviewRulerLane.Left
+    });
+
+    readonly onDidChangeCodeLenses = this._onDidChangeCodeLenses.event;
+
+    private _onDidChange = new vscode.EventEmitter<vscode.Uri>();
+    readonly onDidChange = this._onDidChange.event;
+
+    constructor(private readonly _codeForgeService: CodeForgeService) {
+        this._disposables.push(
+            vscode.workspace.onDidChangeTextDocument(e => this._onDocumentChanged(e)),
+            vscode.workspace.onDidCloseTextDocument(document => this._end(document.uri.toString())),
+            vscode.window.onDidChangeVisibleTextEditors(() => this._decorateAll())
+        );
+    }
+
+    dispose(): void {
+        this._disposables.forEach(disposable => disposable.dispose());
+        this._addedDecoration.dispose();
+        this._removedDecoration.dispose();
+        this._onDidChangeCodeLenses.dispose();
+        this._onDidChange.dispose();
+    }
+
+    /**
+     * The previewed document with the proposal applied, shown by Show Diff.
+     */
+    provideTextDocumentContent(uri: vscode.Uri): string {
+        const preview = [...this._previews.values()].find(candidate => candidate.diffUri.toString() === uri.toString());
+        if (!preview) {
+            return '';
+        }
+        const { document, startLine, lineCount, proposed } = preview;
+        const eol = this._eol(document);
+        const lines = splitLines(document.getText());
+        lines.splice(startLine, lineCount, ...splitLines(proposed));
+        return lines.join(eol);
+    }
+
+    /**
+     * Asks for a rewrite of the editor's selection (or the given range) and
+     * previews it. `instruction` is required for the `custom` action and adds
+     * detail to the others.
+     */
+    async run(
+        action: InlineEditAction,
+        editor: vscode.TextEditor,
+        range?: vscode.Range,
+        diagnostics: vscode.Diagnostic[] = [],
+        instruction?: string
+    ): Promise<void> {
+        const document = editor.document;
+        if (this._previews.has(document.uri.toString())) {
+            vscode.window.showWarningMessage('Accept or reject the current CodeForgeX preview in this file first');
+            return;
+        }
+
+        const target = this._toFullLines(document, range ?? this._defaultRange(editor, diagnostics));
+        const prompt = this._buildInstruction(action, document, diagnostics, instruction);
+        const version = document.version;
+
+        const proposed = await vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: `CodeForgeX: ${InlineEditService.PROGRESS_TITLES[action]}`,
+            cancellable: true
+        }, (_progress, token) => this._codeForgeService.rewriteCode(prompt, document, target, token));
+
+        if (document.version !== version) {
+            vscode.window.showWarningMessage('The file changed while CodeForgeX was working; the suggestion was discarded');
+            return;
+        }
+
+        await this._preview(editor, target, proposed);
+    }
+
+    async accept(uri?: vscode.Uri): Promise<void> {
+        const preview = this._findPreview(uri);
+        if (!preview) {
+            return;
+        }
+
+        const { document, startLine, lineCount, proposed } = preview;
+        const endLine = startLine + lineCount - 1;
+        const edit = new vscode.WorkspaceEdit();
+        edit.replace(document.uri, new vscode.Range(startLine, 0, endLine, document.lineAt(endLine).text.length), proposed);
+
+        this._applying = true;
+        try {
+            if (!await vscode.workspace.applyEdit(edit)) {
+                vscode.window.showErrorMessage('Could not apply the CodeForgeX suggestion');
+                return;
+            }
+        } finally {
+            this._applying = false;
+        }
+        this._end(document.uri.toString());
+    }
+
+    async reject(uri?: vscode.Uri): Promise<void> {
+        const preview = this._findPreview(uri);
+        if (preview) {
+            this._end(preview.document.uri.toString());
+        }
+    }
+
+    async showDiff(uri?: vscode.Uri): Promise<void> {
+        const preview = this._findPreview(uri);
+        if (preview) {
+            const name = vscode.workspace.asRelativePath(preview.document.uri);
+            await vscode.commands.executeCommand('vscode.diff', preview.document.uri, preview.diffUri, `${name} ↔ CodeForgeX`, { preview: true });
+        }
+    }
+
+    provideCodeLenses(document: vscode.TextDocument): vscode.CodeLens[] {
+        const preview = this._previews.get(document.uri.toString());
+        if (!preview) {
+            return [];
+        }
+
+        const range = new vscode.Range(preview.startLine, 0, preview.startLine, 0);
+        return [
+            new vscode.CodeLens(range, { title: '$(check) Accept', command: 'codeforgex.acceptInlineEdit', arguments: [document.uri] }),
+            new vscode.CodeLens(range, { title: '$(close) Reject', command: 'codeforgex.rejectInlineEdit', arguments: [document.uri] }),
+            new vscode.CodeLens(range, { title: '$(diff) Show Diff', command: 'codeforgex.showInlineEditDiff', arguments: [document.uri] })
+        ];
+    }
+
+    private _buildInstruction(action: InlineEditAction, document: vscode.TextDocument, diagnostics: vscode.Diagnostic[], instruction?: string): string {
+        const extra = instruction ? `\n${instruction}` : '';
+        switch (action) {
+            case 'explain':
+                return `Return the code unchanged, preceded by a concise comment that explains what it does and why. Use ${document.languageId} comment syntax.${extra}`;
+            case 'fix': {
+                const problems = diagnostics.map(diagnostic =>
+                    `- line ${diagnostic.range.start.line + 1}: ${diagnostic.message}${diagnostic.source ? ` (${diagnostic.source})` : ''}`);
+                return `Fix these problems, changing only what is needed:\n${problems.join('\n')}${extra}`;
+            }
+            case 'document':
+                return `Add ${InlineEditService.docStyle(document.languageId)} documentation comments to the declarations. Do not change the code itself.${extra}`;
+            case 'refactor':
+                return `Refactor the code to be clearer and simpler without changing its behavior.${extra}`;
+            case 'custom':
+                return instruction ?? '';
+        }
+    }
+
+    /**
+     * Documentation style named in action titles and prompts.
+     */
+    static docStyle(languageId: string): string {
+        switch (languageId) {
+            case 'solidity':
+                return 'NatSpec';
+            case 'javascript':
+            case 'javascriptreact':
+            case 'typescript':
+            case 'typescriptreact':
+                return 'JSDoc';
+            case 'python':
+                return 'docstring';
+            default:
+                return 'doc comment';
+        }
+    }
+
+    private _defaultRange(editor: vscode.TextEditor, diagnostics: vscode.Diagnostic[]): vscode.Range {
+        if (!editor.selection.isEmpty) {
+            return editor.selection;
+        }
+        if (diagnostics.length > 0) {
+            return diagnostics.map(diagnostic => diagnostic.range).reduce((union, range) => union.union(range));
+        }
+        return editor.document.lineAt(editor.selection.active.line).range;
+    }
+
+    private _toFullLines(document: vscode.TextDocument, range: vscode.Range): vscode.Range {
+        // A selection ending at column 0 does not include that line
+        const endLine = range.end.character === 0 && range.end.line > range.start.line ? range.end.line - 1 : range.end.line;
+        return new vscode.Range(range.start.line, 0, endLine, document.lineAt(endLine).text.length);
+    }
+
+    private async _preview(editor: vscode.TextEditor, range: vscode.Range, proposed: string): Promise<void> {
+        const document = editor.document;
+        const hunks = computeHunks(document.getText(range), proposed);
+        if (hunks.length === 0) {
+            vscode.window.showInformationMessage('CodeForgeX suggested no changes');
+            return;
+        }
+
+        const preview: InlinePreview = {
+            document,
+            startLine: range.start.line,
+            lineCount: range.end.line - range.start.line + 1,
+            proposed,
+            hunks,
+            diffUri: vscode.Uri.from({ scheme: InlineEditService.SCHEME, path: document.uri.path, query: Date.now().toString(36) })
+        };
+        this._previews.set(document.uri.toString(), preview);
+        this._decorateAll();
+        this._updateContext();
+        editor.revealRange(new vscode.Range(preview.startLine, 0, preview.startLine + preview.lineCount - 1, 0));
+    }
+
+    /**
+     * Keeps the block in place as lines are edited above it. An edit that
+     * touches the block itself ends the preview, as the proposal no longer
+     * fits the text.
+     */
+    private _onDocumentChanged(e: vscode.TextDocumentChangeEvent): void {
+        const key = e.document.uri.toString();
+        const preview = this._previews.get(key);
+        if (!preview || this._applying || e.contentChanges.length === 0) {
+            return;
+        }
+
+        const blockEnd = preview.startLine + preview.lineCount - 1;
+        for (const change of e.contentChanges) {
+            if (change.range.start.line > blockEnd) {
+                continue;
+            }
+            if (change.range.end.line < preview.startLine) {
+                const removedLines = change.range.end.line - change.range.start.line;
+                const addedLines = splitLines(change.text).length - 1;
+                preview.startLine += addedLines - removedLines;
+                continue;
+            }
+
+            this._end(key);
+            vscode.window.showInformationMessage('CodeForgeX preview ended because the previewed lines were edited');
+            return;
+        }
+
+        this._decorateAll();
+        this._onDidChange.fire(preview.diffUri);
+    }
+
+    private _findPreview(uri?: vscode.Uri): InlinePreview | undefined {
+        const key = (uri ?? vscode.window.activeTextEditor?.document.uri)?.toString();
+        return key ? this._previews.get(key) : undefined;
+    }
+
+    private _end(key: string): void {
+        if (this._previews.delete(key)) {
+            this._decorateAll();
+            this._updateContext();
+        }
+    }
+
+    /**
+     * Strikes through the lines each hunk replaces and shows the lines it
+     * proposes after the hunk's last line, in full on hover.
+     */
+    private _decorateAll(): void {
+        for (const editor of vscode.window.visibleTextEditors) {
+            const preview = this._previews.get(editor.document.uri.toString());
+            const blockStart = preview?.startLine ?? 0;
+            const removed: vscode.DecorationOptions[] = [];
+            const added: vscode.DecorationOptions[] = [];
+
+            for (const hunk of preview?.hunks ?? []) {
+                const start = blockStart + hunk.originalStart;
+                const hover = hunk.modifiedLines.length > 0
+                    ? new vscode.MarkdownString().appendMarkdown('**CodeForgeX suggests:**').appendCodeblock(hunk.modifiedLines.join('\n'), editor.document.languageId)
+                    : new vscode.MarkdownString('**CodeForgeX suggests removing these lines**');
+                for (let line = start; line < start + hunk.originalLength; line++) {
+                    removed.push({ range: editor.document.lineAt(line).range, hoverMessage: hover });
+                }
+                if (hunk.modifiedLines.length > 0) {
+                    // Pure insertions go after the line above them, or on the block's first line
+                    const anchor = Math.max(hunk.originalLength > 0 ? start + hunk.originalLength - 1 : start - 1, blockStart);
+                    const more = hunk.modifiedLines.length > 1 ? `  (+${hunk.modifiedLines.length - 1} more lines)` : '';
+                    const lineEnd = editor.document.lineAt(anchor).range.end;
+                    added.push({
+                        range: new vscode.Range(lineEnd, lineEnd),
+                        hoverMessage: hover,
+                        renderOptions: { after: { contentText: `→ ${hunk.modifiedLines[0].trim() || '(blank line)'}${more}` } }
+                    });
+                }
+            }
+
+            editor.setDecorations(this._removedDecoration, removed);
+            editor.setDecorations(this._addedDecoration, added);
+        }
+        this._onDidChangeCodeLenses.fire();
+    }
+
+    private _updateContext(): void {
+        vscode.commands.executeCommand('setContext', 'codeforgex.inlineEditActive', this._previews.size > 0);
+    }
+
+    private _eol(document: vscode.TextDocument): string {
+        return document.eol === vscode.EndOfLine.CRLF ? '\r\n' : '\n';
+    }
+}
@@ -0,0 +1,193 @@
+import { ChildProcess, spawn } from 'child_process';
+import { EventEmitter } from 'events';
+import { McpResource, McpServerConfig, McpTool, McpToolResult } from '../types';
+import { asArray, asString, isRecord } from '../utils/json';
+
+interface PendingRequest {
+    resolve: (value: unknown) => void;
+    reject: (error: Error) => void;
+    timer: NodeJS.Timeout;
+}
+
+const PROTOCOL_VERSION = '2024-11-05';
+
+/**
+ * Minimal Model Context Protocol client for servers speaking JSON-RPC over
+ * stdio (one JSON message per line). Has no VS Code dependency so it can be
+ * driven directly against a stub server process.
+ *
+ * Emits `stderr` with server diagnostics and `exit` when the process ends.
+ */
+export class McpClient extends EventEmitter {
+    private _process?: ChildProcess;
+    private _nextId = 1;
+    private _pending = new Map<number, PendingRequest>();
+    private _buffer = '';
+
+    constructor(
+        readonly config: McpServerConfig,
+        private readonly _requestTimeout = 30000
+    ) {
+        super();
+    }
+
+    get isRunning(): boolean {
+        return this._process !== undefined && this._process.exitCode === null;
+    }
+
+    /**
+     * Launches the server and performs the initialize handshake.
+     */
+    async start(): Promise<void> {
+        const child = spawn(this.config.command, this.config.args ?? [], {
+            cwd: this.config.cwd,
+            env: { ...process.env, ...this.config.env },
+            stdio: ['pipe', 'pipe', 'pipe']
+        });
+        this._process = child;
+
+        child.stdout!.setEncoding('utf8');
+        child.stdout!.on('data', (chunk: string) => this._onData(chunk));
+        child.stderr!.setEncoding('utf8');
+        child.stderr!.on('data', (chunk: string) => this.emit('stderr', chunk));
+        child.stdin!.on('error', () => undefined);
+
+        child.on('error', error => this._failAll(error));
+        child.on('exit', code => {
+            this._failAll(new Error(`MCP server "${this.config.name}" exited with code ${code}`));
+            this.emit('exit', code);
+        });
+
+        await this._request('initialize', {
+            protocolVersion: PROTOCOL_VERSION,
+            capabilities: {},
+            clientInfo: { name: 'codeforgex', version: '0.0.3' }
+        });
+        this._notify('notifications/initialized');
+    }
+
+    stop(): void {
+        this._failAll(new Error(`MCP server "${this.config.name}" was stopped`));
+        this._process?.kill();
+        this._process = undefined;
+    }
+
+    async listTools(): Promise<McpTool[]> {
+        const result = await this._request('tools/list', {});
+        return asArray(isRecord(result) ? result.tools : undefined).flatMap((tool): McpTool[] => isRecord(tool) && typeof tool.name === 'string'
+            ? [{ name: tool.name, description: asString(tool.description), inputSchema: isRecord(tool.inputSchema) ? tool.inputSchema : undefined }]
+            : []);
+    }
+
+    async listResources(): Promise<McpResource[]> {
+        const result = await this._request('resources/list', {});
+        return asArray(isRecord(result) ? result.resources : undefined).flatMap((resource): McpResource[] => isRecord(resource) && typeof resource.uri === 'string'
+            ? [{ uri: resource.uri, name: asString(resource.name) ?? resource.uri, description: asString(resource.description), mimeType: asString(resource.mimeType) }]
+            : []);
+    }
+
+    async callTool(name: string, args: Record<string, unknown>): Promise<McpToolResult> {
+        const result = await this._request('tools/call', { name, arguments: args });
+        if (!isRecord(result)) {
+            throw new Error(`MCP server "${this.config.name}" returned no result for ${name}`);
+        }
+        // Parts without a type are not content; a missing content list is an empty answer
+        return {
+            content: asArray(result.content).flatMap(part => isRecord(part) && typeof part.type === 'string'
+                ? [{ ...part, type: part.type, text: asString(part.text) }]
+                : []),
+            isError: result.isError === true
+        };
+    }
+
+    async readResource(uri: string): Promise<string> {
+        const result = await this._request('resources/read', { uri });
+        return asArray(isRecord(result) ? result.contents : undefined)
+            .filter(isRecord)
+            .map(content => asString(content.text) ?? `[binary content: ${asString(content.uri) ?? uri}]`)
+            .join('\n');
+    }
+
+    private _request(method: string, params: unknown): Promise<unknown> {
+        if (!this.isRunning) {
+            return Promise.reject(new Error(`MCP server "${this.config.name}" is not running`));
+        }
+
+        const id = this._nextId++;
+        return new Promise((resolve, reject) => {
+            const timer = setTimeout(() => {
+                this._pending.delete(id);
+                reject(new Error(`MCP request ${method} to "${this.config.name}" timed out`));
+            }, this._requestTimeout);
+
+            this._pending.set(id, { resolve, reject, timer });
+            this._send({ jsonrpc: '2.0', id, method, params });
+        });
+    }
+
+    private _notify(method: string, params?: unknown): void {
+        this._send({ jsonrpc: '2.0', method, ...(params === undefined ? {} : { params }) });
+    }
+
+    private _send(message: object): void {
+        this._process?.stdin?.write(JSON.stringify(message) + '\n');
+    }
+
+    private _onData(chunk: string): void {
+        this._buffer += chunk;
+
+        let newline: number;
+        while ((newline = this._buffer.indexOf('\n')) !== -1) {
+            const line = this._buffer.slice(0, newline).trim();
+            this._buffer = this._buffer.slice(newline + 1);
+            if (line) {
+                this._onMessage(line);
+            }
+        }
+    }
+
+    private _onMessage(line: string): void {
+        let message: unknown;
+        try {
+            message = JSON.parse(line);
+        } catch (error) {
+            this.emit('stderr', `Ignoring non-JSON output: ${line}\n`);
+            return;
+        }
+        if (!isRecord(message)) {
+            this.emit('stderr', `Ignoring a message that is not a JSON-RPC object: ${line}\n`);
+            return;
+        }
+
+        // Server-initiated requests and notifications are not supported; only responses are handled
+        if (message.id === undefined || message.method !== undefined) {
+            if (message.id !== undefined) {
+                this._send({ jsonrpc: '2.0', id: message.id, error: { code: -32601, message: 'Method not found' } });
+            }
+            return;
+        }
+
+        const id = message.id;
+        const pending = typeof id === 'number' ? this._pending.get(id) : undefined;
+        if (typeof id !== 'number' || !pending) {
+            return;
+        }
+
+        this._pending.delete(id);
+        clearTimeout(pending.timer);
+
+        if (message.error) {
+            pending.reject(new Error((isRecord(message.error) ? asString(message.error.message) : undefined) ?? 'MCP request failed'));
+        } else {
+            pending.resolve(message.result);
+        }
+    }
+
+    private _failAll(error: Error): void {
+        this._pending.forEach(pending => {
+            clearTimeout(pending.timer);
+            pending.reject(error);
+        });
+        this._pending.clear();
+    }
+}
@@ -0,0 +1,177 @@
+import * as vscode from 'vscode';
+import { McpResource, McpServerConfig, McpTool, ToolCallOutcome } from '../types';
+import { ConfigurationManager } from '../managers/ConfigurationManager';
+import { McpClient } from './McpClient';
+
+export type McpServerStatus = 'starting' | 'running' | 'error' | 'stopped';
+
+export interface McpServerState {
+    config: McpServerConfig;
+    status: McpServerStatus;
+    error?: string;
+    tools: McpTool[];
+    resources: McpResource[];
+}
+
+export interface McpToolReference {
+    server: string;
+    tool: McpTool;
+}
+
+/**
+ * Runs the stdio MCP servers listed in `codeforgex.mcpProviders` while
+ * `codeforgex.enableMcp` is on, and mediates every tool call through a
+ * confirmation prompt.
+ */
+export class McpService implements vscode.Disposable {
+    private _servers = new Map<string, McpServerState>();
+    private _clients = new Map<string, McpClient>();
+    private _onDidChangeServers = new vscode.EventEmitter<void>();
+    private _output = vscode.window.createOutputChannel('CodeForgeX MCP');
+    private _configListener: vscode.Disposable;
+
+    readonly onDidChangeServers = this._onDidChangeServers.event;
+
+    constructor(private readonly _configManager: ConfigurationManager) {
+        this._configListener = vscode.workspace.onDidChangeConfiguration(e => {
+            if (e.affectsConfiguration('codeforgex.enableMcp') || e.affectsConfiguration('codeforgex.mcpProviders')) {
+                this.restart();
+            }
+        });
+    }
+
+    dispose(): void {
+        this.stop();
+        this._configListener.dispose();
+        this._onDidChangeServers.dispose();
+        this._output.dispose();
+    }
+
+    isEnabled(): boolean {
+        return this._configManager.getConfig().enableMcp;
+    }
+
+    async start(): Promise<void> {
+        const config = this._configManager.getConfig();
+        if (!config.enableMcp) {
+            return;
+        }
+
+        const cwd = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+        await Promise.all(config.mcpProviders.map(serverConfig =>
+            this._startServer({ cwd, ...serverConfig, name: this._uniqueName(serverConfig.name) })
+        ));
+    }
+
+    stop(): void {
+        this._clients.forEach(client => {
+            client.removeAllListeners();
+            client.stop();
+        });
+        this._clients.clear();
+        this._servers.clear();
+        this._onDidChangeServers.fire();
+    }
+
+    async restart(): Promise<void> {
+        this.stop();
+        await this.start();
+    }
+
+    getServers(): McpServerState[] {
+        return [...this._servers.values()];
+    }
+
+    getAvailableTools(): McpToolReference[] {
+        return this.getServers()
+            .filter(server => server.status === 'running')
+            .flatMap(server => server.tools.map(tool => ({ server: server.config.name, tool })));
+    }
+
+    /**
+     * Calls a tool after the user approves it. Failures and refusals are
+     * reported in the outcome rather than thrown so an agent can carry on.
+     */
+    async callTool(serverName: string, toolName: string, args: Record<string, unknown>): Promise<ToolCallOutcome> {
+        const client = this._clients.get(serverName);
+        if (!client?.isRunning) {
+            return { status: 'failed', result: `MCP server "${serverName}" is not running` };
+        }
+
+        const choice = await vscode.window.showWarningMessage(
+            `Allow CodeForgeX to run the MCP tool "${toolName}" from "${serverName}"?`,
+            { modal: true, detail: JSON.stringify(args, null, 2) },
+            'Allow'
+        );
+        if (choice !== 'Allow') {
+            return { status: 'declined', result: `The user declined to run ${serverName}/${toolName}` };
+        }
+
+        this._output.appendLine(`[${serverName}] tools/call ${toolName} ${JSON.stringify(args)}`);
+        try {
+            const result = await client.callTool(toolName, args);
+            const text = result.content
+                .map(part => part.type === 'text' ? part.text : `[${part.type} content]`)
+                .join('\n');
+            return result.isError ? { status: 'failed', result: `Tool error: ${text}` } : { status: 'done', result: text };
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Unknown error';
+            this._output.appendLine(`[${serverName}] ${toolName} failed: ${message}`);
+            return { status: 'failed', result: `Tool call failed: ${message}` };
+        }
+    }
+
+    async readResource(serverName: string, uri: string): Promise<string> {
+        const client = this._clients.get(serverName);
+        if (!client?.isRunning) {
+            throw new Error(`MCP server "${serverName}" is not running`);
+        }
+        return client.readResource(uri);
+    }
+
+    showOutput(): void {
+        this._output.show();
+    }
+
+    private async _startServer(config: McpServerConfig): Promise<void> {
+        const state: McpServerState = { config, status: 'starting', tools: [], resources: [] };
+        this._servers.set(config.name, state);
+        this._onDidChangeServers.fire();
+
+        const client = new McpClient(config, this._configManager.getConfig().timeout);
+        this._clients.set(config.name, client);
+        client.on('stderr', (chunk: string) => this._output.append(`[${config.name}] ${chunk}`));
+        client.on('exit', (code: number | null) => {
+            this._output.appendLine(`[${config.name}] exited with code ${code}`);
+            if (state.status !== 'error') {
+                state.status = 'stopped';
+            }
+            this._onDidChangeServers.fire();
+        });
+
+        try {
+            this._output.appendLine(`[${config.name}] starting: ${config.command} ${(config.args ?? []).join(' ')}`);
+            await client.start();
+            state.tools = await client.listTools();
+            // Resources are optional in the protocol; servers without them reject the request
+            state.resources = await client.listResources().catch(() => []);
+            state.status = 'running';
+            this._output.appendLine(`[${config.name}] ready with ${state.tools.length} tool(s) and ${state.resources.length} resource(s)`);
+        } catch (error) {
+            state.status = 'error';
+            state.error = error instanceof Error ? error.message : 'Unknown error';
+            this._output.appendLine(`[${config.name}] failed to start: ${state.error}`);
+            client.stop();
+        }
+
+        this._onDidChangeServers.fire();
+    }
+
+    private _uniqueName(name: string): string {
+        let unique = name;
+        for (let index = 2; this._servers.has(unique); index++) {
+            unique = `${name} (${index})`;
+        }
+        return unique;
+    }
+}
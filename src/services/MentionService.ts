@@ -0,0 +1,257 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { ContextFile, Mention, MentionCompletion, MentionKind, ResolvedMentions } from '../types';
+import { ContextProvider } from '../providers/ContextProvider';
+import { GitService } from './GitService';
+import { ConfigurationManager } from '../managers/ConfigurationManager';
+import { formatMention, parseMentions } from '../utils/mentions';
+
+/**
+ * Completes and resolves the @-mentions typed in the chat. What they refer to
+ * is attached as context to that message only; the Context view is left as
+ * it is.
+ */
+export class MentionService {
+    private static readonly MAX_COMPLETIONS = 20;
+    // Candidates read from the file search before ranking
+    private static readonly MAX_SEARCH_RESULTS = 500;
+    private static readonly MAX_FOLDER_FILES = 50;
+    private static readonly SEARCH_EXCLUDE = '**/{node_modules,.git}/**';
+
+    constructor(
+        private readonly _contextProvider: ContextProvider,
+        private readonly _gitService: GitService,
+        private readonly _configManager: ConfigurationManager
+    ) {}
+
+    async complete(kind: MentionKind, query: string): Promise<MentionCompletion[]> {
+        switch (kind) {
+            case 'file':
+                return this._completeFiles(query);
+            case 'folder':
+                return this._completeFolders(query);
+            case 'symbol':
+                return this._completeSymbols(query);
+            default:
+                return [];
+        }
+    }
+
+    /**
+     * Reads what the mentions in a message refer to. Throws when one of them
+     * cannot be found, rather than answering without it.
+     */
+    async resolve(message: string): Promise<ResolvedMentions> {
+        const resolved: ResolvedMentions = { mentions: parseMentions(message), files: [], diagnostics: [] };
+
+        for (const mention of resolved.mentions) {
+            switch (mention.kind) {
+                case 'file':
+                    resolved.files.push(await this._contextProvider.readEntry(await this._findResource(mention, vscode.FileType.File)));
+                    break;
+                case 'folder':
+                    resolved.files.push(...await this._readFolder(mention));
+                    break;
+                case 'symbol':
+                    resolved.files.push(await this._readSymbol(mention));
+                    break;
+                case 'git':
+                    resolved.files.push(await this._readDiff(mention));
+                    break;
+                case 'problems':
+                    resolved.diagnostics.push(...await this._contextProvider.getDiagnostics('workspace'));
+                    break;
+            }
+        }
+
+        return resolved;
+    }
+
+    private async _completeFiles(query: string): Promise<MentionCompletion[]> {
+        const pattern = query ? `**/*${this._escapeGlob(query)}*` : '**/*';
+        const uris = await vscode.workspace.findFiles(pattern, MentionService.SEARCH_EXCLUDE, MentionService.MAX_SEARCH_RESULTS);
+        const lowerQuery = query.toLowerCase();
+        const nameMatches = (relativePath: string) => path.posix.basename(relativePath).toLowerCase().startsWith(lowerQuery);
+
+        // Names starting with the query first, then the shallowest paths
+        return uris
+            .filter(uri => !this._configManager.isIgnored(uri))
+            .map(uri => vscode.workspace.asRelativePath(uri))
+            .sort((a, b) => Number(nameMatches(b)) - Number(nameMatches(a))
+                || a.split('/').length - b.split('/').length
+                || a.localeCompare(b))
+            .slice(0, MentionService.MAX_COMPLETIONS)
+            .map(relativePath => ({
+                label: path.posix.basename(relativePath),
+                description: path.posix.dirname(relativePath) === '.' ? undefined : path.posix.dirname(relativePath),
+                mention: formatMention('file', relativePath)
+            }));
+    }
+
+    private async _completeFolders(query: string): Promise<MentionCompletion[]> {
+        // There is no folder search, so folders are read from the paths of the files in them
+        const uris = await vscode.workspace.findFiles(query ? `**/*${this._escapeGlob(query)}*/**` : '**/*', MentionService.SEARCH_EXCLUDE, MentionService.MAX_SEARCH_RESULTS);
+        const lowerQuery = query.toLowerCase();
+        const folders = new Set<string>();
+        for (const uri of uris.filter(candidate => !this._configManager.isIgnored(candidate))) {
+            let folder = path.posix.dirname(vscode.workspace.asRelativePath(uri));
+            while (folder !== '.' && folder !== '/') {
+                if (path.posix.basename(folder).toLowerCase().includes(lowerQuery)) {
+                    folders.add(folder);
+                }
+                folder = path.posix.dirname(folder);
+            }
+        }
+
+        return [...folders]
+            .sort((a, b) => a.split('/').length - b.split('/').length || a.localeCompare(b))
+            .slice(0, MentionService.MAX_COMPLETIONS)
+            .map(folder => ({ label: `${folder}/`, mention: formatMention('folder', folder) }));
+    }
+
+    private async _completeSymbols(query: string): Promise<MentionCompletion[]> {
+        if (!query) {
+            return [];
+        }
+        const symbols = await vscode.commands.executeCommand<vscode.SymbolInformation[]>('vscode.executeWorkspaceSymbolProvider', query) ?? [];
+        return symbols.slice(0, MentionService.MAX_COMPLETIONS).map(symbol => ({
+            label: symbol.name,
+            description: [symbol.containerName, vscode.workspace.asRelativePath(symbol.location.uri)].filter(Boolean).join(' · '),
+            mention: formatMention('symbol', symbol.name)
+        }));
+    }
+
+    /**
+     * Finds a mentioned file or folder by its path in a workspace folder, with
+     * or without the folder's name, or by a path unique in the workspace.
+     * Only files in the workspace that the ignore patterns let through can be
+     * mentioned, whatever path a pasted message gives.
+     */
+    private async _findResource(mention: Mention, type: vscode.FileType): Promise<vscode.Uri> {
+        const value = mention.value.replace(/\\/g, '/').replace(/^\.\//, '').replace(/\/$/, '');
+        const inFolder = (folder: vscode.WorkspaceFolder, uri: vscode.Uri) => {
+            const relative = path.posix.relative(folder.uri.path, uri.path);
+            return relative !== '..' && !relative.startsWith('../') && !path.posix.isAbsolute(relative);
+        };
+        const candidates = path.isAbsolute(mention.value)
+            ? [vscode.Uri.file(path.resolve(mention.value))].filter(uri => vscode.workspace.getWorkspaceFolder(uri))
+            : (vscode.workspace.workspaceFolders ?? []).flatMap(folder => [
+                vscode.Uri.joinPath(folder.uri, value),
+                ...(value.startsWith(`${folder.name}/`) ? [vscode.Uri.joinPath(folder.uri, value.slice(folder.name.length + 1))] : [])
+            ].filter(uri => inFolder(folder, uri)));
+        if (candidates.length === 0) {
+            throw new Error(`${mention.text} is outside the workspace`);
+        }
+
+        for (const candidate of candidates) {
+            try {
+                if ((await vscode.workspace.fs.stat(candidate)).type & type) {
+                    return this._checkIgnored(mention, candidate, type);
+                }
+            } catch (error) {
+                // Not in this workspace folder
+            }
+        }
+
+        if (type === vscode.FileType.File && !path.isAbsolute(mention.value)) {
+            const matches = await vscode.workspace.findFiles(`**/${this._escapeGlob(value)}`, MentionService.SEARCH_EXCLUDE, 2);
+            if (matches.length === 1) {
+                return this._checkIgnored(mention, matches[0], type);
+            }
+            if (matches.length > 1) {
+                throw new Error(`${mention.text} matches more than one file; give its path from the workspace root`);
+            }
+        }
+        throw new Error(`${mention.text}: no such ${type === vscode.FileType.File ? 'file' : 'folder'} in the workspace`);
+    }
+
+    private _checkIgnored(mention: Mention, uri: vscode.Uri, type: vscode.FileType): vscode.Uri {
+        if (this._configManager.isIgnored(uri, type === vscode.FileType.Directory)) {
+            throw new Error(`${mention.text} is excluded by codeforgex.ignorePatterns`);
+        }
+        return uri;
+    }
+
+    private async _readFolder(mention: Mention): Promise<ContextFile[]> {
+        const folder = await this._findResource(mention, vscode.FileType.Directory);
+        const uris = (await this._contextProvider.collectFolderFiles(folder)).slice(0, MentionService.MAX_FOLDER_FILES);
+
+        const files: ContextFile[] = [];
+        for (const uri of uris) {
+            try {
+                files.push(await this._contextProvider.readEntry(uri));
+            } catch (error) {
+                // Binary and oversized files are left out
+            }
+        }
+        if (files.length === 0) {
+            throw new Error(`${mention.text} has no text files`);
+        }
+        return files;
+    }
+
+    /**
+     * Reads the declaration of a symbol, preferring an exact name match. The
+     * document's symbols give its full range where the workspace symbol only
+     * covers its name.
+     */
+    private async _readSymbol(mention: Mention): Promise<ContextFile> {
+        const symbols = await vscode.commands.executeCommand<vscode.SymbolInformation[]>('vscode.executeWorkspaceSymbolProvider', mention.value) ?? [];
+        const symbol = symbols.find(candidate => candidate.name === mention.value)
+            ?? symbols.find(candidate => candidate.name.toLowerCase() === mention.value.toLowerCase());
+        if (!symbol) {
+            throw new Error(`${mention.text}: no such symbol in the workspace`);
+        }
+
+        const { uri, range } = symbol.location;
+        let fullRange = range;
+        try {
+            const documentSymbols = await vscode.commands.executeCommand<vscode.DocumentSymbol[]>('vscode.executeDocumentSymbolProvider', uri) ?? [];
+            const find = (candidates: vscode.DocumentSymbol[]): vscode.DocumentSymbol | undefined => {
+                for (const candidate of candidates) {
+                    if (candidate.name === symbol.name && candidate.range.contains(range.start)) {
+                        return candidate;
+                    }
+                    const child = find(candidate.children ?? []);
+                    if (child) {
+                        return child;
+                    }
+                }
+                return undefined;
+            };
+            fullRange = find(documentSymbols)?.range ?? range;
+        } catch (error) {
+            // Fall back to the range of the workspace symbol
+        }
+
+        return this._contextProvider.readEntry(uri, { startLine: fullRange.start.line + 1, endLine: fullRange.end.line + 1 });
+    }
+
+    private async _readDiff(mention: Mention): Promise<ContextFile> {
+        if (mention.value !== 'diff') {
+            throw new Error(`${mention.text}: only @git:diff is supported`);
+        }
+
+        const repository = await this._gitService.pickRepository();
+        if (!repository) {
+            throw new vscode.CancellationError();
+        }
+        const changes = await this._gitService.getChanges(repository);
+        if (!changes) {
+            throw new Error(`${mention.text}: there are no changes`);
+        }
+
+        return {
+            uri: repository.rootUri,
+            name: 'git diff',
+            relativePath: changes.staged ? 'git diff --staged' : 'git diff',
+            content: changes.diff,
+            isActive: true,
+            isVirtual: true
+        };
+    }
+
+    private _escapeGlob(text: string): string {
+        return text.replace(/[*?[\]{}!]/g, '');
+    }
+}
@@ -0,0 +1,132 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { PromptTemplate } from '../types';
+import { ConfigurationManager } from '../managers/ConfigurationManager';
+import { ModelManager } from '../managers/ModelManager';
+import { GitService } from './GitService';
+import { formatCommitInstructions } from '../utils/commitMessage';
+import { builtInPrompts, expandPromptTemplate, parsePromptFile, parseSlashCommand, PromptVariable, templateVariables } from '../utils/prompts';
+import { estimateTokens, tokensToChars } from '../utils/tokens';
+
+const SEVERITY_NAMES: Record<vscode.DiagnosticSeverity, string> = {
+    [vscode.DiagnosticSeverity.Error]: 'error',
+    [vscode.DiagnosticSeverity.Warning]: 'warning',
+    [vscode.DiagnosticSeverity.Information]: 'info',
+    [vscode.DiagnosticSeverity.Hint]: 'hint'
+};
+
+/**
+ * Slash commands for the chat: the built-in ones and the workspace's prompt
+ * files, which replace built-in commands of the same name.
+ */
+export class PromptLibraryService implements vscode.Disposable {
+    static readonly PROMPTS_GLOB = '.codeforgex/prompts/*.md';
+
+    private _customPrompts: PromptTemplate[] = [];
+    private readonly _watcher: vscode.FileSystemWatcher;
+
+    private readonly _onDidChangePrompts = new vscode.EventEmitter<void>();
+    readonly onDidChangePrompts = this._onDidChangePrompts.event;
+
+    constructor(
+        private readonly _configManager: ConfigurationManager,
+        private readonly _modelManager: ModelManager,
+        private readonly _gitService: GitService
+    ) {
+        this._watcher = vscode.workspace.createFileSystemWatcher(`**/${PromptLibraryService.PROMPTS_GLOB}`);
+        this._watcher.onDidCreate(() => this._load());
+        this._watcher.onDidChange(() => this._load());
+        this._watcher.onDidDelete(() => this._load());
+        this._load();
+    }
+
+    dispose(): void {
+        this._watcher.dispose();
+        this._onDidChangePrompts.dispose();
+    }
+
+    getPrompts(): PromptTemplate[] {
+        const config = this._configManager.getConfig();
+        const builtIn = builtInPrompts(formatCommitInstructions(config.commitMessageConvention, config.commitSubjectMaxLength));
+        const custom = new Map(this._customPrompts.map(prompt => [prompt.name, prompt]));
+        return [
+            ...builtIn.map(prompt => custom.get(prompt.name) ?? prompt),
+            ...this._customPrompts.filter(prompt => !builtIn.some(candidate => candidate.name === prompt.name))
+        ];
+    }
+
+    /**
+     * Expands a `/command` message into its prompt, filling in the variables
+     * from the active editor and the repository. Returns undefined for
+     * messages that are not a known command, which are sent as typed.
+     */
+    async expand(message: string): Promise<string | undefined> {
+        const command = parseSlashCommand(message);
+        const prompt = command && this.getPrompts().find(candidate => candidate.name === command.name);
+        if (!command || !prompt) {
+            return undefined;
+        }
+
+        const values: Partial<Record<PromptVariable, string>> = {};
+        for (const variable of templateVariables(prompt.body)) {
+            values[variable] = variable === 'diff' ? await this._getDiff() : this._fromEditor(variable, command.name);
+        }
+        return expandPromptTemplate(prompt.body, command.input, values);
+    }
+
+    private _fromEditor(variable: Exclude<PromptVariable, 'diff'>, command: string): string {
+        const editor = vscode.window.activeTextEditor ?? vscode.window.visibleTextEditors[0];
+        if (!editor) {
+            throw new Error(`Open an editor to use /${command}`);
+        }
+
+        const { document, selection } = editor;
+        switch (variable) {
+            case 'file':
+                return vscode.workspace.asRelativePath(document.uri);
+            case 'selection':
+                // Without a selection the command applies to the whole file
+                return selection.isEmpty ? document.getText() : document.getText(selection);
+            case 'diagnostics': {
+                const problems = vscode.languages.getDiagnostics(document.uri)
+                    .filter(diagnostic => selection.isEmpty || diagnostic.range.intersection(selection))
+                    .map(diagnostic => `- line ${diagnostic.range.start.line + 1}: ${SEVERITY_NAMES[diagnostic.severity]}${diagnostic.source ? ` (${diagnostic.source})` : ''}: ${diagnostic.message}`);
+                return problems.length > 0 ? problems.join('\n') : 'None reported in the editor.';
+            }
+        }
+    }
+
+    private async _getDiff(): Promise<string> {
+        const repository = await this._gitService.pickRepository();
+        if (!repository) {
+            throw new vscode.CancellationError();
+        }
+        const changes = await this._gitService.getChanges(repository);
+        if (!changes) {
+            throw new Error('There are no changes to describe');
+        }
+
+        const budget = this._configManager.getContextBudget(this._modelManager.getModelFor());
+        return estimateTokens(changes.diff) > budget ? `${changes.diff.slice(0, tokensToChars(budget))}\n[diff truncated]` : changes.diff;
+    }
+
+    private async _load(): Promise<void> {
+        const files = (await vscode.workspace.findFiles(PromptLibraryService.PROMPTS_GLOB))
+            .sort((a, b) => a.fsPath.localeCompare(b.fsPath));
+        const prompts = new Map<string, PromptTemplate>();
+        for (const file of files) {
+            try {
+                const text = new TextDecoder().decode(await vscode.workspace.fs.readFile(file));
+                const prompt = parsePromptFile(path.basename(file.fsPath), text, vscode.workspace.asRelativePath(file));
+                if (prompt) {
+                    prompts.set(prompt.name, prompt);
+                }
+            } catch (error) {
+                // Deleted while loading; the watcher reloads again
+            }
+        }
+
+        this._customPrompts = [...prompts.values()];
+        this._onDidChangePrompts.fire();
+    }
+}
@@ -0,0 +1,220 @@
+import * as vscode from 'vscode';
+import { ReviewFinding } from '../types';
+import { CodeForgeService } from './CodeForgeService';
+import { GitService } from './GitService';
+import { parseUnifiedDiff } from '../utils/diff';
+
+interface ReviewThread {
+    thread: vscode.CommentThread;
+    finding: ReviewFinding;
+    /** Text of the commented lines when the review ran. */
+    original: string;
+}
+
+/**
+ * Reviews the current branch against a base branch and shows each finding as
+ * a comment thread on the lines it is about. A thread goes away once its lines
+ * change, since the finding may no longer apply.
+ */
+export class ReviewService implements vscode.Disposable {
+    static readonly CONTROLLER_ID = 'codeforgex.review';
+
+    private static readonly SEVERITY_LABELS: Record<ReviewFinding['severity'], string> = {
+        error: 'Error',
+        warning: 'Warning',
+        info: 'Info'
+    };
+
+    private readonly _controller = vscode.comments.createCommentController(ReviewService.CONTROLLER_ID, 'CodeForgeX Review');
+    private _threads: ReviewThread[] = [];
+    // Base branch of the last review, keyed by repository root
+    private _lastBases = new Map<string, string>();
+    private _disposables: vscode.Disposable[] = [];
+
+    constructor(
+        private readonly _codeForgeService: CodeForgeService,
+        private readonly _gitService: GitService
+    ) {
+        const watcher = vscode.workspace.createFileSystemWatcher('**/*');
+        this._disposables.push(
+            watcher,
+            watcher.onDidChange(uri => this._checkOnDisk(uri)),
+            watcher.onDidDelete(uri => this._removeWhere(review => review.thread.uri.toString() === uri.toString())),
+            vscode.workspace.onDidChangeTextDocument(e => this._onDocumentChanged(e))
+        );
+    }
+
+    dispose(): void {
+        this.clear();
+        this._disposables.forEach(disposable => disposable.dispose());
+        this._controller.dispose();
+    }
+
+    /**
+     * Asks for a repository and base branch, then replaces any earlier review
+     * with the findings for the branch's changes.
+     */
+    async reviewChanges(sourceControl?: vscode.SourceControl): Promise<void> {
+        const repository = await this._gitService.pickRepository(sourceControl);
+        if (!repository) {
+            return;
+        }
+        const root = repository.rootUri.toString();
+        const base = await this._gitService.pickBase(repository, this._lastBases.get(root));
+        if (!base) {
+            return;
+        }
+        this._lastBases.set(root, base);
+
+        const diff = await this._gitService.diffAgainst(repository, base);
+        if (!diff.trim()) {
+            this.clear();
+            vscode.window.showInformationMessage(`There are no changes against ${base}`);
+            return;
+        }
+
+        const findings = await vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: `Reviewing changes against ${base}...`,
+            cancellable: true
+        }, (_progress, token) => this._codeForgeService.reviewDiff(diff, repository.rootUri, token));
+
+        // Only findings on files in the diff can be placed
+        const changedFiles = new Set(parseUnifiedDiff(diff).map(file => file.path));
+        this.clear();
+        for (const finding of findings.filter(f => changedFiles.has(f.file))) {
+            await this._addThread(vscode.Uri.joinPath(repository.rootUri, finding.file), finding);
+        }
+
+        if (this._threads.length === 0) {
+            vscode.window.showInformationMessage(`Review of changes against ${base} found no issues`);
+            return;
+        }
+        vscode.window.showInformationMessage(`Review of changes against ${base} found ${this._threads.length} issue(s)`);
+        vscode.commands.executeCommand('workbench.action.focusCommentsPanel');
+    }
+
+    /**
+     * Replaces the thread's lines with the finding's suggested fix.
+     */
+    async applyFix(thread: vscode.CommentThread): Promise<void> {
+        const review = this._threads.find(r => r.thread === thread);
+        if (review?.finding.suggestion === undefined || !thread.range) {
+            return;
+        }
+
+        const edit = new vscode.WorkspaceEdit();
+        edit.replace(thread.uri, thread.range, review.finding.suggestion.replace(/\r?\n$/, ''));
+        // The edit itself retires this thread and moves the ones below it
+        if (!await vscode.workspace.applyEdit(edit)) {
+            vscode.window.showErrorMessage('Could not apply the suggested fix');
+        }
+    }
+
+    dismiss(thread: vscode.CommentThread): void {
+        this._removeWhere(review => review.thread === thread);
+    }
+
+    clear(): void {
+        this._removeWhere(() => true);
+    }
+
+    private async _addThread(uri: vscode.Uri, finding: ReviewFinding): Promise<void> {
+        let document: vscode.TextDocument;
+        try {
+            document = await vscode.workspace.openTextDocument(uri);
+        } catch (error) {
+            return;
+        }
+
+        const startLine = Math.min(finding.startLine, document.lineCount) - 1;
+        const endLine = Math.min(finding.endLine, document.lineCount) - 1;
+        const range = new vscode.Range(startLine, 0, endLine, document.lineAt(endLine).text.length);
+
+        const body = new vscode.MarkdownString();
+        body.appendText(finding.message);
+        if (finding.suggestion !== undefined) {
+            body.appendMarkdown('\n\n**Suggested fix**\n');
+            body.appendCodeblock(finding.suggestion, document.languageId);
+        }
+
+        const label = ReviewService.SEVERITY_LABELS[finding.severity];
+        const thread = this._controller.createCommentThread(uri, range, [{
+            body,
+            mode: vscode.CommentMode.Preview,
+            author: { name: 'CodeForgeX' },
+            label
+        }]);
+        thread.label = `${label}: ${finding.message.split('\n')[0]}`;
+        thread.contextValue = finding.suggestion !== undefined ? 'fixable' : 'finding';
+        thread.canReply = false;
+        thread.state = vscode.CommentThreadState.Unresolved;
+        thread.collapsibleState = finding.severity === 'info'
+            ? vscode.CommentThreadCollapsibleState.Collapsed
+            : vscode.CommentThreadCollapsibleState.Expanded;
+
+        this._threads.push({ thread, finding, original: document.getText(range) });
+    }
+
+    /**
+     * Moves threads along with edits above them and drops the ones whose
+     * lines were edited.
+     */
+    private _onDocumentChanged(e: vscode.TextDocumentChangeEvent): void {
+        if (e.contentChanges.length === 0) {
+            return;
+        }
+
+        const key = e.document.uri.toString();
+        const stale: ReviewThread[] = [];
+        for (const review of this._threads.filter(r => r.thread.uri.toString() === key)) {
+            let range: vscode.Range | undefined = review.thread.range;
+            for (const change of e.contentChanges) {
+                if (!range || change.range.start.line > range.end.line) {
+                    continue;
+                }
+                if (change.range.end.line < range.start.line) {
+                    const delta = change.text.split(/\r?\n/).length - 1 - (change.range.end.line - change.range.start.line);
+                    range = new vscode.Range(range.start.line + delta, 0, range.end.line + delta, range.end.character);
+                    continue;
+                }
+                range = undefined;
+            }
+
+            if (range) {
+                review.thread.range = range;
+            } else {
+                stale.push(review);
+            }
+        }
+
+        this._removeWhere(review => stale.includes(review));
+    }
+
+    /**
+     * Files changed outside the editor, e.g. by a checkout, are compared line
+     * for line with what was reviewed.
+     */
+    private async _checkOnDisk(uri: vscode.Uri): Promise<void> {
+        const reviews = this._threads.filter(r => r.thread.uri.toString() === uri.toString());
+        if (reviews.length === 0 || vscode.workspace.textDocuments.some(d => d.uri.toString() === uri.toString() && d.isDirty)) {
+            return;
+        }
+
+        let lines: string[];
+        try {
+            lines = new TextDecoder().decode(await vscode.workspace.fs.readFile(uri)).split(/\r?\n/);
+        } catch (error) {
+            return;
+        }
+
+        this._removeWhere(review => reviews.includes(review) && (!review.thread.range
+            || lines.slice(review.thread.range.start.line, review.thread.range.end.line + 1).join('\n') !== review.original.replace(/\r\n/g, '\n')));
+    }
+
+    private _removeWhere(predicate: (review: ReviewThread) => boolean): void {
+        const removed = this._threads.filter(predicate);
+        this._threads = this._threads.filter(review => !removed.includes(review));
+        removed.forEach(review => review.thread.dispose());
+    }
+}
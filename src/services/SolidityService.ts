@@ -0,0 +1,289 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { ContextFile, SolidityFinding } from '../types';
+import { ConfigurationManager } from '../managers/ConfigurationManager';
+import { isContractArtifactPath } from '../utils/abi';
+import {
+    Remapping,
+    SWC_REGISTRY,
+    applyRemappings,
+    parseFoundryRemappings,
+    parseRemappings,
+    parseSolidityDeclarations,
+    parseSolidityImports
+} from '../utils/solidity';
+
+export type SolidityTask = 'explain' | 'tests' | 'vulnerabilities';
+export type SolidityFramework = 'foundry' | 'hardhat';
+
+export interface SolidityProject {
+    /** Folder with foundry.toml, a Hardhat config or remappings.txt; the workspace folder otherwise. */
+    root: vscode.Uri;
+    framework?: SolidityFramework;
+    remappings: Remapping[];
+}
+
+interface ParsedSource {
+    imports: vscode.Uri[];
+    declarations: ReturnType<typeof parseSolidityDeclarations>;
+}
+
+/**
+ * Knows how Solidity projects fit together: resolves imports through Foundry
+ * remappings and Hardhat's node_modules lookup, finds the files a contract
+ * depends on, and shows vulnerability findings as diagnostics.
+ */
+export class SolidityService implements vscode.Disposable {
+    // Import graphs of large libraries are only scanned this far
+    private static readonly MAX_SCANNED_FILES = 200;
+    private static readonly HARDHAT_CONFIGS = ['hardhat.config.ts', 'hardhat.config.js', 'hardhat.config.cjs', 'hardhat.config.mjs'];
+    private static readonly SEVERITIES: Record<SolidityFinding['severity'], vscode.DiagnosticSeverity> = {
+        high: vscode.DiagnosticSeverity.Error,
+        medium: vscode.DiagnosticSeverity.Warning,
+        low: vscode.DiagnosticSeverity.Information,
+        info: vscode.DiagnosticSeverity.Information
+    };
+
+    private readonly _diagnostics = vscode.languages.createDiagnosticCollection('codeforgex-solidity');
+
+    constructor(private readonly _configManager: ConfigurationManager) {}
+
+    dispose(): void {
+        this._diagnostics.dispose();
+    }
+
+    static isSolidity(uri: vscode.Uri): boolean {
+        return uri.path.toLowerCase().endsWith('.sol');
+    }
+
+    /**
+     * Finds the project a file belongs to by walking up to the nearest
+     * foundry.toml, Hardhat config or remappings.txt.
+     */
+    async findProject(uri: vscode.Uri): Promise<SolidityProject> {
+        const workspaceRoot = vscode.workspace.getWorkspaceFolder(uri)?.uri;
+        let directory = vscode.Uri.joinPath(uri, '..');
+
+        while (true) {
+            const foundryToml = await this._readText(vscode.Uri.joinPath(directory, 'foundry.toml'));
+            const remappingsTxt = await this._readText(vscode.Uri.joinPath(directory, 'remappings.txt'));
+            const hardhat = await this._firstExisting(SolidityService.HARDHAT_CONFIGS.map(name => vscode.Uri.joinPath(directory, name)));
+
+            if (foundryToml !== undefined || remappingsTxt !== undefined || hardhat) {
+                const remappings = [
+                    ...parseFoundryRemappings(foundryToml ?? ''),
+                    ...parseRemappings((remappingsTxt ?? '').split(/\r?\n/))
+                ];
+                if (foundryToml !== undefined) {
+                    remappings.push(...await this._libRemappings(directory, remappings));
+                }
+                return { root: directory, framework: foundryToml !== undefined ? 'foundry' : hardhat ? 'hardhat' : undefined, remappings };
+            }
+
+            const parent = vscode.Uri.joinPath(directory, '..');
+            if (!workspaceRoot || directory.toString() === workspaceRoot.toString() || parent.path === directory.path) {
+                return { root: workspaceRoot ?? directory, remappings: [] };
+            }
+            directory = parent;
+        }
+    }
+
+    /**
+     * Files a contract needs to be understood: its direct imports, plus the
+     * files declaring the contracts it inherits and the libraries it uses,
+     * following those through their own bases. Empty when
+     * `includeSolidityDependencies` is off.
+     */
+    async dependenciesFor(uri: vscode.Uri): Promise<vscode.Uri[]> {
+        if (!this._configManager.getConfig().includeSolidityDependencies || !SolidityService.isSolidity(uri)) {
+            return [];
+        }
+
+        const project = await this.findProject(uri);
+        const parsed = new Map<string, ParsedSource>();
+        const queue = [uri];
+        while (queue.length > 0 && parsed.size < SolidityService.MAX_SCANNED_FILES) {
+            const file = queue.shift()!;
+            if (parsed.has(file.toString())) {
+                continue;
+            }
+            const source = await this._readText(file);
+            if (source === undefined) {
+                continue;
+            }
+
+            const imports: vscode.Uri[] = [];
+            for (const importPath of parseSolidityImports(source)) {
+                const resolved = await this._resolveImport(project, file, importPath);
+                if (resolved) {
+                    imports.push(resolved);
+                    queue.push(resolved);
+                }
+            }
+            parsed.set(file.toString(), { imports, declarations: parseSolidityDeclarations(source) });
+        }
+
+        // First declaration wins, which is the one closest to the contract
+        const declaredIn = new Map<string, string>();
+        parsed.forEach((source, file) => source.declarations.forEach(declaration => {
+            if (!declaredIn.has(declaration.name)) {
+                declaredIn.set(declaration.name, file);
+            }
+        }));
+
+        const root = parsed.get(uri.toString());
+        const included = new Map((root?.imports ?? []).map(file => [file.toString(), file]));
+        const needed = (root?.declarations ?? []).flatMap(declaration => [...declaration.bases, ...declaration.libraries]);
+        const seen = new Set<string>();
+        while (needed.length > 0) {
+            const name = needed.pop()!;
+            const file = declaredIn.get(name);
+            if (seen.has(name) || !file || file === uri.toString()) {
+                continue;
+            }
+            seen.add(name);
+            included.set(file, vscode.Uri.parse(file));
+            parsed.get(file)?.declarations
+                .filter(declaration => declaration.name === name)
+                .forEach(declaration => needed.push(...declaration.bases, ...declaration.libraries));
+        }
+
+        included.delete(uri.toString());
+        return [...included.values()];
+    }
+
+    /**
+     * Prompt for the explain and test generation tasks, which run in the chat.
+     */
+    async buildTaskPrompt(task: Exclude<SolidityTask, 'vulnerabilities'>, uri: vscode.Uri): Promise<string> {
+        const file = vscode.workspace.asRelativePath(uri);
+        if (task === 'explain') {
+            return `Explain the contracts in ${file}: what they are for, their roles and access control, state variables, external and public functions, `
+                + 'events, and the trust assumptions on other contracts and on callers. Point out anything surprising.';
+        }
+
+        const { framework, root } = await this.findProject(uri);
+        const testsFolder = vscode.workspace.asRelativePath(vscode.Uri.joinPath(root, 'test'));
+        const name = path.basename(uri.fsPath, '.sol');
+        return framework === 'hardhat'
+            ? `Write Hardhat tests in TypeScript (ethers, chai) for the contracts in ${file}. Cover deployment, every external function, access control, `
+                + `reverts and emitted events. Put the tests in one fenced block labelled with its path, e.g. \`\`\`ts ${testsFolder}/${name}.test.ts.`
+            : `Write Foundry tests (forge-std Test) for the contracts in ${file}. Cover every external function, access control, reverts with their `
+                + `errors, emitted events and fuzz tests for numeric inputs. Put the tests in one fenced block labelled with its path, e.g. \`\`\`solidity ${testsFolder}/${name}.t.sol.`;
+    }
+
+    /**
+     * Replaces the findings shown for the audited files with new ones.
+     * `files` maps the relative paths findings use back to documents.
+     */
+    showFindings(findings: SolidityFinding[], files: ContextFile[]): void {
+        files.forEach(file => this._diagnostics.delete(file.uri));
+
+        const byFile = new Map<string, { uri: vscode.Uri; diagnostics: vscode.Diagnostic[] }>();
+        for (const finding of findings) {
+            const uri = files.find(file => file.relativePath.replace(/\\/g, '/') === finding.file.replace(/\\/g, '/'))?.uri;
+            if (!uri) {
+                continue;
+            }
+
+            const range = new vscode.Range(finding.line - 1, 0, finding.endLine - 1, Number.MAX_SAFE_INTEGER);
+            const category = finding.swc ? ` [${finding.swc}${SWC_REGISTRY[finding.swc] ? `: ${SWC_REGISTRY[finding.swc]}` : ''}]` : '';
+            const diagnostic = new vscode.Diagnostic(
+                range,
+                `${finding.title}${category}\n${finding.description}${finding.recommendation ? `\nRecommendation: ${finding.recommendation}` : ''}`,
+                SolidityService.SEVERITIES[finding.severity]
+            );
+            diagnostic.source = 'CodeForgeX';
+            if (finding.swc) {
+                diagnostic.code = { value: finding.swc, target: vscode.Uri.parse(`https://swcregistry.io/docs/${finding.swc}`) };
+            }
+
+            const entry = byFile.get(uri.toString()) ?? { uri, diagnostics: [] };
+            entry.diagnostics.push(diagnostic);
+            byFile.set(uri.toString(), entry);
+        }
+
+        byFile.forEach(({ uri, diagnostics }) => this._diagnostics.set(uri, diagnostics));
+    }
+
+    clearFindings(): void {
+        this._diagnostics.clear();
+    }
+
+    /**
+     * Compiled contracts in Foundry `out/` and Hardhat `artifacts/` folders.
+     * Both lay them out as `<File>.sol/<Contract>.json`, so a source file's
+     * artifacts are the ones in the folder named after it.
+     */
+    async findArtifacts(source?: vscode.Uri): Promise<vscode.Uri[]> {
+        const uris = await vscode.workspace.findFiles('**/{out,artifacts}/**/*.json', '{**/node_modules/**,**/build-info/**,**/*.dbg.json}');
+        const folder = source ? path.basename(source.path) : undefined;
+        return uris
+            .filter(uri => isContractArtifactPath(uri.path) && (!folder || path.posix.basename(path.posix.dirname(uri.path)) === folder))
+            .sort((a, b) => a.path.localeCompare(b.path));
+    }
+
+    /**
+     * Relative imports resolve against the importing file. Others are remapped,
+     * then looked up from the project root and in node_modules, as Hardhat does.
+     */
+    private async _resolveImport(project: SolidityProject, from: vscode.Uri, importPath: string): Promise<vscode.Uri | undefined> {
+        if (importPath.startsWith('./') || importPath.startsWith('../')) {
+            return this._firstExisting([vscode.Uri.joinPath(from, '..', importPath)]);
+        }
+
+        const fromPath = path.posix.relative(project.root.path, from.path);
+        const remapped = applyRemappings(importPath, project.remappings, fromPath);
+        return this._firstExisting([
+            vscode.Uri.joinPath(project.root, remapped),
+            vscode.Uri.joinPath(project.root, 'node_modules', remapped)
+        ]);
+    }
+
+    /**
+     * Foundry remaps every library in lib/ to its src/ folder (or the library
+     * root) unless a remapping for it is configured.
+     */
+    private async _libRemappings(root: vscode.Uri, configured: Remapping[]): Promise<Remapping[]> {
+        let entries: [string, vscode.FileType][];
+        try {
+            entries = await vscode.workspace.fs.readDirectory(vscode.Uri.joinPath(root, 'lib'));
+        } catch (error) {
+            return [];
+        }
+
+        const remappings: Remapping[] = [];
+        for (const [name, type] of entries) {
+            if (!(type & vscode.FileType.Directory) || configured.some(remapping => remapping.prefix.replace(/\/$/, '') === name)) {
+                continue;
+            }
+            const hasSrc = await this._firstExisting([vscode.Uri.joinPath(root, 'lib', name, 'src')]);
+            remappings.push({ prefix: `${name}/`, target: hasSrc ? `lib/${name}/src/` : `lib/${name}/` });
+        }
+        return remappings;
+    }
+
+    private async _firstExisting(uris: vscode.Uri[]): Promise<vscode.Uri | undefined> {
+        for (const uri of uris) {
+            try {
+                await vscode.workspace.fs.stat(uri);
+                return uri;
+            } catch (error) {
+                // Try the next candidate
+            }
+        }
+        return undefined;
+    }
+
+    private async _readText(uri: vscode.Uri): Promise<string | undefined> {
+        const openDocument = vscode.workspace.textDocuments.find(d => d.uri.toString() === uri.toString());
+        if (openDocument) {
+            return openDocument.getText();
+        }
+        try {
+            return new TextDecoder().decode(await vscode.workspace.fs.readFile(uri));
+        } catch (error) {
+            return undefined;
+        }
+    }
+}
@@ -0,0 +1,87 @@
+import * as assert from 'assert';
+import { AbiEntry, abiSelector, abiSignature, generateAbiBindings, isContractArtifactPath, parseContractArtifact, summarizeAbi } from '../utils/abi';
+
+const TRANSFER: AbiEntry = {
+    type: 'function',
+    name: 'transfer',
+    inputs: [{ name: 'to', type: 'address' }, { name: 'amount', type: 'uint256' }],
+    outputs: [{ name: '', type: 'bool' }],
+    stateMutability: 'nonpayable'
+};
+
+const TRANSFER_EVENT: AbiEntry = {
+    type: 'event',
+    name: 'Transfer',
+    inputs: [
+        { name: 'from', type: 'address', indexed: true },
+        { name: 'to', type: 'address', indexed: true },
+        { name: 'value', type: 'uint256' }
+    ]
+};
+
+const FILL: AbiEntry = {
+    type: 'function',
+    name: 'fill',
+    inputs: [{
+        name: 'orders',
+        type: 'tuple[]',
+        internalType: 'struct Order.Fill[]',
+        components: [{ name: 'id', type: 'uint256' }, { name: 'maker', type: 'address' }]
+    }],
+    stateMutability: 'view'
+};
+
+suite('abi', () => {
+    test('computes function selectors and event topics', () => {
+        assert.strictEqual(abiSignature(TRANSFER), 'transfer(address,uint256)');
+        assert.strictEqual(abiSelector(TRANSFER), '0xa9059cbb');
+        assert.strictEqual(abiSelector(TRANSFER_EVENT), '0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef');
+    });
+
+    test('expands tuples in signatures', () => {
+        assert.strictEqual(abiSignature(FILL), 'fill((uint256,address)[])');
+    });
+
+    test('recognizes Foundry and Hardhat artifacts only', () => {
+        assert.strictEqual(isContractArtifactPath('out/Token.sol/Token.json'), true);
+        assert.strictEqual(isContractArtifactPath('artifacts\\contracts\\T.sol\\T.json'), true);
+        assert.strictEqual(isContractArtifactPath('artifacts/contracts/T.sol/T.dbg.json'), false);
+        assert.strictEqual(isContractArtifactPath('artifacts/build-info/abc.json'), false);
+        assert.strictEqual(isContractArtifactPath('src/config.json'), false);
+    });
+
+    test('parses artifacts and drops entries without a known type', () => {
+        const artifact = parseContractArtifact(JSON.stringify({ contractName: 'Token', sourceName: 'src/Token.sol', abi: [TRANSFER, 5, { type: 'module' }] }), 'Fallback');
+        assert.deepStrictEqual(artifact, { contractName: 'Token', sourceName: 'src/Token.sol', abi: [TRANSFER] });
+
+        const foundry = parseContractArtifact(JSON.stringify({ abi: [], metadata: { settings: { compilationTarget: { 'src/A.sol': 'A' } } } }), 'A');
+        assert.deepStrictEqual(foundry, { contractName: 'A', sourceName: 'src/A.sol', abi: [] });
+
+        assert.strictEqual(parseContractArtifact('{}', 'A'), undefined);
+        assert.strictEqual(parseContractArtifact('not json', 'A'), undefined);
+    });
+
+    test('rejects artifacts with malformed entries so they are sent as text', () => {
+        const artifact = (entry: object) => parseContractArtifact(JSON.stringify({ contractName: 'Token', abi: [TRANSFER, entry] }), 'Token');
+        assert.strictEqual(artifact({ type: 'function', name: 'mint', inputs: 'address' }), undefined);
+        assert.strictEqual(artifact({ type: 'function', name: 'fill', inputs: [{ name: 'orders', type: 'tuple[]', components: [{ name: 'id' }] }] }), undefined);
+        assert.strictEqual(artifact({ type: 'event', name: 42 }), undefined);
+        assert.strictEqual(artifact({ type: 'function', name: 'burn', stateMutability: 'constant' }), undefined);
+    });
+
+    test('summarizes an ABI with selectors', () => {
+        assert.strictEqual(summarizeAbi({ contractName: 'Token', sourceName: 'src/Token.sol', abi: [TRANSFER_EVENT, FILL, TRANSFER] }), [
+            '// ABI of Token (src/Token.sol)',
+            'function fill(Order.Fill[] orders) view // 0x34ed4ee3',
+            'function transfer(address to, uint256 amount) returns (bool) // 0xa9059cbb',
+            'event Transfer(address indexed from, address indexed to, uint256 value) // topic 0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef'
+        ].join('\n'));
+    });
+
+    test('generates bindings in each style', () => {
+        const artifact = { contractName: 'Token', abi: [TRANSFER] };
+        assert.ok(generateAbiBindings(artifact, 'types').includes('transfer: { args: [to: Address, amount: bigint]; returns: boolean;'));
+        assert.ok(generateAbiBindings(artifact, 'ethers').includes("import { Contract, JsonRpcProvider, Wallet } from 'ethers';"));
+        assert.ok(generateAbiBindings(artifact, 'viem').includes("functionName: 'transfer',"));
+    });
+});
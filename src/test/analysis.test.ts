@@ -0,0 +1,78 @@
+import * as assert from 'assert';
+import { ProjectAnalysis } from '../types';
+import { diffAnalyses, formatAnalysisMarkdown, groupDependencies, parseProjectAnalysis } from '../utils/analysis';
+
+// Two runs over the same project: one issue moved, one was fixed, one is new
+const YESTERDAY: ProjectAnalysis = {
+    root: '/ws',
+    createdAt: 1,
+    languages: [{ name: 'TypeScript', files: 10 }, { name: 'Go', files: 1 }],
+    dependencies: [{ from: 'a', to: 'b' }],
+    hotspots: [],
+    issues: [{ file: 'a.ts', line: 3, severity: 'error', message: 'Moved' }, { file: 'a.ts', severity: 'info', message: 'Gone' }]
+};
+const TODAY: ProjectAnalysis = {
+    root: '/ws',
+    createdAt: 2,
+    languages: [{ name: 'TypeScript', files: 12 }, { name: 'Go', files: 1 }],
+    dependencies: [{ from: 'a', to: 'c' }],
+    hotspots: [{ file: 'a.ts', reason: 'Complex' }],
+    issues: [{ file: 'a.ts', line: 9, severity: 'error', message: 'Moved' }, { file: 'b.ts', severity: 'warning', message: 'New' }]
+};
+
+suite('analysis', () => {
+    test('parses sections given as lists', () => {
+        const parsed = parseProjectAnalysis(JSON.stringify({
+            summary: 'A small app',
+            languages: [{ name: 'TypeScript', files: 12, lines: 900 }, { files: 3 }],
+            dependencies: [{ from: 'src/a.ts', to: 'src/b.ts' }, { from: 'src/a.ts' }],
+            hotspots: [{ file: 'src/a.ts', line: 4, description: 'Long function', score: 8 }, { file: 'src/b.ts' }],
+            issues: [{ file: 'src/b.ts', line: '0', severity: 'fatal', message: 'Unused export' }]
+        }), '/ws');
+
+        assert.strictEqual(parsed.summary, 'A small app');
+        assert.deepStrictEqual(parsed.languages, [{ name: 'TypeScript', files: 12, lines: 900 }]);
+        assert.deepStrictEqual(parsed.dependencies, [{ from: 'src/a.ts', to: 'src/b.ts' }]);
+        assert.deepStrictEqual(parsed.hotspots, [{ file: 'src/a.ts', line: 4, reason: 'Long function', score: 8 }]);
+        assert.deepStrictEqual(parsed.issues, [{ file: 'src/b.ts', line: undefined, severity: 'warning', message: 'Unused export' }]);
+    });
+
+    test('parses sections given as maps inside a fenced reply', () => {
+        const parsed = parseProjectAnalysis([
+            'Analysis:',
+            '```json',
+            '{"languages": {"TypeScript": 2, "Go": "many"}, "dependencyGraph": {"src/a.ts": ["src/b.ts", 3, "src/c.ts"]}}',
+            '```'
+        ].join('\n'), '/ws');
+
+        assert.deepStrictEqual(parsed.languages, [{ name: 'TypeScript', files: 2 }]);
+        assert.deepStrictEqual(parsed.dependencies, [{ from: 'src/a.ts', to: 'src/b.ts' }, { from: 'src/a.ts', to: 'src/c.ts' }]);
+        assert.deepStrictEqual(parsed.issues, []);
+    });
+
+    test('rejects output that is not a JSON object', () => {
+        assert.throws(() => parseProjectAnalysis('no analysis today', '/ws'), /not return the analysis as JSON/);
+        assert.throws(() => parseProjectAnalysis('```json\n[1, 2]\n```', '/ws'), /as a JSON object/);
+    });
+
+    test('compares issues regardless of their line', () => {
+        const diff = diffAnalyses(YESTERDAY, TODAY);
+        assert.strictEqual(diff.previousCreatedAt, 1);
+        assert.deepStrictEqual(diff.newIssues.map(issue => issue.message), ['New']);
+        assert.deepStrictEqual(diff.resolvedIssues.map(issue => issue.message), ['Gone']);
+        assert.deepStrictEqual(diff.newHotspots.map(hotspot => hotspot.file), ['a.ts']);
+        assert.deepStrictEqual(diff.addedDependencies, [{ from: 'a', to: 'c' }]);
+        assert.deepStrictEqual(diff.removedDependencies, [{ from: 'a', to: 'b' }]);
+        assert.deepStrictEqual(diff.languageChanges, [{ name: 'TypeScript', previousFiles: 10, files: 12 }]);
+    });
+
+    test('groups dependencies and lists them in the report', () => {
+        const dependencies = [{ from: 'a', to: 'b' }, { from: 'c', to: 'a' }, { from: 'a', to: 'c' }];
+        assert.deepStrictEqual([...groupDependencies(dependencies)], [['a', ['b', 'c']], ['c', ['a']]]);
+
+        const markdown = formatAnalysisMarkdown({ ...TODAY, dependencies, issues: [{ file: 'a.ts', line: 2, severity: 'error', message: 'Broken' }] });
+        assert.ok(markdown.startsWith('# Project Analysis\n'));
+        assert.ok(markdown.includes('## Issues\n\n- **error** `a.ts:2`: Broken\n'));
+        assert.ok(markdown.includes('- `a` → `b`, `c`\n- `c` → `a`'));
+    });
+});
@@ -0,0 +1,102 @@
+import * as assert from 'assert';
+import { AuditFinding, AuditFindingStatus, SolidityFinding } from '../types';
+import { compareFindings, reconcileFindings } from '../utils/audit';
+
+// What an audit of a small vault reports
+const REENTRANCY: SolidityFinding = {
+    file: 'src/Vault.sol',
+    line: 40,
+    endLine: 42,
+    swc: 'SWC-107',
+    severity: 'high',
+    title: 'Reentrancy in withdraw',
+    description: 'State is updated after the external call.'
+};
+const UNCHECKED_CALL: SolidityFinding = {
+    file: 'src/Vault.sol',
+    line: 80,
+    endLine: 80,
+    swc: 'SWC-104',
+    severity: 'medium',
+    title: 'Unchecked call',
+    description: 'The result of the low-level call is ignored.'
+};
+const TX_ORIGIN: SolidityFinding = {
+    file: 'src/Other.sol',
+    line: 12,
+    endLine: 12,
+    swc: 'SWC-115',
+    severity: 'low',
+    title: 'Authorization through tx.origin',
+    description: 'onlyOwner compares tx.origin instead of msg.sender.'
+};
+
+/** A finding as an earlier audit saved it. */
+function tracked(finding: SolidityFinding, id: string, status: AuditFindingStatus = 'open', justification?: string): AuditFinding {
+    return { ...finding, id, status, ...(justification ? { justification } : {}), firstSeen: 1, lastSeen: 1 };
+}
+
+/** The same finding, reported after the code around it moved. */
+function movedTo(finding: SolidityFinding, line: number): SolidityFinding {
+    return { ...finding, line, endLine: line + finding.endLine - finding.line };
+}
+
+suite('reconcileFindings', () => {
+    test('numbers new findings after the highest saved ID', () => {
+        const result = reconcileFindings([tracked(TX_ORIGIN, 'CFX-007')], [REENTRANCY], ['src/Vault.sol'], 100);
+        assert.deepStrictEqual(result.added.map(finding => [finding.id, finding.status, finding.firstSeen]), [['CFX-008', 'open', 100]]);
+        assert.strictEqual(result.findings.length, 2);
+    });
+
+    test('matches by title or by kind nearby and keeps the saved status', () => {
+        const findings = [tracked(REENTRANCY, 'CFX-001', 'acknowledged', 'Guarded upstream'), tracked(UNCHECKED_CALL, 'CFX-002')];
+        // The model named the unchecked call differently this time
+        const result = reconcileFindings(findings, [
+            movedTo(REENTRANCY, 55),
+            { ...movedTo(UNCHECKED_CALL, 86), title: 'Return value ignored' }
+        ], ['src/Vault.sol'], 100);
+
+        assert.deepStrictEqual(result.added, []);
+        assert.deepStrictEqual(result.unchanged.map(finding => [finding.id, finding.status, finding.line, finding.lastSeen]), [
+            ['CFX-001', 'acknowledged', 55, 100],
+            ['CFX-002', 'open', 86, 100]
+        ]);
+        assert.strictEqual(result.unchanged[0].justification, 'Guarded upstream');
+        // The saved findings are not modified in place
+        assert.strictEqual(findings[0].line, 40);
+    });
+
+    test('reopens fixed findings that are reported again', () => {
+        const result = reconcileFindings([tracked(REENTRANCY, 'CFX-001', 'fixed', 'Patched')], [REENTRANCY], ['src/Vault.sol'], 100);
+        assert.deepStrictEqual(result.reopened.map(finding => [finding.id, finding.status, finding.justification]), [['CFX-001', 'open', undefined]]);
+    });
+
+    test('keeps open findings that were not reported again and flags them', () => {
+        const result = reconcileFindings([
+            tracked(REENTRANCY, 'CFX-001'),
+            tracked(TX_ORIGIN, 'CFX-002'),
+            tracked(UNCHECKED_CALL, 'CFX-003', 'false-positive')
+        ], [], ['src\\Vault.sol'], 100);
+
+        // Other.sol was not audited this time
+        assert.deepStrictEqual(result.notReported.map(finding => finding.id), ['CFX-001']);
+        assert.strictEqual(result.notReported[0].status, 'open');
+        assert.strictEqual(result.notReported[0].notReportedSince, 100);
+
+        // The flag keeps its first date and is cleared once the finding is reported again
+        const later = reconcileFindings(result.findings, [], ['src/Vault.sol'], 200);
+        assert.strictEqual(later.notReported[0].notReportedSince, 100);
+        const reportedAgain = reconcileFindings(later.findings, [REENTRANCY], ['src/Vault.sol'], 300);
+        assert.strictEqual(reportedAgain.unchanged[0].notReportedSince, undefined);
+    });
+
+    test('sorts findings by severity, then file and line', () => {
+        const sorted = [TX_ORIGIN, UNCHECKED_CALL, REENTRANCY, { ...movedTo(REENTRANCY, 9), file: 'src/Bank.sol' }].sort(compareFindings);
+        assert.deepStrictEqual(sorted.map(finding => `${finding.severity} ${finding.file}:${finding.line}`), [
+            'high src/Bank.sol:9',
+            'high src/Vault.sol:40',
+            'medium src/Vault.sol:80',
+            'low src/Other.sol:12'
+        ]);
+    });
+});
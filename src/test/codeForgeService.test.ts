@@ -0,0 +1,75 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { CodeForgeService } from '../services/CodeForgeService';
+import { ConfigurationManager } from '../managers/ConfigurationManager';
+import { ModelManager } from '../managers/ModelManager';
+import { EditReviewService } from '../services/EditReviewService';
+import { ContextBudgetService } from '../services/ContextBudgetService';
+import { AgentToolService } from '../services/AgentToolService';
+
+interface StubReply {
+    args: string[];
+    input: string;
+}
+
+// The stub is started through a shell script, so it runs as a plain executable like the real CLI
+(process.platform === 'win32' ? suite.skip : suite)('CodeForgeService CLI', () => {
+    let dir: string;
+    let timeout: number;
+    let service: CodeForgeService;
+
+    setup(async () => {
+        dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'codeforgex-cli-'));
+        const cliPath = path.join(dir, 'codeforgeai');
+        const stub = path.join(__dirname, 'fixtures', 'cliStub.js');
+        // Inside the VS Code test host the executable is Electron
+        await fs.promises.writeFile(cliPath, `#!/bin/sh\nELECTRON_RUN_AS_NODE=1 exec "${process.execPath}" "${stub}" "$@"\n`, { mode: 0o755 });
+
+        timeout = 10000;
+        const configManager = {
+            getConfig: () => ({ cliPath, timeout, customInstructions: '' }),
+            getActiveFolder: () => undefined
+        } as unknown as ConfigurationManager;
+        const modelManager = { getModelFor: () => 'local-model' } as unknown as ModelManager;
+        const contextBudgetService = {
+            fit: async () => ({ content: '', report: { trimmed: [] } })
+        } as unknown as ContextBudgetService;
+
+        service = new CodeForgeService(configManager, {} as EditReviewService, contextBudgetService, modelManager, {} as AgentToolService);
+    });
+
+    teardown(() => fs.promises.rm(dir, { recursive: true, force: true }));
+
+    test('sends a prompt that looks like options through stdin', async () => {
+        const reply: StubReply = JSON.parse(await service.processPrompt('--model other -h', []));
+        assert.deepStrictEqual(reply.args, ['prompt', '--model', 'local-model', '-']);
+        assert.strictEqual(reply.input, '--model other -h');
+    });
+
+    test('keeps quotes, substitutions and newlines verbatim', async () => {
+        const prompt = 'Explain "$(rm -rf ~)" and `id`\n-- done';
+        const reply: StubReply = JSON.parse(await service.processPrompt(prompt, []));
+        assert.deepStrictEqual(reply.args, ['prompt', '--model', 'local-model', '-']);
+        assert.strictEqual(reply.input, prompt);
+    });
+
+    test('passes the edit request through stdin after --user_prompt', async () => {
+        const file = { uri: vscode.Uri.file(path.join(dir, 'a.ts')), name: 'a.ts', relativePath: 'a.ts', content: 'let a = 1;\n', isActive: true };
+        const reply: StubReply = JSON.parse(await service.processEdit('-h', [file]));
+        assert.deepStrictEqual([reply.args.slice(0, 3), reply.args.slice(4)], [['edit', '--model', 'local-model'], ['--user_prompt', '-']]);
+        assert.ok(reply.args[3].startsWith(path.join(os.tmpdir(), 'codeforgex-')));
+        assert.strictEqual(reply.input, '-h');
+    });
+
+    test('keeps an answer running while it streams and stops a silent one', async () => {
+        timeout = 500;
+        // Six chunks 150ms apart run past the timeout, but never go 500ms without output
+        const streamed: StubReply = JSON.parse(await service.processPrompt('stream 6 150', []));
+        assert.strictEqual(streamed.input, 'stream 6 150');
+
+        await assert.rejects(service.processPrompt('sleep 1500', []), /produced no output for 500ms/);
+    }).timeout(5000);
+});
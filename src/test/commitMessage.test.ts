@@ -0,0 +1,39 @@
+import * as assert from 'assert';
+import { formatCommitInstructions, normalizeCommitMessage } from '../utils/commitMessage';
+
+suite('commitMessage', () => {
+    test('asks for Conventional Commits only when configured', () => {
+        const conventional = formatCommitInstructions('conventional', 50).split('\n');
+        assert.strictEqual(conventional[0], 'Write a git commit message for the diff below.');
+        assert.ok(conventional[1].startsWith('Follow Conventional Commits: `<type>(<optional scope>): <description>`'));
+        assert.ok(conventional.includes('The subject line is at most 50 characters, in the imperative mood, without a trailing period.'));
+
+        assert.ok(!formatCommitInstructions('none', 72).includes('Conventional Commits'));
+    });
+
+    test('unwraps fenced and quoted replies', () => {
+        const reply = 'Here is a commit message:\n```text\nfeat(parser): accept trailing commas\n\nArrays and objects may now end with a comma.\n```';
+        assert.strictEqual(normalizeCommitMessage(reply, 72), 'feat(parser): accept trailing commas\n\nArrays and objects may now end with a comma.');
+        assert.strictEqual(normalizeCommitMessage('  "fix: handle empty diffs"\n', 72), 'fix: handle empty diffs');
+    });
+
+    test('keeps a subject that fits as it is', () => {
+        const subject = 'fix(api)!: drop the deprecated v1 endpoints';
+        assert.strictEqual(normalizeCommitMessage(subject, subject.length), subject);
+    });
+
+    test('shortens an overlong subject at a word boundary and keeps the body', () => {
+        const message = 'refactor(context): share the token budget between files, smallest first\n\nLarge files no longer starve small ones.';
+        const normalized = normalizeCommitMessage(message, 50);
+        const [subject, ...body] = normalized.split('\n');
+
+        assert.strictEqual(subject, 'refactor(context): share the token budget between');
+        assert.ok(subject.length <= 50);
+        assert.deepStrictEqual(body, ['', 'Large files no longer starve small ones.']);
+    });
+
+    test('drops the punctuation left at the cut and cuts long words hard', () => {
+        assert.strictEqual(normalizeCommitMessage('docs: explain setup, usage, and troubleshooting', 21), 'docs: explain setup');
+        assert.strictEqual(normalizeCommitMessage('chore: bump-all-the-dependencies-to-latest', 20), 'chore: bump-all-the');
+    });
+});
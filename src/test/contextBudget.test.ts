@@ -0,0 +1,97 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { ContextFile } from '../types';
+import { ConfigurationManager } from '../managers/ConfigurationManager';
+import { ContextBudgetService } from '../services/ContextBudgetService';
+
+// Numbered lines of about 50 characters, so a file's size is easy to reason about
+function source(lines: number): string {
+    return Array.from({ length: lines }, (_, index) => `let value${String(index).padStart(3, '0')} = ${index}; // keeps the line long enough`).join('\n');
+}
+
+function budgetService(budget: number): ContextBudgetService {
+    return new ContextBudgetService({ getContextBudget: () => budget } as unknown as ConfigurationManager);
+}
+
+suite('ContextBudgetService', () => {
+    let dir: string;
+
+    const contextFile = (relativePath: string, content: string): ContextFile => ({
+        uri: vscode.Uri.file(path.join(dir, relativePath)),
+        name: path.basename(relativePath),
+        relativePath,
+        content,
+        isActive: true
+    });
+
+    setup(async () => {
+        dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'codeforgex-budget-'));
+    });
+
+    teardown(() => fs.promises.rm(dir, { recursive: true, force: true }));
+
+    test('counts each file header and separator against the budget', async () => {
+        // 400 characters plus "// File: a.ts\n" and a separator come to 106 tokens per file
+        const files = [contextFile('b.ts', 'b'.repeat(400)), contextFile('a.ts', 'a'.repeat(400))];
+
+        const whole = await budgetService(212).fit(files, '');
+        assert.strictEqual(whole.content, `// File: b.ts\n${'b'.repeat(400)}\n\n---\n\n// File: a.ts\n${'a'.repeat(400)}`);
+        assert.deepStrictEqual(whole.report, { budget: 212, usedTokens: 212, trimmed: [] });
+
+        const tight = await budgetService(211).fit(files, '');
+        assert.deepStrictEqual(tight.report.trimmed.map(trim => [trim.relativePath, trim.action]), [['a.ts', 'truncated']]);
+        assert.ok(tight.report.usedTokens <= 211);
+    });
+
+    test('keeps the symbols the query names, then the head and tail, then drops the file', async () => {
+        const file = contextFile('vault.cfx', source(60));
+        await fs.promises.writeFile(file.uri.fsPath, file.content ?? '');
+        const range = new vscode.Range(20, 0, 39, 60);
+        const provider = vscode.languages.registerDocumentSymbolProvider({ scheme: 'file', pattern: '**/*.cfx' }, {
+            provideDocumentSymbols: () => [new vscode.DocumentSymbol('withdraw', '', vscode.SymbolKind.Function, range, range)]
+        });
+
+        try {
+            const symbols = await budgetService(300).fit([file], 'Explain withdraw');
+            assert.deepStrictEqual(symbols.report.trimmed.map(trim => trim.action), ['symbols']);
+            assert.ok(symbols.content.startsWith('// File: vault.cfx\n// Lines 21-40\nlet value020 = 20;'));
+            assert.ok(symbols.content.endsWith('let value039 = 39; // keeps the line long enough'));
+
+            // The symbol no longer fits, but a usable share is left
+            const truncated = await budgetService(150).fit([file], 'Explain withdraw');
+            assert.deepStrictEqual(truncated.report.trimmed.map(trim => trim.action), ['truncated']);
+            assert.ok(truncated.report.usedTokens <= truncated.report.budget);
+            assert.ok(truncated.content.includes('\nlet value000 = 0;'));
+            assert.ok(truncated.content.endsWith('let value059 = 59; // keeps the line long enough'));
+
+            const dropped = await budgetService(50).fit([file], 'Explain withdraw');
+            assert.deepStrictEqual(dropped.report.trimmed.map(trim => [trim.action, trim.keptTokens]), [['dropped', 0]]);
+            assert.strictEqual(dropped.content, '');
+        } finally {
+            provider.dispose();
+        }
+    });
+
+    test('drops the largest files first until each gets a usable share', async () => {
+        const files = [contextFile('large.ts', source(16)), contextFile('small.ts', source(2)), contextFile('medium.ts', source(8))];
+        const { report } = await budgetService(120).fit(files, '');
+        assert.deepStrictEqual(report.trimmed.map(trim => [trim.relativePath, trim.action]), [['large.ts', 'dropped'], ['medium.ts', 'dropped']]);
+    });
+
+    test('marks omitted lines in the comment syntax of the file', async () => {
+        const marker = async (relativePath: string) => {
+            const { content } = await budgetService(200).fit([contextFile(relativePath, source(60))], '');
+            // How many lines are left out depends on the length of the header
+            return content.split('\n').find(line => line.includes('lines omitted'))?.replace(/\d+ lines/, 'N lines');
+        };
+
+        assert.strictEqual(await marker('src/app.ts'), '// ... N lines omitted to fit the context budget ...');
+        assert.strictEqual(await marker('scripts/build.py'), '# ... N lines omitted to fit the context budget ...');
+        assert.strictEqual(await marker('docs/README.md'), '<!-- ... N lines omitted to fit the context budget ... -->');
+        assert.strictEqual(await marker('styles/site.css'), '/* ... N lines omitted to fit the context budget ... */');
+        assert.strictEqual(await marker('package.json'), '... N lines omitted to fit the context budget ...');
+    });
+});
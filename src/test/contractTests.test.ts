@@ -0,0 +1,185 @@
+import * as assert from 'assert';
+import {
+    decodeRevertData,
+    formatCallTrace,
+    parseCallFrame,
+    parseForgeTestResults,
+    parseGasReport,
+    parseHardhatTestResults,
+    parseStructTrace,
+    parseTransactionReceipt
+} from '../utils/contractTests';
+
+// `forge test --json`, trimmed to the fields the parser reads plus a few it ignores
+const FORGE_OUTPUT = `Compiling 1 files with Solc 0.8.24
+Solc 0.8.24 finished in 812.42ms
+{"test/Counter.t.sol:CounterTest":{"duration":"4ms 512us","test_results":{
+"test_Increment()":{"status":"Success","reason":null,"counterexample":null,"logs":[],"decoded_logs":["count: 1"],"kind":{"Unit":{"gas":31303}},"traces":[],"labeled_addresses":{}},
+"testFuzz_SetNumber(uint256)":{"status":"Failure","reason":"assertion failed: 1 != 0","counterexample":{"Single":{"calldata":"0x5c7f60d70000000000000000000000000000000000000000000000000000000000000001","signature":"testFuzz_SetNumber(uint256)","contract_name":null,"traces":null,"args":"1"}},"logs":[],"decoded_logs":[],"kind":{"Fuzz":{"first_case":{"calldata":"0x","gas":0,"stipend":0},"runs":3,"mean_gas":30210,"median_gas":30178}},"traces":[]},
+"test_Skipped()":{"status":"Skipped","reason":null,"counterexample":null,"decoded_logs":[],"kind":{"Unit":{"gas":0}}}
+},"warnings":[]},
+"test/Counter.t.sol:CounterInvariants":{"duration":"30ms","test_results":{
+"invariant_NeverNegative()":{"status":"Failure","reason":"invariant broken","counterexample":{"Sequence":[{"sender":"0x0000000000000000000000000000000000000001","addr":"0x5615deb798bb3e4dfa0139dfa1b3d433cc23b72f","calldata":"0x","contract_name":"Counter","signature":"decrement()","args":""},{"contract_name":"Counter","signature":"setNumber(uint256)","args":"0"}]},"decoded_logs":[],"kind":{"Invariant":{"runs":256,"calls":3840,"reverts":12}}}
+},"warnings":[]}}`;
+
+// Solc errors have no JSON; forge prints them and exits before running any test
+const FORGE_COMPILE_ERROR = `Compiling 1 files with Solc 0.8.24
+Solc 0.8.24 finished in 403.10ms
+Error: Compiler run failed:
+Error (2314): Expected ';' but got '}'
+ --> src/Counter.sol:9:5:
+  |
+9 |     }
+  |     ^
+`;
+
+// Mocha's spec reporter as \`npx hardhat test\` prints it, colors included
+const HARDHAT_OUTPUT = `
+
+  Lock
+    Deployment
+\u001b[32m      ✔\u001b[0m Should set the right unlockTime \u001b[31m(1523ms)\u001b[0m
+      1) Should set the right owner
+    Withdrawals
+      - Should transfer the funds to the owner
+
+
+  1 passing (2s)
+  1 pending
+  1 failing
+
+  1) Lock
+       Deployment
+         Should set the right owner:
+     Error: VM Exception while processing transaction: reverted with reason string 'You aren't the owner'
+      at Lock.withdraw (contracts/Lock.sol:31)
+      at HardhatNode._mineBlockWithPendingTxs (node_modules/hardhat/src/internal/hardhat-network/provider/node.ts:1866:23)
+
+`;
+
+const GAS_REPORT = `
+·----------------------|---------------------------|-------------|-----------------------------·
+|  Solc version: 0.8.24  ·  Optimizer enabled: false  ·  Runs: 200  ·  Block limit: 30000000 gas  │
+·······················|···························|·············|······························
+|  Methods                                                                                         │
+·············|·········|·············|·············|·············|···············|··············
+|  Contract  ·  Method  ·  Min        ·  Max        ·  Avg        ·  # calls      ·  usd (avg)  │
+·············|·········|·············|·············|·············|···············|··············
+|  Lock      ·  withdraw  ·      33990  ·      34014  ·      34002  ·            2  ·          -  │
+|  Token     ·  transfer  ·          -  ·          -  ·      51320  ·            1  ·          -  │
+·············|·········|·············|·············|·············|···············|··············
+|  Deployments                        ·                                         ·  % of limit   ·             │
+|  Lock      ·          -  ·          -  ·     326016  ·        1.1 %  ·          -  │
+`;
+
+// Error("Not owner")
+const REVERT_NOT_OWNER = '0x08c379a0'
+    + '0000000000000000000000000000000000000000000000000000000000000020'
+    + '0000000000000000000000000000000000000000000000000000000000000009'
+    + '4e6f74206f776e65720000000000000000000000000000000000000000000000';
+
+suite('contractTests', () => {
+    test('reads forge results with gas, logs and counterexamples', () => {
+        assert.deepStrictEqual(parseForgeTestResults(FORGE_OUTPUT), [
+            { suite: 'CounterTest', name: 'test_Increment()', status: 'passed', reason: undefined, gas: 31303, counterexample: undefined, logs: ['count: 1'] },
+            {
+                suite: 'CounterTest',
+                name: 'testFuzz_SetNumber(uint256)',
+                status: 'failed',
+                reason: 'assertion failed: 1 != 0',
+                gas: 30178,
+                counterexample: 'testFuzz_SetNumber(uint256) with 1',
+                logs: undefined
+            },
+            { suite: 'CounterTest', name: 'test_Skipped()', status: 'skipped', reason: undefined, gas: 0, counterexample: undefined, logs: undefined },
+            {
+                suite: 'CounterInvariants',
+                name: 'invariant_NeverNegative()',
+                status: 'failed',
+                reason: 'invariant broken',
+                gas: undefined,
+                counterexample: 'Counter.decrement() → Counter.setNumber(uint256)(0)',
+                logs: undefined
+            }
+        ]);
+    });
+
+    test('reads no forge results from a compile error or malformed JSON', () => {
+        assert.strictEqual(parseForgeTestResults(FORGE_COMPILE_ERROR), undefined);
+        assert.strictEqual(parseForgeTestResults('{"test/A.t.sol:A": {"test_results": '), undefined);
+        assert.deepStrictEqual(parseForgeTestResults('{"test/A.t.sol:A": {"test_results": [1, 2]}, "warnings": null}'), []);
+    });
+
+    test('reads the hardhat spec reporter with suites and failure reasons', () => {
+        assert.deepStrictEqual(parseHardhatTestResults(HARDHAT_OUTPUT), [
+            { suite: 'Lock › Deployment', name: 'Should set the right unlockTime', status: 'passed' },
+            { suite: 'Lock › Deployment', name: 'Should set the right owner', status: 'failed', reason: 'You aren\'t the owner' },
+            { suite: 'Lock › Withdrawals', name: 'Should transfer the funds to the owner', status: 'skipped' }
+        ]);
+        assert.strictEqual(parseHardhatTestResults('Error HH600: Compilation failed'), undefined);
+    });
+
+    test('reads the method rows of the gas report', () => {
+        assert.deepStrictEqual(parseGasReport(GAS_REPORT), [
+            { contract: 'Lock', method: 'withdraw', min: 33990, max: 34014, avg: 34002, calls: 2 },
+            { contract: 'Token', method: 'transfer', min: undefined, max: undefined, avg: 51320, calls: 1 }
+        ]);
+    });
+
+    test('decodes revert data', () => {
+        const signatures = new Map([['0x82b42900', 'Unauthorized()']]);
+        assert.strictEqual(decodeRevertData(REVERT_NOT_OWNER, signatures), 'Not owner');
+        assert.strictEqual(decodeRevertData(`0x4e487b71${'11'.padStart(64, '0')}`, signatures), 'Panic(0x11): arithmetic overflow or underflow');
+        assert.strictEqual(decodeRevertData('0x82b42900', signatures), 'Unauthorized() (custom error)');
+        assert.strictEqual(decodeRevertData('0xdeadbeef', signatures), 'custom error 0xdeadbeef');
+        assert.strictEqual(decodeRevertData('0x', signatures), undefined);
+    });
+
+    test('reads and renders a call trace from the devnet', () => {
+        const frame = parseCallFrame({
+            type: 'CALL',
+            from: '0xf39fd6e51aad88f6f4ce6ab8827279cfffb92266',
+            to: '0x5fbdb2315678afecb367f032d93f642f64180aa3',
+            value: '0x0',
+            gas: '0x1c9c380',
+            gasUsed: '0x6a4b',
+            input: '0x3ccfd60b',
+            output: REVERT_NOT_OWNER,
+            error: 'execution reverted',
+            calls: [
+                { type: 'STATICCALL', from: '0x5fbdb2315678afecb367f032d93f642f64180aa3', to: '0x0000000000000000000000000000000000000001', gasUsed: '0xbb8', input: '0x' },
+                { type: 'CALL', to: '0xmissing-sender' },
+                'not a frame'
+            ]
+        });
+        assert.ok(frame);
+        assert.strictEqual(formatCallTrace(frame, new Map([['0x3ccfd60b', 'withdraw()']])), [
+            'CALL 0x5fbdb2315678afecb367f032d93f642f64180aa3 withdraw() gas 27211 ✗ execution reverted: Not owner',
+            '  STATICCALL 0x0000000000000000000000000000000000000001 fallback() gas 3000'
+        ].join('\n'));
+
+        // Quantities that are not hex would make BigInt throw while rendering
+        assert.strictEqual(parseCallFrame({ type: 'CALL', from: '0x1', value: 'lots' })?.value, undefined);
+        assert.strictEqual(parseCallFrame(null), undefined);
+    });
+
+    test('reads receipts and struct traces from the devnet', () => {
+        assert.deepStrictEqual(parseTransactionReceipt({
+            blockNumber: '0x2',
+            status: '0x0',
+            gasUsed: '0x6a4b',
+            contractAddress: null,
+            logs: [{}, {}]
+        }), { blockNumber: 2n, succeeded: false, gasUsed: 27211n, contractAddress: undefined, logCount: 2 });
+        assert.strictEqual(parseTransactionReceipt(null), undefined);
+        assert.strictEqual(parseTransactionReceipt({ blockNumber: 2, gasUsed: '0x1' }), undefined);
+
+        assert.deepStrictEqual(parseStructTrace({
+            failed: true,
+            gas: 27211,
+            returnValue: '08c379a0',
+            structLogs: [{ pc: 0, op: 'PUSH1', gas: 100, depth: 1 }, { pc: 2, op: 'MSTORE' }, null]
+        }), { failed: true, returnValue: '08c379a0', steps: [{ depth: 1, pc: 0, op: 'PUSH1' }] });
+        assert.strictEqual(parseStructTrace('0x'), undefined);
+    });
+});
@@ -0,0 +1,66 @@
+import * as assert from 'assert';
+import { applyHunks, computeHunks, numberUnifiedDiff, parseUnifiedDiff } from '../utils/diff';
+
+suite('diff', () => {
+    test('finds no hunks in identical texts', () => {
+        assert.deepStrictEqual(computeHunks('a\nb\nc', 'a\nb\nc'), []);
+    });
+
+    test('splits changes separated by an unchanged line into hunks', () => {
+        const hunks = computeHunks('a\nb\nc\nd\ne', 'a\nB\nc\nd\ne\nf');
+        assert.deepStrictEqual(hunks, [
+            { originalStart: 1, originalLength: 1, modifiedLines: ['B'] },
+            { originalStart: 5, originalLength: 0, modifiedLines: ['f'] }
+        ]);
+    });
+
+    test('reports deletions as hunks without lines', () => {
+        assert.deepStrictEqual(computeHunks('a\nb\nc', 'a\nc'), [{ originalStart: 1, originalLength: 1, modifiedLines: [] }]);
+    });
+
+    test('applies all hunks to reproduce the modified text', () => {
+        const original = 'one\ntwo\nthree\nfour\nfive';
+        const modified = 'zero\none\n2\nthree\nfive\nsix';
+        assert.strictEqual(applyHunks(original, computeHunks(original, modified)), modified);
+    });
+
+    test('applies a subset of hunks and keeps CRLF line endings', () => {
+        const original = 'a\r\nb\r\nc\r\nd';
+        const [first] = computeHunks(original, 'A\r\nb\r\nc\r\nD');
+        assert.strictEqual(applyHunks(original, [first]), 'A\r\nb\r\nc\r\nd');
+    });
+
+    test('lists changed files and the new lines their hunks cover', () => {
+        const diff = [
+            'diff --git a/src/a.ts b/src/a.ts',
+            '--- a/src/a.ts',
+            '+++ b/src/a.ts',
+            '@@ -1,3 +1,4 @@',
+            ' x',
+            '+y',
+            '@@ -10 +11 @@',
+            '-old',
+            '+new',
+            'diff --git a/src/gone.ts b/src/gone.ts',
+            '--- a/src/gone.ts',
+            '+++ /dev/null',
+            '@@ -1,2 +0,0 @@',
+            '-a',
+            '-b'
+        ].join('\n');
+        assert.deepStrictEqual(parseUnifiedDiff(diff), [
+            { path: 'src/a.ts', ranges: [{ startLine: 1, endLine: 4 }, { startLine: 11, endLine: 11 }] }
+        ]);
+    });
+
+    test('numbers the new-version lines of a diff', () => {
+        const diff = ['+++ b/a.ts', '@@ -4,2 +4,2 @@', ' keep', '-old', '+new'].join('\n');
+        assert.deepStrictEqual(numberUnifiedDiff(diff).split('\n'), [
+            '+++ b/a.ts',
+            '@@ -4,2 +4,2 @@',
+            '    4  keep',
+            '      -old',
+            '    5 +new'
+        ]);
+    });
+});
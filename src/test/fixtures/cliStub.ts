@@ -0,0 +1,33 @@
+/**
+ * Stub CodeForgeAI CLI for the CodeForgeService tests: replies with the
+ * arguments it was started with and what it read from stdin, as JSON.
+ *
+ * An input of `stream <count> <ms>` first writes `count` chunks, one every
+ * `ms` milliseconds; `sleep <ms>` waits that long before replying.
+ */
+let input = '';
+process.stdin.setEncoding('utf8');
+process.stdin.on('data', (chunk: string) => {
+    input += chunk;
+});
+process.stdin.on('end', () => {
+    const reply = () => process.stdout.write(JSON.stringify({ args: process.argv.slice(2), input }));
+    const stream = /^stream (\d+) (\d+)$/.exec(input);
+    const sleep = /^sleep (\d+)$/.exec(input);
+
+    if (stream) {
+        let left = Number(stream[1]);
+        const timer = setInterval(() => {
+            if (left-- > 0) {
+                process.stdout.write(' ');
+            } else {
+                clearInterval(timer);
+                reply();
+            }
+        }, Number(stream[2]));
+    } else if (sleep) {
+        setTimeout(reply, Number(sleep[1]));
+    } else {
+        reply();
+    }
+});
@@ -0,0 +1,66 @@
+/**
+ * Stub MCP server for the McpClient tests: answers JSON-RPC over stdio, one
+ * message per line, with a fixed set of tools.
+ *
+ * - `echo` returns its `text` argument.
+ * - `fail` answers with a JSON-RPC error.
+ * - `exit` ends the process with the given `code` without answering.
+ * - `empty` answers with `content: null`, as some servers do.
+ */
+import * as readline from 'readline';
+
+const TOOLS = [
+    { name: 'echo', description: 'Returns its text argument', inputSchema: { type: 'object', properties: { text: { type: 'string' } } } },
+    { name: 'fail', description: 'Always fails' },
+    { name: 'exit', description: 'Exits the server' },
+    { name: 'empty', description: 'Returns no content' },
+    { description: 'A tool without a name' }
+];
+
+interface Params {
+    protocolVersion?: string;
+    name?: string;
+    arguments?: Record<string, unknown>;
+}
+
+function send(message: object): void {
+    process.stdout.write(JSON.stringify(message) + '\n');
+}
+
+function handle(method: string, params: Params): unknown {
+    switch (method) {
+        case 'initialize':
+            return { protocolVersion: params.protocolVersion, capabilities: { tools: {} }, serverInfo: { name: 'stub', version: '1.0.0' } };
+        case 'tools/list':
+            return { tools: TOOLS };
+        case 'tools/call':
+            switch (params.name) {
+                case 'echo':
+                    return { content: [{ type: 'text', text: String(params.arguments?.text ?? '') }] };
+                case 'fail':
+                    throw new Error('Tool failed on purpose');
+                case 'exit':
+                    process.exit(Number(params.arguments?.code ?? 0));
+                    break;
+                case 'empty':
+                    return { content: null };
+            }
+            throw new Error(`Unknown tool: ${params.name}`);
+        default:
+            throw Object.assign(new Error('Method not found'), { code: -32601 });
+    }
+}
+
+readline.createInterface({ input: process.stdin }).on('line', line => {
+    const message = JSON.parse(line);
+    // Notifications such as notifications/initialized need no answer
+    if (message.id === undefined) {
+        return;
+    }
+    try {
+        send({ jsonrpc: '2.0', id: message.id, result: handle(message.method, message.params) });
+    } catch (error) {
+        const { code = -32000, message: text } = error as Error & { code?: number };
+        send({ jsonrpc: '2.0', id: message.id, error: { code, message: text } });
+    }
+});
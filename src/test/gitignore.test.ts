@@ -0,0 +1,84 @@
+import * as assert from 'assert';
+import { GitIgnore } from '../utils/gitignore';
+
+// Paths are checked one at a time; callers skip the contents of ignored directories themselves
+function ignored(rules: string, paths: [string, boolean][]): string[] {
+    const gitignore = new GitIgnore(rules);
+    return paths.filter(([relativePath, isDirectory]) => gitignore.ignores(relativePath, isDirectory)).map(([relativePath]) => relativePath);
+}
+
+suite('GitIgnore', () => {
+    test('matches unanchored patterns at any depth and skips comments', () => {
+        const rules = '# build output\n*.log\n\nnode_modules\n';
+        assert.deepStrictEqual(ignored(rules, [
+            ['debug.log', false],
+            ['packages/api/error.log', false],
+            ['packages/api/node_modules', true],
+            ['log.txt', false],
+            ['# build output', false]
+        ]), ['debug.log', 'packages/api/error.log', 'packages/api/node_modules']);
+    });
+
+    test('anchors patterns with a leading or inner slash', () => {
+        assert.deepStrictEqual(ignored('/build\ndocs/generated\n', [
+            ['build', true],
+            ['src/build', true],
+            ['docs/generated', true],
+            ['src/docs/generated', true]
+        ]), ['build', 'docs/generated']);
+    });
+
+    test('applies a trailing slash to directories only', () => {
+        assert.deepStrictEqual(ignored('cache/\n', [
+            ['cache', true],
+            ['src/cache', true],
+            ['cache', false]
+        ]), ['cache', 'src/cache']);
+    });
+
+    test('matches ** across directories', () => {
+        assert.deepStrictEqual(ignored('**/fixtures/*.json\nlogs/**\na/**/b\n', [
+            ['fixtures/user.json', false],
+            ['test/unit/fixtures/user.json', false],
+            ['test/fixtures/nested/user.json', false],
+            ['logs/2024/01/app.txt', false],
+            ['logs', true],
+            ['a/b', true],
+            ['a/x/y/b', true],
+            ['a/xb', true]
+        ]), ['fixtures/user.json', 'test/unit/fixtures/user.json', 'logs/2024/01/app.txt', 'a/b', 'a/x/y/b']);
+    });
+
+    test('keeps * and ? within one path segment', () => {
+        assert.deepStrictEqual(ignored('/src/*.gen.ts\ntmp?\n', [
+            ['src/api.gen.ts', false],
+            ['src/nested/api.gen.ts', false],
+            ['tmp1', true],
+            ['tmp', true],
+            ['tmp/x', true]
+        ]), ['src/api.gen.ts', 'tmp1']);
+    });
+
+    test('lets the last matching rule win, so negations re-include', () => {
+        const rules = '*.env\n!example.env\nsecrets/\n!secrets/\n';
+        assert.deepStrictEqual(ignored(rules, [
+            ['prod.env', false],
+            ['example.env', false],
+            ['config/example.env', false],
+            ['secrets', true]
+        ]), ['prod.env']);
+        assert.deepStrictEqual(ignored('!keep.txt\n*.txt\n', [['keep.txt', false]]), ['keep.txt']);
+    });
+
+    test('supports sets and escaped special characters', () => {
+        assert.deepStrictEqual(ignored('*.py[cod]\n*.[!t]mp\n\\#notes\n\\!important\n', [
+            ['module.pyc', false],
+            ['module.pyo', false],
+            ['module.py', false],
+            ['a.bmp', false],
+            ['a.tmp', false],
+            ['#notes', false],
+            ['!important', false]
+        ]), ['module.pyc', 'module.pyo', 'a.bmp', '#notes', '!important']);
+    });
+});
@@ -0,0 +1,21 @@
+import * as assert from 'assert';
+import { keccak256 } from '../utils/keccak';
+
+suite('keccak256', () => {
+    test('hashes the empty string', () => {
+        assert.strictEqual(keccak256(''), 'c5d2460186f7233c927e7db2dcc703c0e500b653ca82273b7bfad8045d85a470');
+    });
+
+    test('hashes strings and bytes alike', () => {
+        const expected = '4e03657aea45a94fc7d47ba826c8d667c0d1e6e33a64a036ec44f58fa12d6c45';
+        assert.strictEqual(keccak256('abc'), expected);
+        assert.strictEqual(keccak256(new Uint8Array([0x61, 0x62, 0x63])), expected);
+    });
+
+    test('gives distinct digests around the block boundary', () => {
+        // 136 bytes is the rate, so these lengths exercise the padding of a full and a partial block
+        const digests = [135, 136, 137].map(length => keccak256('a'.repeat(length)));
+        assert.ok(digests.every(digest => /^[0-9a-f]{64}$/.test(digest)));
+        assert.strictEqual(new Set(digests).size, 3);
+    });
+});
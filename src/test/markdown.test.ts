@@ -0,0 +1,41 @@
+import * as assert from 'assert';
+import { renderMarkdown } from '../utils/markdown';
+
+suite('renderMarkdown', () => {
+    test('renders headings and emphasis', () => {
+        assert.strictEqual(renderMarkdown('# Title **bold**'), '<h1>Title <strong>bold</strong></h1>');
+        assert.strictEqual(renderMarkdown('use `a*b*c` and *em*'), '<p>use <code>a*b*c</code> and <em>em</em></p>');
+    });
+
+    test('escapes HTML and drops links that are not http or mailto', () => {
+        assert.strictEqual(
+            renderMarkdown('a <b>x</b> [l](javascript:alert(1)) [ok](https://x.y)'),
+            '<p>a &lt;b&gt;x&lt;/b&gt; l <a href="https://x.y">ok</a></p>'
+        );
+    });
+
+    test('renders nested lists', () => {
+        assert.strictEqual(renderMarkdown('1. one\n2. two\n   - nested'), '<ol><li>one</li><li>two<ul><li>nested</li></ul></li></ol>');
+        assert.strictEqual(renderMarkdown('3. three'), '<ol start="3"><li>three</li></ol>');
+    });
+
+    test('renders tables with column alignment', () => {
+        assert.strictEqual(
+            renderMarkdown('| a | b |\n| :- | -: |\n| 1 | 2 |'),
+            '<table><thead><tr><th style="text-align: left">a</th><th style="text-align: right">b</th></tr></thead>'
+            + '<tbody><tr><td style="text-align: left">1</td><td style="text-align: right">2</td></tr></tbody></table>'
+        );
+    });
+
+    test('renders an unclosed fence as a code block with its language and path', () => {
+        const html = renderMarkdown('```ts src/a.ts\nconst x = 1;');
+        assert.ok(html.startsWith('<div class="code-block" data-lang="ts" data-path="src/a.ts">'));
+        assert.ok(html.includes('data-action="apply"'));
+        assert.ok(html.includes('<pre><code><span class="tok-keyword">const</span> x = <span class="tok-number">1</span>;</code></pre>'));
+        assert.ok(renderMarkdown('```ts:lib/b.ts\nx\n```').includes('data-path="lib/b.ts"'));
+    });
+
+    test('escapes code block content', () => {
+        assert.ok(renderMarkdown('```\n<script>alert(1)</script>\n```').includes('&lt;script&gt;'));
+    });
+});
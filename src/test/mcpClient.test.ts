@@ -0,0 +1,52 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import { McpClient } from '../services/McpClient';
+
+suite('McpClient', () => {
+    let client: McpClient;
+
+    setup(async () => {
+        client = new McpClient({
+            name: 'stub',
+            command: process.execPath,
+            args: [path.join(__dirname, 'fixtures', 'mcpStubServer.js')],
+            // Inside the VS Code test host the executable is Electron
+            env: { ELECTRON_RUN_AS_NODE: '1' }
+        }, 5000);
+        await client.start();
+    });
+
+    teardown(() => client.stop());
+
+    test('initializes and lists the server tools', async () => {
+        assert.ok(client.isRunning);
+        const tools = await client.listTools();
+        // The tool without a name is left out
+        assert.deepStrictEqual(tools.map(tool => tool.name), ['echo', 'fail', 'exit', 'empty']);
+        assert.strictEqual(tools[0].description, 'Returns its text argument');
+    });
+
+    test('calls a tool', async () => {
+        const result = await client.callTool('echo', { text: 'hello' });
+        assert.deepStrictEqual(result, { content: [{ type: 'text', text: 'hello' }], isError: false });
+    });
+
+    test('reads a missing content list as an empty result', async () => {
+        assert.deepStrictEqual(await client.callTool('empty', {}), { content: [], isError: false });
+    });
+
+    test('rejects with the message of an error response', async () => {
+        await assert.rejects(client.callTool('fail', {}), /Tool failed on purpose/);
+        await assert.rejects(client.readResource('file:///missing'), /Method not found/);
+        // The connection stays usable after an error
+        assert.strictEqual((await client.callTool('echo', { text: 'still here' })).content[0].text, 'still here');
+    });
+
+    test('fails pending requests and reports the exit code when the server exits', async () => {
+        const exited = new Promise<number | null>(resolve => client.once('exit', resolve));
+        await assert.rejects(client.callTool('exit', { code: 3 }), /exited with code 3/);
+        assert.strictEqual(await exited, 3);
+        assert.strictEqual(client.isRunning, false);
+        await assert.rejects(client.listTools(), /is not running/);
+    });
+});
@@ -0,0 +1,71 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { ContextDiagnostic, ContextFile } from '../types';
+import { formatMention, mergeContextFiles, mergeDiagnostics, parseMentions } from '../utils/mentions';
+
+/** A whole file in context; only the URI's string form is used to compare entries. */
+function contextFile(relativePath: string): ContextFile {
+    return {
+        uri: { toString: () => `file:///ws/${relativePath}` } as vscode.Uri,
+        name: relativePath.split('/').pop() ?? relativePath,
+        relativePath,
+        isActive: true
+    };
+}
+
+const diagnostic = (line: number, message: string): ContextDiagnostic => ({
+    relativePath: 'src/a.ts',
+    severity: 'error',
+    range: { startLine: line, endLine: line },
+    column: 1,
+    message,
+    snippet: ''
+});
+
+suite('mentions', () => {
+    test('parses each kind of mention once', () => {
+        assert.deepStrictEqual(parseMentions('see @file:src/a.ts and @folder:lib, @symbol:run @git:diff @problems @file:src/a.ts'), [
+            { kind: 'file', value: 'src/a.ts', text: '@file:src/a.ts' },
+            { kind: 'folder', value: 'lib', text: '@folder:lib' },
+            { kind: 'symbol', value: 'run', text: '@symbol:run' },
+            { kind: 'git', value: 'diff', text: '@git:diff' },
+            { kind: 'problems', value: '', text: '@problems' }
+        ]);
+    });
+
+    test('reads quoted values and drops trailing punctuation', () => {
+        assert.deepStrictEqual(parseMentions('fix @file:"docs/My Notes.md" (see @file:src/b.ts).'), [
+            { kind: 'file', value: 'docs/My Notes.md', text: '@file:"docs/My Notes.md"' },
+            { kind: 'file', value: 'src/b.ts', text: '@file:src/b.ts' }
+        ]);
+    });
+
+    test('ignores addresses, unknown kinds and empty values', () => {
+        assert.deepStrictEqual(parseMentions('mail me@file:x.ts, @user:bob or @file:'), []);
+    });
+
+    test('quotes values with spaces when formatting', () => {
+        assert.strictEqual(formatMention('file', 'src/a.ts'), '@file:src/a.ts');
+        assert.strictEqual(formatMention('folder', 'my docs'), '@folder:"my docs"');
+        assert.strictEqual(formatMention('problems', 'ignored'), '@problems');
+    });
+
+    test('adds mentioned files that are not already active in context', () => {
+        const excluded = { ...contextFile('src/b.ts'), isActive: false };
+        const selection = { ...contextFile('src/c.ts'), range: { startLine: 1, endLine: 5 } };
+        const mentioned = ['src/a.ts', 'src/b.ts', 'src/c.ts'].map(contextFile);
+        const merged = mergeContextFiles([contextFile('src/a.ts'), excluded, selection], mentioned);
+        assert.deepStrictEqual(merged.map(entry => `${entry.relativePath}${entry.range ? ':range' : ''}`), [
+            'src/a.ts',
+            'src/b.ts',
+            'src/c.ts:range',
+            'src/b.ts',
+            'src/c.ts'
+        ]);
+    });
+
+    test('adds mentioned problems that are not already in context', () => {
+        const merged = mergeDiagnostics([diagnostic(1, 'a')], [diagnostic(1, 'a'), diagnostic(2, 'b')]);
+        assert.deepStrictEqual(merged.map(entry => entry.message), ['a', 'b']);
+    });
+});
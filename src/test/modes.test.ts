@@ -0,0 +1,69 @@
+import * as assert from 'assert';
+import { isToolAllowed, parseModeDefinitions, renderModePrompt, usesAgentLoop } from '../utils/modes';
+
+suite('modes', () => {
+    test('reads a mode with defaults for the optional fields', () => {
+        assert.deepStrictEqual(parseModeDefinitions({ id: 'docs', systemPrompt: ' Write docs. ' }, 'settings'), {
+            modes: [{
+                id: 'docs',
+                name: 'Docs',
+                icon: '✨',
+                description: undefined,
+                systemPrompt: 'Write docs.',
+                command: undefined,
+                model: undefined,
+                allowEdits: false,
+                tools: undefined,
+                source: 'settings'
+            }],
+            errors: []
+        });
+    });
+
+    test('keeps the valid modes of a list and describes the invalid ones', () => {
+        const { modes, errors } = parseModeDefinitions([
+            { id: 'review', tools: ['git/*'], allowEdits: true },
+            { id: 'Bad Id' },
+            { id: 'ask' },
+            { id: 'shell', command: 'prompt; rm -rf /' },
+            { id: 'tools', tools: 'all' },
+            null
+        ], 'modes.json');
+
+        assert.deepStrictEqual(modes.map(mode => [mode.id, mode.allowEdits, mode.tools]), [['review', true, ['git/*']]]);
+        assert.deepStrictEqual(errors, [
+            'modes.json (mode 2): "id" must be lowercase letters, digits, "-" or "_"',
+            'modes.json (mode 3): "ask" is a built-in mode',
+            'modes.json (mode 4): "command" must be a single CLI subcommand such as "prompt"',
+            'modes.json (mode 5): "tools" must be a list of tool names',
+            'modes.json (mode 6): expected a mode object'
+        ]);
+    });
+
+    test('places the request and context in the prompt template', () => {
+        assert.strictEqual(renderModePrompt('Context first:\n{{context}}\nThen: {{ request }}', 'do it', 'ctx'), 'Context first:\nctx\nThen: do it');
+        assert.strictEqual(renderModePrompt('Be brief.', 'do it', 'ctx'), 'Be brief.\n\nContext:\nctx\n\nRequest: do it');
+        assert.strictEqual(renderModePrompt('Be brief.', 'do it', ''), 'Be brief.\n\nRequest: do it');
+    });
+
+    test('allows tools by name, by server and by wildcard', () => {
+        const { modes: [explain, docs, git, open, reader] } = parseModeDefinitions([
+            { id: 'explain' },
+            { id: 'docs', allowEdits: true, tools: [] },
+            { id: 'git', tools: ['git/*'] },
+            { id: 'open', tools: ['*'] },
+            { id: 'reader', tools: ['read_file'] }
+        ], '.codeforgex/modes.json');
+
+        assert.strictEqual(isToolAllowed(explain, 'read_file'), true);
+        assert.strictEqual(isToolAllowed(explain, 'propose_edit'), false);
+        assert.strictEqual(isToolAllowed(docs, 'propose_edit'), true);
+        assert.strictEqual(isToolAllowed(git, 'git/status'), true);
+        assert.strictEqual(isToolAllowed(git, 'gitlab/issues'), false);
+        assert.strictEqual(isToolAllowed(open, 'docs/search'), true);
+
+        assert.strictEqual(usesAgentLoop(explain), false);
+        assert.strictEqual(usesAgentLoop(reader), true);
+        assert.strictEqual(usesAgentLoop(docs), true);
+    });
+});
@@ -0,0 +1,98 @@
+import * as assert from 'assert';
+import { CodeForgeConfig } from '../types';
+import { mergeProjectConfig, parseProjectConfig } from '../utils/projectConfig';
+
+// The settings of a folder as ConfigurationManager reads them, with the defaults of package.json
+const FOLDER_SETTINGS: CodeForgeConfig = {
+    cliPath: 'codeforgeai',
+    defaultModel: 'ollama',
+    models: ['ollama', 'gpt-4o'],
+    enableMcp: false,
+    mcpProviders: [],
+    timeout: 30000,
+    contextBudget: 8000,
+    modelContextBudgets: { 'gpt-4o': 32000 },
+    agentMaxSteps: 10,
+    commitMessageConvention: 'conventional',
+    commitSubjectMaxLength: 72,
+    includeSolidityDependencies: true,
+    devnetRpcUrl: 'http://127.0.0.1:8545',
+    contractTestTimeout: 600000,
+    customModes: [],
+    ignorePatterns: ['dist/**'],
+    customInstructions: 'Answer in English.'
+};
+
+suite('projectConfig', () => {
+    test('reads the settings a project may set', () => {
+        assert.deepStrictEqual(parseProjectConfig(JSON.stringify({
+            $schema: './codeforgex.schema.json',
+            defaultModel: 'gpt-4o',
+            contextBudget: 16000,
+            modelContextBudgets: { 'gpt-4o': 64000 },
+            commitMessageConvention: 'none',
+            ignorePatterns: ['fixtures/**']
+        })), {
+            config: {
+                defaultModel: 'gpt-4o',
+                contextBudget: 16000,
+                modelContextBudgets: { 'gpt-4o': 64000 },
+                commitMessageConvention: 'none',
+                ignorePatterns: ['fixtures/**']
+            },
+            errors: []
+        });
+    });
+
+    test('leaves out invalid settings and keeps the rest', () => {
+        const { config, errors } = parseProjectConfig(JSON.stringify({
+            timeout: -1,
+            models: 'gpt-4o',
+            commitMessageConvention: 'gitmoji',
+            cliPath: '/tmp/evil',
+            agentMaxSteps: 20
+        }));
+        assert.deepStrictEqual(config, { agentMaxSteps: 20 });
+        assert.deepStrictEqual(errors, [
+            '"timeout" must be a positive number',
+            '"models" must be a list of strings',
+            '"commitMessageConvention" must be one of "conventional", "none"',
+            '"cliPath" is not a setting that can be set per project'
+        ]);
+    });
+
+    test('does not take inherited object properties for settings', () => {
+        const { config, errors } = parseProjectConfig('{"__proto__": {"cliPath": "/tmp/evil"}, "constructor": "x", "toString": 1}');
+        assert.deepStrictEqual(config, {});
+        assert.strictEqual(Object.getPrototypeOf(config), Object.prototype);
+        assert.deepStrictEqual(errors, [
+            '"__proto__" is not a setting that can be set per project',
+            '"constructor" is not a setting that can be set per project',
+            '"toString" is not a setting that can be set per project'
+        ]);
+    });
+
+    test('rejects files that are not a JSON object', () => {
+        assert.deepStrictEqual(parseProjectConfig('[]'), { config: {}, errors: ['expected an object of settings'] });
+        assert.match(parseProjectConfig('{"timeout": }').errors[0], /^not valid JSON \(/);
+    });
+
+    test('overrides folder settings with the project file', () => {
+        const merged = mergeProjectConfig(FOLDER_SETTINGS, { defaultModel: 'gpt-4o', modelContextBudgets: { ollama: 4000 }, timeout: 60000 });
+        assert.deepStrictEqual(merged, {
+            ...FOLDER_SETTINGS,
+            defaultModel: 'gpt-4o',
+            modelContextBudgets: { ollama: 4000 },
+            timeout: 60000
+        });
+    });
+
+    test('adds ignore patterns and instructions to those in settings', () => {
+        const merged = mergeProjectConfig(FOLDER_SETTINGS, { ignorePatterns: ['vendor/**'], customInstructions: 'Use tabs.' });
+        assert.deepStrictEqual(merged.ignorePatterns, ['dist/**', 'vendor/**']);
+        assert.strictEqual(merged.customInstructions, 'Answer in English.\n\nUse tabs.');
+
+        const unchanged = mergeProjectConfig({ ...FOLDER_SETTINGS, customInstructions: '' }, {});
+        assert.deepStrictEqual([unchanged.ignorePatterns, unchanged.customInstructions], [['dist/**'], '']);
+    });
+});
@@ -0,0 +1,41 @@
+import * as assert from 'assert';
+import { builtInPrompts, expandPromptTemplate, parsePromptFile, parseSlashCommand, templateVariables } from '../utils/prompts';
+
+suite('prompts', () => {
+    test('includes the commit instructions in the built-in /commit prompt', () => {
+        const commit = builtInPrompts('Use Conventional Commits.').find(prompt => prompt.name === 'commit');
+        assert.ok(commit?.body.startsWith('Use Conventional Commits.\n\n```diff\n{{diff}}'));
+    });
+
+    test('reads prompt files with and without front matter', () => {
+        assert.deepStrictEqual(parsePromptFile('Review.md', '---\ndescription: "Review the file"\n---\nReview {{file}}.\n', '.codeforgex/prompts/Review.md'), {
+            name: 'review',
+            description: 'Review the file',
+            body: 'Review {{file}}.',
+            source: '.codeforgex/prompts/Review.md'
+        });
+        assert.deepStrictEqual(parsePromptFile('plain.md', 'Just do it', 'p'), { name: 'plain', description: undefined, body: 'Just do it', source: 'p' });
+    });
+
+    test('rejects prompt files with an invalid name or no body', () => {
+        assert.strictEqual(parsePromptFile('my prompt.md', 'Body', 'p'), undefined);
+        assert.strictEqual(parsePromptFile('empty.md', '---\ndescription: Nothing\n---\n  \n', 'p'), undefined);
+    });
+
+    test('splits slash commands from their input', () => {
+        assert.deepStrictEqual(parseSlashCommand('  /Tests  for the parser\nplease '), { name: 'tests', input: 'for the parser\nplease' });
+        assert.deepStrictEqual(parseSlashCommand('/fix'), { name: 'fix', input: '' });
+        assert.strictEqual(parseSlashCommand('explain /fix'), undefined);
+        assert.strictEqual(parseSlashCommand('/ fix'), undefined);
+    });
+
+    test('lists the variables a template uses', () => {
+        assert.deepStrictEqual(templateVariables('{{file}} {{ selection }} {{input}} {{file}} {{unknown}}'), ['file', 'selection']);
+    });
+
+    test('expands variables and places the input', () => {
+        assert.strictEqual(expandPromptTemplate('Explain {{file}}: {{ input }}', 'briefly', { file: 'a.ts' }), 'Explain a.ts: briefly');
+        assert.strictEqual(expandPromptTemplate('Fix:\n{{diagnostics}}', 'carefully', {}), 'Fix:\n\n\ncarefully');
+        assert.strictEqual(expandPromptTemplate('Docs for {{file}}', '', { file: 'a.ts' }), 'Docs for a.ts');
+    });
+});
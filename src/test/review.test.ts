@@ -0,0 +1,31 @@
+import * as assert from 'assert';
+import { parseReviewFindings } from '../utils/review';
+
+suite('parseReviewFindings', () => {
+    test('reads findings from a fenced JSON reply', () => {
+        const reply = [
+            'Here is what I found:',
+            '```json',
+            '[{"file": "b/src/a.ts", "startLine": 12, "endLine": 14, "severity": "error", "message": "Null dereference", "suggestion": "if (x) {"},',
+            ' {"file": "src/b.ts", "line": 3, "endLine": 1, "severity": "critical", "message": "Unclear name"}]',
+            '```'
+        ].join('\n');
+
+        assert.deepStrictEqual(parseReviewFindings(reply), [
+            { file: 'src/a.ts', startLine: 12, endLine: 14, severity: 'error', message: 'Null dereference', suggestion: 'if (x) {' },
+            { file: 'src/b.ts', startLine: 3, endLine: 3, severity: 'warning', message: 'Unclear name', suggestion: undefined }
+        ]);
+    });
+
+    test('reads an unfenced array and drops incomplete findings', () => {
+        const reply = 'Findings: [{"file": "a.ts", "message": "No line"}, {"file": "", "startLine": 1, "message": "No file"}, '
+            + '{"file": "a.ts", "startLine": 0, "message": "Line zero"}, {"file": "a.ts", "startLine": 2, "message": "Kept"}, 7] done';
+        assert.deepStrictEqual(parseReviewFindings(reply).map(finding => finding.message), ['Kept']);
+        assert.deepStrictEqual(parseReviewFindings('[]'), []);
+    });
+
+    test('rejects replies that are not a JSON list', () => {
+        assert.throws(() => parseReviewFindings('Looks good to me!'), /not valid JSON/);
+        assert.throws(() => parseReviewFindings('```json\n{"file": "a.ts"}\n```'), /not a list of findings/);
+    });
+});
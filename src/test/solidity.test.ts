@@ -0,0 +1,129 @@
+import * as assert from 'assert';
+import {
+    applyRemappings,
+    parseFoundryRemappings,
+    parseRemappings,
+    parseSolidityDeclarations,
+    parseSolidityFindings,
+    parseSolidityImports
+} from '../utils/solidity';
+
+const VAULT = `// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import "./interfaces/IVault.sol";
+import {ERC20} from '@openzeppelin/contracts/token/ERC20/ERC20.sol';
+import * as Math from "solmate/utils/FixedPointMathLib.sol";
+// import "./Old.sol";
+/* import "./Older.sol"; */
+import {Ownable, Context} from "@openzeppelin/contracts/access/Ownable.sol";
+
+library Shares {
+    function toAssets(uint256 shares) internal pure returns (uint256) { return shares; }
+}
+
+abstract contract Vault is IVault, ERC20("Vault", "VLT"), Ownable(msg.sender) {
+    using Shares for uint256;
+    using Math.FixedPointMathLib for uint256;
+}
+
+interface IStrategy is IVault {}
+`;
+
+suite('solidity', () => {
+    test('lists imports in source order, ignoring commented ones', () => {
+        assert.deepStrictEqual(parseSolidityImports(VAULT), [
+            './interfaces/IVault.sol',
+            '@openzeppelin/contracts/token/ERC20/ERC20.sol',
+            'solmate/utils/FixedPointMathLib.sol',
+            '@openzeppelin/contracts/access/Ownable.sol'
+        ]);
+    });
+
+    test('finds declarations with their bases and attached libraries', () => {
+        assert.deepStrictEqual(parseSolidityDeclarations(VAULT), [
+            { kind: 'library', name: 'Shares', bases: [], libraries: [] },
+            { kind: 'contract', name: 'Vault', bases: ['IVault', 'ERC20', 'Ownable'], libraries: ['Shares', 'Math'] },
+            { kind: 'interface', name: 'IStrategy', bases: ['IVault'], libraries: [] }
+        ]);
+    });
+
+    test('reads remappings.txt and foundry.toml', () => {
+        assert.deepStrictEqual(parseRemappings(['@openzeppelin/=lib/openzeppelin-contracts/', 'src/:forge-std/=lib/forge-std/src/', '', 'not a remapping']), [
+            { context: undefined, prefix: '@openzeppelin/', target: 'lib/openzeppelin-contracts/' },
+            { context: 'src/', prefix: 'forge-std/', target: 'lib/forge-std/src/' }
+        ]);
+
+        const toml = [
+            '[profile.default]',
+            'src = "src"',
+            'remappings = [',
+            '    "solmate/=lib/solmate/src/",',
+            "    'ds-test/=lib/forge-std/lib/ds-test/src/',",
+            ']',
+            '[profile.ci]',
+            'remappings = ["@chainlink/=node_modules/@chainlink/"]'
+        ].join('\n');
+        assert.deepStrictEqual(parseFoundryRemappings(toml).map(remapping => remapping.prefix), ['solmate/', 'ds-test/', '@chainlink/']);
+    });
+
+    test('resolves an import through the longest matching remapping', () => {
+        const remappings = parseRemappings([
+            '@openzeppelin/=lib/openzeppelin-contracts/',
+            '@openzeppelin/contracts/=lib/openzeppelin-contracts/contracts/',
+            'test/:forge-std/=lib/forge-std-test/src/',
+            'forge-std/=lib/forge-std/src/'
+        ]);
+
+        assert.strictEqual(applyRemappings('@openzeppelin/contracts/access/Ownable.sol', remappings, 'src/Vault.sol'), 'lib/openzeppelin-contracts/contracts/access/Ownable.sol');
+        assert.strictEqual(applyRemappings('@openzeppelin/foundry-upgrades/Upgrades.sol', remappings, 'src/Vault.sol'), 'lib/openzeppelin-contracts/foundry-upgrades/Upgrades.sol');
+        // A remapping with a context only applies to files under it
+        assert.strictEqual(applyRemappings('forge-std/Test.sol', remappings, 'test/Vault.t.sol'), 'lib/forge-std-test/src/Test.sol');
+        assert.strictEqual(applyRemappings('forge-std/Test.sol', remappings, 'script/Deploy.s.sol'), 'lib/forge-std/src/Test.sol');
+        assert.strictEqual(applyRemappings('hardhat/console.sol', remappings, 'src/Vault.sol'), 'hardhat/console.sol');
+    });
+
+    test('reads findings and normalizes their fields', () => {
+        const reply = [
+            'I found two issues:',
+            '```json',
+            '[{"file": "src/Vault.sol", "line": 42, "endLine": 48, "swc": "swc 107", "category": "Reentrancy", "severity": "high",',
+            '  "title": "Reentrancy in withdraw", "description": "State is updated after the external call", "recommendation": "Use checks-effects-interactions"},',
+            ' {"file": "src/Vault.sol", "line": "9", "endLine": 3, "severity": "critical", "name": "Floating pragma", "swc": 103},',
+            ' {"file": "src/Vault.sol", "title": "No line"},',
+            ' {"line": 1, "title": "No file"}]',
+            '```'
+        ].join('\n');
+
+        assert.deepStrictEqual(parseSolidityFindings(reply), [
+            {
+                file: 'src/Vault.sol',
+                line: 42,
+                endLine: 48,
+                swc: 'SWC-107',
+                severity: 'high',
+                title: 'Reentrancy in withdraw',
+                description: 'State is updated after the external call',
+                recommendation: 'Use checks-effects-interactions',
+                category: 'Reentrancy'
+            },
+            {
+                file: 'src/Vault.sol',
+                line: 9,
+                endLine: 9,
+                swc: 'SWC-103',
+                severity: 'medium',
+                title: 'Floating pragma',
+                description: '',
+                recommendation: undefined,
+                category: undefined
+            }
+        ]);
+        assert.deepStrictEqual(parseSolidityFindings('Nothing to report: []'), []);
+    });
+
+    test('rejects replies that are not a JSON list', () => {
+        assert.throws(() => parseSolidityFindings('The contract looks safe.'), /not valid JSON/);
+        assert.throws(() => parseSolidityFindings('```json\n{"file": "src/Vault.sol"}\n```'), /not a list of findings/);
+    });
+});
@@ -0,0 +1,13 @@
+import * as assert from 'assert';
+import { estimateTokens, formatTokens, tokensToChars } from '../utils/tokens';
+
+suite('tokens', () => {
+    test('counts four characters per token, rounding up', () => {
+        assert.strictEqual(estimateTokens(''), 0);
+        assert.strictEqual(estimateTokens('abcd'), 1);
+        assert.strictEqual(estimateTokens('abcde'), 2);
+        assert.strictEqual(tokensToChars(3), 12);
+        assert.strictEqual(tokensToChars(-3), 0);
+        assert.deepStrictEqual([formatTokens(999), formatTokens(1500)], ['999', '1.5k']);
+    });
+});
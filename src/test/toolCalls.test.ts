@@ -0,0 +1,44 @@
+import * as assert from 'assert';
+import { formatToolInstructions, parseToolCalls, stripToolCalls } from '../utils/toolCalls';
+
+const RESPONSE = [
+    'Let me look that up.',
+    '',
+    '```tool_call',
+    '{"tool": "docs/search", "arguments": {"query": "retry"}}',
+    '```',
+    '',
+    '',
+    '```tool_call',
+    '{"tool": "git/status", "arguments": []}',
+    '```',
+    '```tool_call',
+    '{"tool": "docs/search", "argu',
+    '```',
+    '```tool_call',
+    '{"arguments": {}}',
+    '```'
+].join('\n');
+
+suite('toolCalls', () => {
+    test('parses complete tool_call blocks and skips the rest', () => {
+        assert.deepStrictEqual(parseToolCalls(RESPONSE), [
+            { tool: 'docs/search', arguments: { query: 'retry' } },
+            { tool: 'git/status', arguments: {} }
+        ]);
+        assert.deepStrictEqual(parseToolCalls('```json\n{"tool": "docs/search"}\n```'), []);
+    });
+
+    test('strips the blocks and keeps the prose', () => {
+        assert.strictEqual(stripToolCalls(`${RESPONSE}\n\nDone.`), 'Let me look that up.\n\nDone.');
+    });
+
+    test('lists tools with their schema in the instructions', () => {
+        const instructions = formatToolInstructions([
+            { name: 'docs/search', description: 'Searches the docs', inputSchema: { type: 'object' } },
+            { name: 'git/status' }
+        ]);
+        assert.ok(instructions.includes('- docs/search: Searches the docs\n  Input schema: {"type":"object"}\n- git/status\n'));
+        assert.ok(instructions.includes('```tool_call'));
+    });
+});
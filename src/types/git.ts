@@ -0,0 +1,56 @@
+import * as vscode from 'vscode';
+
+/**
+ * The parts of the built-in git extension's API (`vscode.git`, API version 1)
+ * that CodeForgeX uses. See extensions/git/src/api/git.d.ts in the VS Code repo.
+ */
+export interface GitExtension {
+    readonly enabled: boolean;
+    getAPI(version: 1): GitAPI;
+}
+
+export interface GitAPI {
+    /** The git executable the extension found. */
+    readonly git: { readonly path: string };
+    readonly repositories: Repository[];
+    getRepository(uri: vscode.Uri): Repository | null;
+}
+
+export interface Repository {
+    readonly rootUri: vscode.Uri;
+    readonly inputBox: InputBox;
+    readonly state: RepositoryState;
+    /** Diff of the index (`cached`) or the working tree against HEAD. */
+    diff(cached?: boolean): Promise<string>;
+    getBranches(query: BranchQuery): Promise<Ref[]>;
+}
+
+export interface BranchQuery {
+    readonly remote?: boolean;
+}
+
+export interface Ref {
+    /** 0 for a local branch, 1 for a remote branch, 2 for a tag. */
+    readonly type: number;
+    readonly name?: string;
+    readonly commit?: string;
+    readonly remote?: string;
+}
+
+export interface InputBox {
+    value: string;
+}
+
+export interface RepositoryState {
+    readonly HEAD: Branch | undefined;
+    readonly indexChanges: Change[];
+    readonly workingTreeChanges: Change[];
+}
+
+export interface Branch extends Ref {
+    readonly upstream?: { readonly remote: string; readonly name: string };
+}
+
+export interface Change {
+    readonly uri: vscode.Uri;
+}
@@ -5,7 +5,73 @@ export interface ChatMessage {
     type: 'user' | 'assistant' | 'system';
     content: string;
     timestamp: Date;
-    mode?: ExtensionMode;
+    mode?: ModeId;
+    /** @-mentions whose content was attached to this message. */
+    mentions?: string[];
+    /** Model that produced an assistant message. */
+    model?: string;
+    cancelled?: boolean;
+    /** Tool calls made by Agent mode while producing this message. */
+    steps?: AgentStep[];
+}
+
+export interface AgentStep {
+    id: string;
+    /** Tool name as the model called it. */
+    tool: string;
+    /** Short, human-readable description of the call. */
+    summary: string;
+    status: 'running' | ToolCallOutcome['status'];
+    result?: string;
+}
+
+export interface ToolCallOutcome {
+    status: 'done' | 'failed' | 'declined';
+    /** Text returned to the model. */
+    result: string;
+}
+
+export interface ContractTestCase {
+    /** Test contract or describe block the test belongs to. */
+    suite: string;
+    name: string;
+    status: 'passed' | 'failed' | 'skipped';
+    /** Revert reason or assertion message of a failure. */
+    reason?: string;
+    gas?: number;
+    /** Inputs a fuzz or invariant test failed with. */
+    counterexample?: string;
+    logs?: string[];
+}
+
+export interface ContractGasEntry {
+    contract: string;
+    method: string;
+    min?: number;
+    max?: number;
+    avg: number;
+    calls: number;
+}
+
+export interface ContractTestRun {
+    framework: 'foundry' | 'hardhat';
+    command: string;
+    /** Project folder the tests ran in, relative to the workspace. */
+    cwd: string;
+    exitCode: number | null;
+    tests: ContractTestCase[];
+    gasReport: ContractGasEntry[];
+    /** Verbose traces of the failing tests, when asked for. */
+    traces?: string;
+    /** Compiler or runner output when no test results could be read. */
+    error?: string;
+}
+
+export interface ContextRange {
+    /** One-based, inclusive. */
+    startLine: number;
+    /** One-based, inclusive. */
+    endLine: number;
 }
 
 export interface ContextFile {
@@ -14,20 +80,336 @@ export interface ContextFile {
     relativePath: string;
     content?: string;
     isActive: boolean;
+    /** Set when only these lines of the file are in context. */
+    range?: ContextRange;
+    /** Content differs from what it was when the file was added. */
+    isModified?: boolean;
+    /** File was deleted on disk; it is kept in the list but not sent as context. */
+    isMissing?: boolean;
+    /** A compiled contract artifact whose content is the summary of its ABI. */
+    isAbiSummary?: boolean;
+    /** Content that is not the text of a file, such as a git diff; it is never edited. */
+    isVirtual?: boolean;
+}
+
+export interface ProposedEdit {
+    uri: vscode.Uri;
+    relativePath: string;
+    content: string;
+}
+
+export interface EditReviewResult {
+    applied: number;
+    rejected: number;
+    skipped: number;
+}
+
+export interface ReviewFinding {
+    /** Path relative to the repository root. */
+    file: string;
+    /** One-based, inclusive. */
+    startLine: number;
+    /** One-based, inclusive. */
+    endLine: number;
+    severity: 'error' | 'warning' | 'info';
+    message: string;
+    /** Replacement for lines `startLine`-`endLine`. */
+    suggestion?: string;
+}
+
+export interface SolidityFinding {
+    /** Path relative to the workspace folder. */
+    file: string;
+    /** One-based, inclusive. */
+    line: number;
+    /** One-based, inclusive. */
+    endLine: number;
+    /** SWC Registry ID, e.g. `SWC-107`. */
+    swc?: string;
+    severity: 'high' | 'medium' | 'low' | 'info';
+    title: string;
+    description: string;
+    recommendation?: string;
+    /** Which of the requested categories it falls under, when categories were given. */
+    category?: string;
+}
+
+export type AuditFindingStatus = 'open' | 'acknowledged' | 'fixed' | 'false-positive';
+
+export interface AuditFinding extends SolidityFinding {
+    /** Stable across reruns, e.g. `CFX-007`. */
+    id: string;
+    status: AuditFindingStatus;
+    /** Why the status was set, e.g. why a finding is acknowledged or a false positive. */
+    justification?: string;
+    firstSeen: number;
+    lastSeen: number;
+    /** When an audit of its file stopped reporting it. Only the user closes a finding. */
+    notReportedSince?: number;
+}
+
+export interface AuditFile {
+    version: 1;
+    updatedAt: number;
+    findings: AuditFinding[];
+}
+
+export interface AuditReconciliation {
+    findings: AuditFinding[];
+    added: AuditFinding[];
+    /** Reported again after having been marked fixed. */
+    reopened: AuditFinding[];
+    /** Open findings in audited files that were not reported again; they stay open. */
+    notReported: AuditFinding[];
+    unchanged: AuditFinding[];
+}
+
+export interface ProjectAnalysis {
+    /** Folder that was analyzed. */
+    root: string;
+    /** Epoch milliseconds. */
+    createdAt: number;
+    summary?: string;
+    languages: AnalysisLanguage[];
+    /** Edges of the dependency graph between modules or packages. */
+    dependencies: AnalysisDependency[];
+    hotspots: AnalysisHotspot[];
+    issues: AnalysisIssue[];
+}
+
+export interface AnalysisLanguage {
+    name: string;
+    files: number;
+    lines?: number;
+}
+
+export interface AnalysisDependency {
+    from: string;
+    to: string;
+}
+
+export interface AnalysisHotspot {
+    /** Path relative to the analyzed folder. */
+    file: string;
+    /** One-based. */
+    line?: number;
+    reason: string;
+    score?: number;
+}
+
+export interface AnalysisIssue {
+    /** Path relative to the analyzed folder. */
+    file: string;
+    /** One-based. */
+    line?: number;
+    severity: 'error' | 'warning' | 'info';
+    message: string;
+}
+
+/**
+ * What changed between two analyses of the same folder.
+ */
+export interface ProjectAnalysisDiff {
+    previousCreatedAt: number;
+    newIssues: AnalysisIssue[];
+    resolvedIssues: AnalysisIssue[];
+    newHotspots: AnalysisHotspot[];
+    addedDependencies: AnalysisDependency[];
+    removedDependencies: AnalysisDependency[];
+    languageChanges: { name: string; previousFiles: number; files: number }[];
+}
+
+export interface ContextFolder {
+    kind: 'folder';
+    /** URI of the workspace folder `path` is relative to; empty for files outside the workspace. */
+    root: string;
+    /** Workspace-relative path with forward slashes; empty for a workspace folder itself. */
+    path: string;
+    name: string;
+}
+
+/**
+ * Problems panel entries attached as context, either for the files in context
+ * or for the whole workspace.
+ */
+export interface ContextDiagnostics {
+    kind: 'diagnostics';
+    scope: 'context' | 'workspace';
+    isActive: boolean;
+}
+
+export interface ContextDiagnostic {
+    relativePath: string;
+    severity: 'error' | 'warning' | 'info';
+    /** One-based lines the problem spans. */
+    range: ContextRange;
+    /** One-based column where the problem starts. */
+    column: number;
+    message: string;
+    source?: string;
+    code?: string;
+    /** Source lines around the problem, prefixed with their line numbers. */
+    snippet: string;
+}
+
+export type ContextTreeNode = ContextFile | ContextFolder | ContextDiagnostics;
+
+export interface ContextFileSnapshot {
+    uri: string;
+    isActive: boolean;
+    range?: ContextRange;
+}
+
+export interface ChatSession {
+    id: string;
+    name: string;
+    mode: ModeId;
+    model?: string;
+    messages: ChatMessage[];
+    contextFiles: ContextFileSnapshot[];
+    contextDiagnostics?: ContextDiagnostics;
+    createdAt: number;
+    updatedAt: number;
 }
 
 export enum ExtensionMode {
     Edit = 'edit',
     Agent = 'agent', 
-    Ask = 'ask'
+    Ask = 'ask',
+    Audit = 'audit'
+}
+
+/** A built-in `ExtensionMode` or the id of a custom mode. */
+export type ModeId = string;
+
+/**
+ * A chat mode. Custom modes are defined in the `codeforgex.customModes`
+ * setting or in `.codeforgex/modes/*.json` files.
+ */
+export interface ModeDefinition {
+    id: ModeId;
+    name: string;
+    /** Emoji shown in the chat header and on messages. */
+    icon: string;
+    description?: string;
+    /**
+     * Instructions sent with each request. `{{request}}` and `{{context}}` mark
+     * where the request and context files go; they are appended when missing.
+     */
+    systemPrompt?: string;
+    /** CLI subcommand the prompt is sent to. Defaults to `prompt`. */
+    command?: string;
+    /** Model selected when switching to the mode. */
+    model?: string;
+    /** Whether the mode may propose file edits, which are reviewed before they are written. */
+    allowEdits?: boolean;
+    /** Agent tools the mode may call; `server/*` allows all tools of an MCP server. */
+    tools?: string[];
+    /** Setting or file a custom mode was read from; undefined for built-in modes. */
+    source?: string;
+}
+
+export type MentionKind = 'file' | 'folder' | 'symbol' | 'git' | 'problems';
+
+/**
+ * An `@kind:value` reference in a chat message, whose content is attached as
+ * context to that message only.
+ */
+export interface Mention {
+    kind: MentionKind;
+    /** Path, symbol name or git ref; empty for `@problems`. */
+    value: string;
+    /** The mention as it was typed. */
+    text: string;
+}
+
+export interface MentionCompletion {
+    label: string;
+    description?: string;
+    /** Mention inserted into the chat input. */
+    mention: string;
 }
 
+export interface ResolvedMentions {
+    mentions: Mention[];
+    files: ContextFile[];
+    diagnostics: ContextDiagnostic[];
+}
+
+/**
+ * A chat slash command. Custom ones are read from `.codeforgex/prompts/*.md`,
+ * named after the file.
+ */
+export interface PromptTemplate {
+    name: string;
+    description?: string;
+    /** Prompt text with `{{selection}}`, `{{file}}`, `{{diagnostics}}`, `{{diff}}` and `{{input}}` variables. */
+    body: string;
+    /** File a custom prompt was read from; undefined for built-in prompts. */
+    source?: string;
+}
+
+export type CommitConvention = 'conventional' | 'none';
+
 export interface CodeForgeConfig {
     cliPath: string;
     defaultModel: string;
+    models: string[];
     enableMcp: boolean;
-    mcpProviders: string[];
+    mcpProviders: McpServerConfig[];
     timeout: number;
+    contextBudget: number;
+    modelContextBudgets: Record<string, number>;
+    agentMaxSteps: number;
+    commitMessageConvention: CommitConvention;
+    commitSubjectMaxLength: number;
+    includeSolidityDependencies: boolean;
+    devnetRpcUrl: string;
+    contractTestTimeout: number;
+    customModes: ModeDefinition[];
+    /** .gitignore-style patterns for files that are never added to context or searched. */
+    ignorePatterns: string[];
+    /** Sent ahead of every prompt. */
+    customInstructions: string;
+}
+
+export interface ContextTrim {
+    relativePath: string;
+    action: 'symbols' | 'truncated' | 'dropped';
+    originalTokens: number;
+    keptTokens: number;
+}
+
+export interface ContextBudgetReport {
+    budget: number;
+    usedTokens: number;
+    trimmed: ContextTrim[];
+}
+
+export interface McpServerConfig {
+    name: string;
+    command: string;
+    args?: string[];
+    env?: Record<string, string>;
+    cwd?: string;
+}
+
+export interface McpTool {
+    name: string;
+    description?: string;
+    inputSchema?: Record<string, unknown>;
+}
+
+export interface McpResource {
+    uri: string;
+    name: string;
+    description?: string;
+    mimeType?: string;
+}
+
+export interface McpToolResult {
+    content: { type: string; text?: string; [key: string]: unknown }[];
+    isError?: boolean;
 }
 
 export interface CommandResponse {
@@ -35,11 +417,3 @@ export interface CommandResponse {
     output: string;
     error?: string;
 }
-
-export interface ExtensionServices {
-    chatProvider: any;
-    contextProvider: any;
-    codeForgeService: any;
-    modeManager: any;
-    configManager: any;
-}
@@ -0,0 +1,432 @@
+import { isRecord } from './json';
+import { keccak256 } from './keccak';
+
+export interface AbiParameter {
+    name?: string;
+    type: string;
+    internalType?: string;
+    indexed?: boolean;
+    components?: AbiParameter[];
+}
+
+export interface AbiEntry {
+    type: 'function' | 'event' | 'error' | 'constructor' | 'fallback' | 'receive';
+    name?: string;
+    inputs?: AbiParameter[];
+    outputs?: AbiParameter[];
+    stateMutability?: 'pure' | 'view' | 'nonpayable' | 'payable';
+    anonymous?: boolean;
+}
+
+export interface ContractArtifact {
+    contractName: string;
+    /** Source file the contract was compiled from, when the artifact records it. */
+    sourceName?: string;
+    abi: AbiEntry[];
+}
+
+export type AbiBindingStyle = 'types' | 'ethers' | 'viem';
+
+const ENTRY_TYPES = ['function', 'event', 'error', 'constructor', 'fallback', 'receive'] as const;
+const STATE_MUTABILITIES = ['pure', 'view', 'nonpayable', 'payable'] as const;
+
+const RESERVED_WORDS = new Set([
+    'break', 'case', 'catch', 'class', 'const', 'continue', 'debugger', 'default', 'delete', 'do', 'else', 'enum', 'export', 'extends',
+    'false', 'finally', 'for', 'function', 'if', 'import', 'in', 'instanceof', 'new', 'null', 'return', 'super', 'switch', 'this',
+    'throw', 'true', 'try', 'typeof', 'var', 'void', 'while', 'with'
+]);
+
+/**
+ * Whether a path is inside a Foundry `out/` or Hardhat `artifacts/` folder and
+ * could be a compiled contract. Hardhat's debug files and build info are not.
+ */
+export function isContractArtifactPath(filePath: string): boolean {
+    const normalized = filePath.replace(/\\/g, '/');
+    return /(^|\/)(out|artifacts)\/.+\.json$/i.test(normalized)
+        && !/\.dbg\.json$/i.test(normalized)
+        && !/(^|\/)build-info\//i.test(normalized);
+}
+
+/**
+ * Reads a Foundry or Hardhat artifact. Returns undefined for JSON without an
+ * ABI or with a malformed one. Entries of kinds not listed in `AbiEntry` are
+ * left out. Foundry artifacts have no contract name, so `fallbackName` is used.
+ */
+export function parseContractArtifact(text: string, fallbackName: string): ContractArtifact | undefined {
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch (error) {
+        return undefined;
+    }
+    if (!isRecord(data) || !Array.isArray(data.abi)) {
+        return undefined;
+    }
+
+    const entries = data.abi.filter((entry): entry is Record<string, unknown> => isRecord(entry) && ENTRY_TYPES.some(type => type === entry.type));
+    if (!entries.every(isAbiEntry)) {
+        return undefined;
+    }
+
+    const settings = isRecord(data.metadata) && isRecord(data.metadata.settings) ? data.metadata.settings : {};
+    return {
+        contractName: typeof data.contractName === 'string' ? data.contractName : fallbackName,
+        sourceName: typeof data.sourceName === 'string'
+            ? data.sourceName
+            : isRecord(settings.compilationTarget) ? Object.keys(settings.compilationTarget)[0] : undefined,
+        abi: entries
+    };
+}
+
+/**
+ * Canonical signature used for selectors, e.g. `transfer(address,uint256)`.
+ */
+export function abiSignature(entry: AbiEntry): string {
+    return `${entry.name ?? ''}(${(entry.inputs ?? []).map(canonicalType).join(',')})`;
+}
+
+/**
+ * The 4-byte selector of a function or error, or the topic of an event.
+ */
+export function abiSelector(entry: AbiEntry): string {
+    const hash = keccak256(abiSignature(entry));
+    return `0x${entry.type === 'event' ? hash : hash.slice(0, 8)}`;
+}
+
+/**
+ * A compact, Solidity-like listing of a contract's interface with selectors,
+ * sent as context instead of the artifact's bytecode and AST.
+ */
+export function summarizeAbi(artifact: ContractArtifact): string {
+    const lines = [`// ABI of ${artifact.contractName}${artifact.sourceName ? ` (${artifact.sourceName})` : ''}`];
+    const order: AbiEntry['type'][] = ['constructor', 'function', 'event', 'error', 'fallback', 'receive'];
+
+    for (const type of order) {
+        for (const entry of artifact.abi.filter(candidate => candidate.type === type)) {
+            const mutability = entry.stateMutability && entry.stateMutability !== 'nonpayable' ? ` ${entry.stateMutability}` : '';
+            const parameters = (entry.inputs ?? []).map(formatParameter).join(', ');
+            switch (type) {
+                case 'constructor':
+                    lines.push(`constructor(${parameters})${mutability}`);
+                    break;
+                case 'function': {
+                    const outputs = entry.outputs?.length ? ` returns (${entry.outputs.map(formatParameter).join(', ')})` : '';
+                    lines.push(`function ${entry.name}(${parameters})${mutability}${outputs} // ${abiSelector(entry)}`);
+                    break;
+                }
+                case 'event':
+                    lines.push(`event ${entry.name}(${parameters})${entry.anonymous ? ' anonymous' : ` // topic ${abiSelector(entry)}`}`);
+                    break;
+                case 'error':
+                    lines.push(`error ${entry.name}(${parameters}) // ${abiSelector(entry)}`);
+                    break;
+                default:
+                    lines.push(`${type}()${mutability}`);
+            }
+        }
+    }
+
+    return lines.join('\n');
+}
+
+/**
+ * TypeScript for calling a contract: the ABI as a const with interfaces for
+ * its functions, events and errors, or ready-to-edit ethers v6 or viem calls.
+ */
+export function generateAbiBindings(artifact: ContractArtifact, style: AbiBindingStyle): string {
+    const name = toIdentifier(artifact.contractName, 'Contract');
+    const abiName = `${name.charAt(0).toLowerCase()}${name.slice(1)}Abi`;
+    const header = [`// ${artifact.contractName}${artifact.sourceName ? ` (${artifact.sourceName})` : ''}, generated from its compiled ABI`];
+    if (style === 'ethers') {
+        header.push("import { Contract, JsonRpcProvider, Wallet } from 'ethers';");
+    } else if (style === 'viem') {
+        header.push(
+            "import { createPublicClient, createWalletClient, http } from 'viem';",
+            "import { privateKeyToAccount } from 'viem/accounts';",
+            "import { mainnet } from 'viem/chains';"
+        );
+    }
+    header.push(
+        '',
+        'export type Address = `0x${string}`;',
+        'export type Hex = `0x${string}`;',
+        '',
+        `export const ${abiName} = ${JSON.stringify(artifact.abi, null, 4)} as const;`,
+        ''
+    );
+
+    const body = style === 'types'
+        ? typeBindings(artifact, name)
+        : style === 'ethers' ? ethersSnippets(artifact, name, abiName) : viemSnippets(artifact, abiName);
+    return `${[...header, ...body].join('\n').trimEnd()}\n`;
+}
+
+function typeBindings(artifact: ContractArtifact, name: string): string[] {
+    const functions = artifact.abi.filter(entry => entry.type === 'function');
+    const lines = [`export interface ${name}Functions {`];
+    for (const entry of functions) {
+        const overloaded = functions.filter(other => other.name === entry.name).length > 1;
+        const key = overloaded ? `'${abiSignature(entry)}'` : propertyKey(entry.name ?? '');
+        const returns = entry.outputs?.length === 1 ? tsType(entry.outputs[0]) : entry.outputs?.length ? tsTuple(entry.outputs) : 'void';
+        lines.push(
+            `    /** ${abiSignature(entry)} · ${abiSelector(entry)} */`,
+            `    ${key}: { args: ${tsTuple(entry.inputs ?? [])}; returns: ${returns}; stateMutability: '${entry.stateMutability ?? 'nonpayable'}' };`
+        );
+    }
+    lines.push('}', '');
+
+    for (const [type, suffix] of [['event', 'Events'], ['error', 'Errors']] as const) {
+        const entries = artifact.abi.filter(entry => entry.type === type);
+        lines.push(`export interface ${name}${suffix} {`);
+        for (const entry of entries) {
+            const overloaded = entries.filter(other => other.name === entry.name).length > 1;
+            lines.push(
+                `    /** ${abiSignature(entry)} · ${abiSelector(entry)} */`,
+                `    ${overloaded ? `'${abiSignature(entry)}'` : propertyKey(entry.name ?? '')}: ${tsObject(entry.inputs ?? [])};`
+            );
+        }
+        lines.push('}', '');
+    }
+
+    return lines;
+}
+
+function ethersSnippets(artifact: ContractArtifact, name: string, abiName: string): string[] {
+    const contract = `${name.charAt(0).toLowerCase()}${name.slice(1)}`;
+    const lines = [
+        'const provider = new JsonRpcProvider(process.env.RPC_URL);',
+        'const signer = new Wallet(process.env.PRIVATE_KEY!, provider);',
+        `const ${contract} = new Contract('0x0000000000000000000000000000000000000000', ${abiName}, signer);`,
+        ''
+    ];
+    const functions = artifact.abi.filter(entry => entry.type === 'function');
+    const names = uniqueNames(functions);
+
+    functions.forEach((entry, index) => {
+        const overloaded = functions.filter(other => other.name === entry.name).length > 1;
+        const method = overloaded ? `${contract}['${abiSignature(entry)}']` : `${contract}.${entry.name}`;
+        const args = (entry.inputs ?? []).map(placeholderArgument);
+        if (entry.stateMutability === 'payable') {
+            args.push('{ value: 0n }');
+        }
+        lines.push(`// ${abiSignature(entry)} · ${abiSelector(entry)}`);
+        if (entry.stateMutability === 'view' || entry.stateMutability === 'pure') {
+            lines.push(`const ${names[index]} = await ${method}(${args.join(', ')});`);
+        } else {
+            lines.push(`const ${names[index]}Tx = await ${method}(${args.join(', ')});`, `await ${names[index]}Tx.wait();`);
+        }
+        lines.push('');
+    });
+
+    for (const entry of artifact.abi.filter(candidate => candidate.type === 'event' && !candidate.anonymous)) {
+        const parameters = (entry.inputs ?? []).map((input, index) => toIdentifier(input.name ?? '', `arg${index}`));
+        lines.push(
+            `// ${abiSignature(entry)} · topic ${abiSelector(entry)}`,
+            `${contract}.on('${abiSignature(entry)}', (${[...parameters, 'event'].join(', ')}) => {`,
+            `    console.log('${entry.name}', ${parameters.length > 0 ? parameters.join(', ') : 'event'});`,
+            '});',
+            ''
+        );
+    }
+
+    if (artifact.abi.some(entry => entry.type === 'error')) {
+        lines.push(
+            '// Custom errors come back as revert data',
+            'function decodeError(error: any) {',
+            `    return ${contract}.interface.parseError(error?.data ?? '0x');`,
+            '}',
+            ''
+        );
+    }
+
+    return lines;
+}
+
+function viemSnippets(artifact: ContractArtifact, abiName: string): string[] {
+    const lines = [
+        'const publicClient = createPublicClient({ chain: mainnet, transport: http(process.env.RPC_URL) });',
+        'const walletClient = createWalletClient({',
+        '    account: privateKeyToAccount(process.env.PRIVATE_KEY as Hex),',
+        '    chain: mainnet,',
+        '    transport: http(process.env.RPC_URL)',
+        '});',
+        "const address: Address = '0x0000000000000000000000000000000000000000';",
+        ''
+    ];
+    const functions = artifact.abi.filter(entry => entry.type === 'function');
+    const names = uniqueNames(functions);
+
+    functions.forEach((entry, index) => {
+        const args = (entry.inputs ?? []).map(placeholderArgument);
+        const call = [
+            `    address,`,
+            `    abi: ${abiName},`,
+            `    functionName: '${entry.name}',`,
+            args.length > 0 ? `    args: [${args.join(', ')}],` : '',
+            entry.stateMutability === 'payable' ? '    value: 0n,' : ''
+        ].filter(Boolean);
+        lines.push(`// ${abiSignature(entry)} · ${abiSelector(entry)}`);
+        if (entry.stateMutability === 'view' || entry.stateMutability === 'pure') {
+            lines.push(`const ${names[index]} = await publicClient.readContract({`, ...call, '});');
+        } else {
+            lines.push(
+                `const ${names[index]}Hash = await walletClient.writeContract({`,
+                ...call,
+                '});',
+                `await publicClient.waitForTransactionReceipt({ hash: ${names[index]}Hash });`
+            );
+        }
+        lines.push('');
+    });
+
+    for (const entry of artifact.abi.filter(candidate => candidate.type === 'event' && !candidate.anonymous)) {
+        lines.push(
+            `// ${abiSignature(entry)} · topic ${abiSelector(entry)}`,
+            `const unwatch${toIdentifier(entry.name ?? '', 'Event').replace(/^./, char => char.toUpperCase())} = publicClient.watchContractEvent({`,
+            '    address,',
+            `    abi: ${abiName},`,
+            `    eventName: '${entry.name}',`,
+            '    onLogs: logs => logs.forEach(log => console.log(log.args))',
+            '});',
+            ''
+        );
+    }
+
+    return lines;
+}
+
+function canonicalType(parameter: AbiParameter): string {
+    if (parameter.type.startsWith('tuple')) {
+        return `(${(parameter.components ?? []).map(canonicalType).join(',')})${parameter.type.slice('tuple'.length)}`;
+    }
+    return parameter.type;
+}
+
+/**
+ * Structs read better by their Solidity name (`Order.Fill`) than as a tuple.
+ */
+function formatParameter(parameter: AbiParameter): string {
+    const struct = /^struct\s+(.+)$/.exec(parameter.internalType ?? '');
+    const type = parameter.type.startsWith('tuple') && struct ? struct[1] : canonicalType(parameter);
+    return [type, parameter.indexed ? 'indexed' : '', parameter.name ?? ''].filter(Boolean).join(' ');
+}
+
+function splitArray(type: string): { base: string; dimensions: string[] } {
+    const match = /^(.*?)((?:\[\d*\])*)$/.exec(type)!;
+    return { base: match[1], dimensions: match[2].match(/\[\d*\]/g) ?? [] };
+}
+
+function tsType(parameter: AbiParameter): string {
+    const { base, dimensions } = splitArray(parameter.type);
+    let type: string;
+    if (base === 'tuple') {
+        type = tsObject(parameter.components ?? []);
+    } else if (/^u?int\d*$/.test(base)) {
+        type = 'bigint';
+    } else if (base === 'address') {
+        type = 'Address';
+    } else if (base === 'bool') {
+        type = 'boolean';
+    } else if (base === 'string') {
+        type = 'string';
+    } else {
+        // bytes, bytesN and function pointers
+        type = 'Hex';
+    }
+    return type + '[]'.repeat(dimensions.length);
+}
+
+function tsObject(parameters: AbiParameter[]): string {
+    if (parameters.length === 0) {
+        return '{}';
+    }
+    return `{ ${parameters.map((parameter, index) => `${propertyKey(parameter.name || `arg${index}`)}: ${tsType(parameter)}`).join('; ')} }`;
+}
+
+function tsTuple(parameters: AbiParameter[]): string {
+    return `[${parameters.map((parameter, index) => `${toIdentifier(parameter.name ?? '', `arg${index}`)}: ${tsType(parameter)}`).join(', ')}]`;
+}
+
+/**
+ * A zero value for an argument, labelled with the parameter's name so the
+ * snippet compiles and shows what to fill in.
+ */
+function placeholderArgument(parameter: AbiParameter): string {
+    return parameter.name ? `/* ${parameter.name} */ ${placeholder(parameter)}` : placeholder(parameter);
+}
+
+function placeholder(parameter: AbiParameter): string {
+    const { base, dimensions } = splitArray(parameter.type);
+    if (dimensions.length > 0) {
+        return '[]';
+    }
+    if (base === 'tuple') {
+        const components = (parameter.components ?? [])
+            .map((component, index) => `${propertyKey(component.name || `arg${index}`)}: ${placeholder(component)}`);
+        return `{ ${components.join(', ')} }`;
+    }
+    if (/^u?int\d*$/.test(base)) {
+        return '0n';
+    }
+    if (base === 'address') {
+        return "'0x0000000000000000000000000000000000000000'";
+    }
+    if (base === 'bool') {
+        return 'false';
+    }
+    if (base === 'string') {
+        return "''";
+    }
+    const size = /^bytes(\d+)$/.exec(base);
+    return `'0x${size ? '00'.repeat(Number(size[1])) : ''}'`;
+}
+
+/**
+ * Variable names for function results; overloads get a numeric suffix.
+ */
+function uniqueNames(entries: AbiEntry[]): string[] {
+    const seen = new Map<string, number>();
+    return entries.map(entry => {
+        const name = toIdentifier(entry.name ?? '', 'result');
+        const count = seen.get(name) ?? 0;
+        seen.set(name, count + 1);
+        return count === 0 ? name : `${name}${count + 1}`;
+    });
+}
+
+function toIdentifier(name: string, fallback: string): string {
+    const identifier = name.replace(/[^\w$]/g, '_');
+    if (!identifier) {
+        return fallback;
+    }
+    if (/^\d/.test(identifier) || RESERVED_WORDS.has(identifier)) {
+        return `_${identifier}`;
+    }
+    return identifier;
+}
+
+function propertyKey(name: string): string {
+    return /^[A-Za-z_$][\w$]*$/.test(name) ? name : `'${name}'`;
+}
+
+/**
+ * Whether an ABI entry has the fields the summary and bindings read, with the
+ * types they expect.
+ */
+function isAbiEntry(value: Record<string, unknown>): value is Record<string, unknown> & AbiEntry {
+    return ENTRY_TYPES.some(type => type === value.type)
+        && (value.name === undefined || typeof value.name === 'string')
+        && (value.inputs === undefined || isParameterList(value.inputs))
+        && (value.outputs === undefined || isParameterList(value.outputs))
+        && (value.stateMutability === undefined || STATE_MUTABILITIES.some(mutability => mutability === value.stateMutability))
+        && (value.anonymous === undefined || typeof value.anonymous === 'boolean');
+}
+
+function isParameterList(value: unknown): value is AbiParameter[] {
+    return Array.isArray(value) && value.every(parameter => isRecord(parameter)
+        && typeof parameter.type === 'string'
+        && (parameter.name === undefined || typeof parameter.name === 'string')
+        && (parameter.internalType === undefined || typeof parameter.internalType === 'string')
+        && (parameter.indexed === undefined || typeof parameter.indexed === 'boolean')
+        && (parameter.components === undefined || isParameterList(parameter.components)));
+}
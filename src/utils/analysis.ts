@@ -0,0 +1,175 @@
+import { AnalysisDependency, AnalysisHotspot, AnalysisIssue, AnalysisLanguage, ProjectAnalysis, ProjectAnalysisDiff } from '../types';
+import { asArray, isRecord } from './json';
+
+const SEVERITIES: AnalysisIssue['severity'][] = ['error', 'warning', 'info'];
+
+/**
+ * Reads the CLI's JSON analysis. Sections may be missing, and languages and
+ * dependencies may also be given as maps (`{"TypeScript": 42}`,
+ * `{"src/a.ts": ["src/b.ts"]}`). Entries that cannot be used are dropped.
+ */
+export function parseProjectAnalysis(text: string, root: string): ProjectAnalysis {
+    const block = /```(?:json)?[^\S\n]*\r?\n([\s\S]*?)```/.exec(text);
+    const source = block ? block[1] : text.slice(text.indexOf('{'), text.lastIndexOf('}') + 1);
+
+    let data: unknown;
+    try {
+        data = JSON.parse(source);
+    } catch (error) {
+        throw new Error('The CLI did not return the analysis as JSON');
+    }
+    if (!isRecord(data)) {
+        throw new Error('The CLI did not return the analysis as a JSON object');
+    }
+
+    return {
+        root,
+        createdAt: Date.now(),
+        summary: typeof data.summary === 'string' ? data.summary : undefined,
+        languages: parseLanguages(data.languages),
+        dependencies: parseDependencies(data.dependencies ?? data.dependencyGraph),
+        hotspots: asRecords(data.hotspots).flatMap((entry): AnalysisHotspot[] => {
+            const reason = entry.reason ?? entry.description ?? entry.message;
+            return typeof entry.file === 'string' && typeof reason === 'string'
+                ? [{ file: entry.file, line: asLine(entry.line), reason, score: typeof entry.score === 'number' ? entry.score : undefined }]
+                : [];
+        }),
+        issues: asRecords(data.issues).flatMap((entry): AnalysisIssue[] => {
+            return typeof entry.file === 'string' && typeof entry.message === 'string'
+                ? [{
+                    file: entry.file,
+                    line: asLine(entry.line),
+                    severity: isSeverity(entry.severity) ? entry.severity : 'warning',
+                    message: entry.message
+                }]
+                : [];
+        })
+    };
+}
+
+/**
+ * Compares two analyses. Issues are matched on file, severity and message
+ * rather than line, so code moving around does not count as a change.
+ */
+export function diffAnalyses(previous: ProjectAnalysis, current: ProjectAnalysis): ProjectAnalysisDiff {
+    const issueKey = (issue: AnalysisIssue) => `${issue.file}\0${issue.severity}\0${issue.message}`;
+    const edgeKey = (edge: AnalysisDependency) => `${edge.from}\0${edge.to}`;
+    const without = <T>(items: T[], others: T[], key: (item: T) => string) => {
+        const keys = new Set(others.map(key));
+        return items.filter(item => !keys.has(key(item)));
+    };
+
+    const previousFiles = new Map(previous.languages.map(language => [language.name, language.files]));
+    const currentFiles = new Map(current.languages.map(language => [language.name, language.files]));
+    const languageChanges = [...new Set([...previousFiles.keys(), ...currentFiles.keys()])]
+        .map(name => ({ name, previousFiles: previousFiles.get(name) ?? 0, files: currentFiles.get(name) ?? 0 }))
+        .filter(change => change.previousFiles !== change.files);
+
+    return {
+        previousCreatedAt: previous.createdAt,
+        newIssues: without(current.issues, previous.issues, issueKey),
+        resolvedIssues: without(previous.issues, current.issues, issueKey),
+        newHotspots: without(current.hotspots, previous.hotspots, hotspot => hotspot.file),
+        addedDependencies: without(current.dependencies, previous.dependencies, edgeKey),
+        removedDependencies: without(previous.dependencies, current.dependencies, edgeKey),
+        languageChanges
+    };
+}
+
+/**
+ * Renders an analysis, and optionally its changes since the previous one, as
+ * a Markdown document.
+ */
+export function formatAnalysisMarkdown(analysis: ProjectAnalysis, diff?: ProjectAnalysisDiff): string {
+    const location = (file: string, line?: number) => `\`${file}${line ? `:${line}` : ''}\``;
+    const issueLine = (issue: AnalysisIssue) => `- **${issue.severity}** ${location(issue.file, issue.line)}: ${issue.message}`;
+    const lines = ['# Project Analysis', '', `${analysis.root} · ${new Date(analysis.createdAt).toLocaleString()}`, ''];
+
+    if (analysis.summary) {
+        lines.push(analysis.summary, '');
+    }
+
+    if (diff) {
+        lines.push(`## Changes since ${new Date(diff.previousCreatedAt).toLocaleString()}`, '');
+        lines.push(`- ${diff.newIssues.length} new issue(s), ${diff.resolvedIssues.length} resolved`);
+        lines.push(`- ${diff.newHotspots.length} new hotspot(s)`);
+        lines.push(`- ${diff.addedDependencies.length} dependency edge(s) added, ${diff.removedDependencies.length} removed`);
+        diff.languageChanges.forEach(change => lines.push(`- ${change.name}: ${change.previousFiles} → ${change.files} files`));
+        if (diff.newIssues.length > 0) {
+            lines.push('', '### New issues', '', ...diff.newIssues.map(issueLine));
+        }
+        if (diff.resolvedIssues.length > 0) {
+            lines.push('', '### Resolved issues', '', ...diff.resolvedIssues.map(issueLine));
+        }
+        lines.push('');
+    }
+
+    if (analysis.languages.length > 0) {
+        lines.push('## Languages', '', '| Language | Files | Lines |', '| --- | ---: | ---: |');
+        analysis.languages.forEach(language => lines.push(`| ${language.name} | ${language.files} | ${language.lines ?? ''} |`));
+        lines.push('');
+    }
+
+    if (analysis.hotspots.length > 0) {
+        lines.push('## Hotspots', '');
+        analysis.hotspots.forEach(hotspot => lines.push(
+            `- ${location(hotspot.file, hotspot.line)}${hotspot.score !== undefined ? ` (score ${hotspot.score})` : ''}: ${hotspot.reason}`
+        ));
+        lines.push('');
+    }
+
+    if (analysis.issues.length > 0) {
+        lines.push('## Issues', '', ...analysis.issues.map(issueLine), '');
+    }
+
+    if (analysis.dependencies.length > 0) {
+        lines.push('## Dependencies', '');
+        groupDependencies(analysis.dependencies).forEach((targets, from) => lines.push(`- \`${from}\` → ${targets.map(to => `\`${to}\``).join(', ')}`));
+        lines.push('');
+    }
+
+    return lines.join('\n');
+}
+
+/**
+ * Dependency edges grouped by the module they start from, in first-seen order.
+ */
+export function groupDependencies(dependencies: AnalysisDependency[]): Map<string, string[]> {
+    const groups = new Map<string, string[]>();
+    for (const { from, to } of dependencies) {
+        groups.set(from, [...(groups.get(from) ?? []), to]);
+    }
+    return groups;
+}
+
+function parseLanguages(value: unknown): AnalysisLanguage[] {
+    if (isRecord(value)) {
+        return Object.entries(value).flatMap(([name, files]): AnalysisLanguage[] => typeof files === 'number' ? [{ name, files }] : []);
+    }
+    return asRecords(value).flatMap((entry): AnalysisLanguage[] => typeof entry.name === 'string'
+        ? [{ name: entry.name, files: Number(entry.files) || 0, lines: typeof entry.lines === 'number' ? entry.lines : undefined }]
+        : []);
+}
+
+function parseDependencies(value: unknown): AnalysisDependency[] {
+    if (isRecord(value)) {
+        return Object.entries(value).flatMap(([from, targets]) =>
+            asArray(targets).filter((to): to is string => typeof to === 'string').map(to => ({ from, to })));
+    }
+    return asRecords(value).flatMap((entry): AnalysisDependency[] => typeof entry.from === 'string' && typeof entry.to === 'string'
+        ? [{ from: entry.from, to: entry.to }]
+        : []);
+}
+
+function asRecords(value: unknown): Record<string, unknown>[] {
+    return asArray(value).filter(isRecord);
+}
+
+function isSeverity(value: unknown): value is AnalysisIssue['severity'] {
+    return SEVERITIES.some(severity => severity === value);
+}
+
+function asLine(value: unknown): number | undefined {
+    const line = Number(value);
+    return Number.isInteger(line) && line >= 1 ? line : undefined;
+}
@@ -0,0 +1,113 @@
+import { AuditFinding, AuditReconciliation, SolidityFinding } from '../types';
+import { SWC_REGISTRY } from './solidity';
+
+/**
+ * What audit mode looks for, also used to tag each finding.
+ */
+export const AUDIT_CATEGORIES = [
+    'reentrancy',
+    'access control',
+    'unchecked external calls',
+    'integer overflow, underflow and precision loss',
+    'oracle and price manipulation'
+];
+
+// Findings of the same kind this close together are taken to be the same one after code moved
+const NEARBY_LINES = 10;
+
+const SEVERITY_ORDER: Record<SolidityFinding['severity'], number> = { high: 0, medium: 1, low: 2, info: 3 };
+
+/**
+ * Merges the findings of a new audit into the saved ones. A reported finding
+ * matches a saved one in the same file with the same title, or of the same
+ * SWC class or category nearby. Matches keep their ID, status and
+ * justification; fixed ones that are reported again are reopened. Open
+ * findings in the audited files that were not reported again are flagged but
+ * stay open: a model can miss a finding on one run and report it on the next.
+ */
+export function reconcileFindings(saved: AuditFinding[], reported: SolidityFinding[], auditedFiles: string[], now = Date.now()): AuditReconciliation {
+    const normalize = (file: string) => file.replace(/\\/g, '/');
+    const title = (finding: SolidityFinding) => finding.title.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+    const sameKind = (a: SolidityFinding, b: SolidityFinding) => (!!a.swc && a.swc === b.swc) || (!!a.category && a.category === b.category);
+    const distance = (a: SolidityFinding, b: SolidityFinding) => Math.max(0, a.line - b.endLine, b.line - a.endLine);
+
+    const findings = saved.map(finding => ({ ...finding }));
+    const matched = new Set<AuditFinding>();
+    const result: AuditReconciliation = { findings, added: [], reopened: [], notReported: [], unchanged: [] };
+    let nextId = Math.max(0, ...saved.map(finding => Number(/(\d+)$/.exec(finding.id)?.[1]) || 0)) + 1;
+
+    for (const finding of reported) {
+        const candidates = findings.filter(existing => !matched.has(existing)
+            && normalize(existing.file) === normalize(finding.file)
+            && (title(existing) === title(finding) || (sameKind(existing, finding) && distance(existing, finding) <= NEARBY_LINES)));
+        const match = candidates.sort((a, b) =>
+            Number(title(b) === title(finding)) - Number(title(a) === title(finding)) || distance(a, finding) - distance(b, finding))[0];
+
+        if (!match) {
+            const added: AuditFinding = { ...finding, id: `CFX-${String(nextId++).padStart(3, '0')}`, status: 'open', firstSeen: now, lastSeen: now };
+            findings.push(added);
+            matched.add(added);
+            result.added.push(added);
+            continue;
+        }
+
+        const wasFixed = match.status === 'fixed';
+        Object.assign(match, finding, { lastSeen: now, notReportedSince: undefined });
+        if (wasFixed) {
+            match.status = 'open';
+            match.justification = undefined;
+            result.reopened.push(match);
+        } else {
+            result.unchanged.push(match);
+        }
+        matched.add(match);
+    }
+
+    const audited = new Set(auditedFiles.map(normalize));
+    for (const finding of findings) {
+        if (!matched.has(finding) && finding.status === 'open' && audited.has(normalize(finding.file))) {
+            finding.notReportedSince ??= now;
+            result.notReported.push(finding);
+        }
+    }
+
+    return result;
+}
+
+/**
+ * Most severe first, then by location.
+ */
+export function compareFindings(a: SolidityFinding, b: SolidityFinding): number {
+    return SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity] || a.file.localeCompare(b.file) || a.line - b.line;
+}
+
+/**
+ * Summarizes an audit run for the chat.
+ */
+export function formatAuditSummary(reconciliation: AuditReconciliation, focus: string[], auditPath: string): string {
+    const stillOpen = reconciliation.unchanged.filter(finding => finding.status === 'open');
+    const dismissed = reconciliation.unchanged.length - stillOpen.length;
+    const line = (finding: AuditFinding) => {
+        const swc = finding.swc ? ` [${finding.swc}${SWC_REGISTRY[finding.swc] ? `: ${SWC_REGISTRY[finding.swc]}` : ''}]` : '';
+        return `- **${finding.severity}** ${finding.id} ${finding.title} — \`${finding.file}:${finding.line}\`${swc}`;
+    };
+    const section = (heading: string, findings: AuditFinding[]) =>
+        findings.length > 0 ? ['', `### ${heading}`, '', ...[...findings].sort(compareFindings).map(line)] : [];
+
+    const lines = [
+        `Audited ${focus.map(file => `\`${file}\``).join(', ')}: ${reconciliation.added.length} new, ${reconciliation.reopened.length} reopened, `
+            + `${stillOpen.length} still open, ${reconciliation.notReported.length} open but not reported this time.`
+    ];
+    if (dismissed > 0) {
+        lines.push(`${dismissed} finding(s) reported again were already acknowledged or marked as false positives and keep their status.`);
+    }
+    lines.push(
+        ...section('New', reconciliation.added),
+        ...section('Reopened', reconciliation.reopened),
+        ...section('Still open', stillOpen),
+        ...section('Not reported this time (still open; mark them fixed once checked)', reconciliation.notReported),
+        '',
+        `Findings are saved in \`${auditPath}\` and listed in the Audit Findings view, where their status can be changed.`
+    );
+    return lines.join('\n');
+}
@@ -0,0 +1,40 @@
+import { CommitConvention } from '../types';
+
+/**
+ * Tells the model how the commit message should be written.
+ */
+export function formatCommitInstructions(convention: CommitConvention, maxSubjectLength: number): string {
+    const rules = [
+        'Write a git commit message for the diff below.',
+        `The subject line is at most ${maxSubjectLength} characters, in the imperative mood, without a trailing period.`,
+        'If the change needs explaining, add a blank line and a short body wrapped at 72 characters.',
+        'Reply with the commit message only.'
+    ];
+
+    if (convention === 'conventional') {
+        rules.splice(1, 0,
+            'Follow Conventional Commits: `<type>(<optional scope>): <description>`, where type is one of '
+            + 'feat, fix, docs, style, refactor, perf, test, build, ci or chore. Mark breaking changes with `!` after the type.');
+    }
+
+    return rules.join('\n');
+}
+
+/**
+ * Cleans up a model reply into a commit message: unwraps a fenced block or
+ * quotes, and shortens an overlong subject at a word boundary.
+ */
+export function normalizeCommitMessage(text: string, maxSubjectLength: number): string {
+    const block = /```[^\n]*\n([\s\S]*?)\n?```/.exec(text);
+    let message = (block ? block[1] : text).trim().replace(/^(["'])([\s\S]*)\1$/, '$2').trim();
+
+    const [subject, ...body] = message.split(/\r?\n/);
+    if (subject.length > maxSubjectLength) {
+        const cut = subject.slice(0, maxSubjectLength + 1);
+        const boundary = cut.lastIndexOf(' ');
+        const shortened = (boundary > maxSubjectLength / 2 ? cut.slice(0, boundary) : cut.slice(0, maxSubjectLength)).replace(/[\s,;:.-]+$/, '');
+        message = [shortened, ...body].join('\n');
+    }
+
+    return message;
+}
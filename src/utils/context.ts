@@ -0,0 +1,68 @@
+import * as path from 'path';
+import { ContextDiagnostic, ContextFile } from '../types';
+
+/** Goes between the files of the context sent to the CLI. */
+export const CONTEXT_FILE_SEPARATOR = '\n\n---\n\n';
+
+const HASH_COMMENTS = new Set(['.py', '.sh', '.bash', '.zsh', '.rb', '.pl', '.r', '.yml', '.yaml', '.toml', '.ini', '.cfg', '.conf', '.dockerfile', '.mk', '.ps1']);
+const MARKUP_COMMENTS = new Set(['.md', '.markdown', '.html', '.htm', '.xml', '.svg', '.vue', '.svelte']);
+const BLOCK_COMMENTS = new Set(['.css', '.scss', '.less']);
+// JSON and plain text have no comments; a bare line is the least confusing there
+const NO_COMMENTS = new Set(['.json', '.jsonc', '.txt', '.csv', '.lock']);
+const HASH_FILES = new Set(['dockerfile', 'makefile', '.gitignore', '.env']);
+
+/**
+ * Renders a context entry the way it is sent to the CLI. Range entries carry
+ * their line numbers so answers can point back into the file.
+ */
+export function formatContextFile(file: ContextFile, content = file.content ?? ''): string {
+    if (!file.range) {
+        return `// File: ${file.relativePath}\n${content}`;
+    }
+
+    // Line numbers only line up with the untrimmed selection
+    if (content !== file.content) {
+        return `// File: ${file.relativePath} (lines ${file.range.startLine}-${file.range.endLine})\n${content}`;
+    }
+
+    const numbered = content
+        .split('\n')
+        .map((line, index) => `${file.range!.startLine + index}: ${line}`)
+        .join('\n');
+    return `// File: ${file.relativePath} (lines ${file.range.startLine}-${file.range.endLine})\n${numbered}`;
+}
+
+/**
+ * A note inside a file's content, such as the marker for omitted lines, in
+ * the file's own comment syntax so it cannot be mistaken for code.
+ */
+export function contextComment(relativePath: string, text: string): string {
+    const name = path.posix.basename(relativePath.replace(/\\/g, '/')).toLowerCase();
+    const extension = path.posix.extname(name);
+    if (HASH_COMMENTS.has(extension) || HASH_FILES.has(name)) {
+        return `# ${text}`;
+    }
+    if (MARKUP_COMMENTS.has(extension)) {
+        return `<!-- ${text} -->`;
+    }
+    if (BLOCK_COMMENTS.has(extension)) {
+        return `/* ${text} */`;
+    }
+    if (NO_COMMENTS.has(extension)) {
+        return text;
+    }
+    return `// ${text}`;
+}
+
+/**
+ * Renders problems from the Problems panel as a prompt section, each with its
+ * location, severity and the source lines around it.
+ */
+export function formatDiagnostics(diagnostics: ContextDiagnostic[]): string {
+    const entries = diagnostics.map(diagnostic => {
+        const origin = [diagnostic.source, diagnostic.code].filter(Boolean).join(' ');
+        const header = `${diagnostic.relativePath}:${diagnostic.range.startLine}:${diagnostic.column} ${diagnostic.severity}${origin ? ` (${origin})` : ''}: ${diagnostic.message}`;
+        return diagnostic.snippet ? `${header}\n${diagnostic.snippet}` : header;
+    });
+    return `// Problems reported in the editor\n${entries.join('\n\n')}`;
+}
@@ -0,0 +1,377 @@
+import { ContractGasEntry, ContractTestCase, ContractTestRun } from '../types';
+import { asArray, asString, isRecord } from './json';
+
+/** A frame from the `callTracer` of `debug_traceTransaction`. */
+export interface CallFrame {
+    type: string;
+    from: string;
+    to?: string;
+    value?: string;
+    gasUsed?: string;
+    input?: string;
+    output?: string;
+    error?: string;
+    revertReason?: string;
+    calls?: CallFrame[];
+}
+
+/** The parts of an `eth_getTransactionReceipt` result a trace shows. */
+export interface TransactionReceipt {
+    blockNumber: bigint;
+    succeeded: boolean;
+    gasUsed: bigint;
+    contractAddress?: string;
+    logCount: number;
+}
+
+/** A `debug_traceTransaction` result from the default struct logger. */
+export interface StructTrace {
+    failed: boolean;
+    returnValue: string;
+    steps: { depth: number; pc: number; op: string }[];
+}
+
+const MAX_LISTED_PASSES = 50;
+const MAX_TRACE_LINES = 200;
+
+const PANIC_CODES: Record<number, string> = {
+    0x01: 'assertion failed',
+    0x11: 'arithmetic overflow or underflow',
+    0x12: 'division or modulo by zero',
+    0x21: 'invalid enum value',
+    0x22: 'corrupted storage byte array',
+    0x31: 'pop on an empty array',
+    0x32: 'array index out of bounds',
+    0x41: 'out of memory',
+    0x51: 'call to an uninitialized function'
+};
+
+export function stripAnsi(text: string): string {
+    return text.replace(/\x1b\[[0-9;]*[A-Za-z]/g, '');
+}
+
+/**
+ * Reads the output of `forge test --json`: an object of suites, each with its
+ * `test_results`. Returns undefined when there is no such object, which
+ * usually means compilation failed.
+ */
+export function parseForgeTestResults(stdout: string): ContractTestCase[] | undefined {
+    let data: unknown;
+    try {
+        data = JSON.parse(stdout.slice(stdout.indexOf('{'), stdout.lastIndexOf('}') + 1));
+    } catch (error) {
+        return undefined;
+    }
+    if (!isRecord(data)) {
+        return undefined;
+    }
+
+    return Object.entries(data).flatMap(([suite, result]) => {
+        const results = isRecord(result) && isRecord(result.test_results) ? result.test_results : {};
+        return Object.entries(results).map(([name, value]): ContractTestCase => {
+            const test = isRecord(value) ? value : {};
+            const kind = isRecord(test.kind) ? test.kind : {};
+            const logs = asArray(test.decoded_logs).filter((log): log is string => typeof log === 'string');
+            return {
+                suite: suite.split(':').pop() ?? suite,
+                name,
+                status: test.status === 'Success' ? 'passed' : test.status === 'Skipped' ? 'skipped' : 'failed',
+                reason: asString(test.reason),
+                gas: numberField(kind.Unit, 'gas') ?? numberField(kind.Fuzz, 'median_gas'),
+                counterexample: formatCounterexample(test.counterexample),
+                logs: logs.length > 0 ? logs : undefined
+            };
+        });
+    });
+}
+
+/**
+ * Reads mocha's spec reporter output from `hardhat test`: the test tree,
+ * where suites are indented titles, then the numbered failure details.
+ */
+export function parseHardhatTestResults(output: string): ContractTestCase[] | undefined {
+    const text = stripAnsi(output);
+    const summary = /^\s*\d+ passing\b/m.exec(text);
+    if (!summary) {
+        return undefined;
+    }
+
+    const tests: ContractTestCase[] = [];
+    const failures = new Map<string, ContractTestCase>();
+    const suites: { indent: number; title: string }[] = [];
+    for (const line of text.slice(0, summary.index).split(/\r?\n/)) {
+        const content = line.trim();
+        if (!content) {
+            continue;
+        }
+        const indent = line.length - line.trimStart().length;
+        while (suites.length > 0 && suites[suites.length - 1].indent >= indent) {
+            suites.pop();
+        }
+        const suite = suites.map(entry => entry.title).join(' › ');
+
+        const passed = /^[✔✓√]\s+(.+?)(?:\s+\(\d+ms\))?$/.exec(content);
+        const failed = /^(\d+)\)\s+(.+)$/.exec(content);
+        const skipped = /^-\s+(.+)$/.exec(content);
+        if (passed) {
+            tests.push({ suite, name: passed[1], status: 'passed' });
+        } else if (failed) {
+            const test: ContractTestCase = { suite, name: failed[2], status: 'failed' };
+            failures.set(failed[1], test);
+            tests.push(test);
+        } else if (skipped) {
+            tests.push({ suite, name: skipped[1], status: 'skipped' });
+        } else {
+            suites.push({ indent, title: content });
+        }
+    }
+
+    // Each failure is "N) suite / title:" followed by the error and its stack
+    const details = text.slice(summary.index);
+    const blocks = [...details.matchAll(/^\s{2}(\d+)\)\s[\s\S]*?(?=^\s{2}\d+\)\s|(?![\s\S]))/gm)];
+    for (const [block, number] of blocks) {
+        const test = failures.get(number);
+        const lines = block.split(/\r?\n/);
+        const titleEnd = lines.findIndex(line => line.trimEnd().endsWith(':'));
+        const message = lines.slice(titleEnd + 1)
+            .map(line => line.trim())
+            .filter(line => line && !line.startsWith('at '))
+            .join('\n');
+        if (test && message) {
+            test.reason = extractRevertReason(message) ?? message;
+        }
+    }
+
+    return tests;
+}
+
+/**
+ * Reads the method rows of hardhat-gas-reporter's table:
+ * `Contract · method · min · max · avg · calls · usd`.
+ */
+export function parseGasReport(output: string): ContractGasEntry[] {
+    const number = (cell: string) => /^\d+$/.test(cell) ? Number(cell) : undefined;
+    return stripAnsi(output).split(/\r?\n/).flatMap((line): ContractGasEntry[] => {
+        const cells = line.split(/[·|│]/).map(cell => cell.trim()).filter(Boolean);
+        if (cells.length < 6 || cells[1] === '-' || number(cells[4]) === undefined || number(cells[5]) === undefined) {
+            return [];
+        }
+        return [{ contract: cells[0], method: cells[1], min: number(cells[2]), max: number(cells[3]), avg: number(cells[4])!, calls: number(cells[5])! }];
+    });
+}
+
+/**
+ * The revert reason in an ethers or Hardhat error message, when it names one.
+ */
+export function extractRevertReason(message: string): string | undefined {
+    // The reason runs to the last quote on its line, as it may hold quotes itself
+    const match = /reverted with reason string '(.*)'/.exec(message)
+        ?? /reverted with custom error '(.*)'/.exec(message)
+        ?? /reverted with (panic code [^\n]+)/.exec(message)
+        ?? /(reverted without a reason string)/.exec(message);
+    return match?.[1];
+}
+
+/**
+ * Decodes revert data: `Error(string)`, `Panic(uint256)`, or a custom error
+ * named through `signatures` (selector → signature).
+ */
+export function decodeRevertData(data: string | undefined, signatures: Map<string, string>): string | undefined {
+    if (!data || !/^0x[0-9a-f]{8}/i.test(data)) {
+        return undefined;
+    }
+
+    const selector = data.slice(0, 10).toLowerCase();
+    const payload = data.slice(10);
+    if (selector === '0x08c379a0' && payload.length >= 128) {
+        const offset = parseInt(payload.slice(0, 64), 16) * 2;
+        const length = parseInt(payload.slice(offset, offset + 64), 16) * 2;
+        return Buffer.from(payload.slice(offset + 64, offset + 64 + length), 'hex').toString('utf8');
+    }
+    if (selector === '0x4e487b71' && payload.length >= 64) {
+        const code = parseInt(payload.slice(0, 64), 16);
+        return `Panic(0x${code.toString(16).padStart(2, '0')})${PANIC_CODES[code] ? `: ${PANIC_CODES[code]}` : ''}`;
+    }
+    const signature = signatures.get(selector);
+    return signature ? `${signature} (custom error)` : `custom error ${selector}`;
+}
+
+/**
+ * Reads a transaction receipt from the devnet. Returns undefined when the
+ * node does not know the transaction or the result is malformed.
+ */
+export function parseTransactionReceipt(value: unknown): TransactionReceipt | undefined {
+    if (!isRecord(value)) {
+        return undefined;
+    }
+    const blockNumber = asQuantity(value.blockNumber);
+    const gasUsed = asQuantity(value.gasUsed);
+    if (blockNumber === undefined || gasUsed === undefined) {
+        return undefined;
+    }
+    return {
+        blockNumber,
+        succeeded: value.status === '0x1',
+        gasUsed,
+        contractAddress: asString(value.contractAddress),
+        logCount: asArray(value.logs).length
+    };
+}
+
+/**
+ * Reads a frame of the `callTracer` and its subcalls. Fields of the wrong
+ * type are left out; a frame without a type or sender is not a frame.
+ */
+export function parseCallFrame(value: unknown): CallFrame | undefined {
+    if (!isRecord(value) || typeof value.type !== 'string' || typeof value.from !== 'string') {
+        return undefined;
+    }
+    const quantity = (field: unknown) => asQuantity(field) !== undefined ? field as string : undefined;
+    const calls = asArray(value.calls).map(parseCallFrame).filter((call): call is CallFrame => !!call);
+    return {
+        type: value.type,
+        from: value.from,
+        to: asString(value.to),
+        value: quantity(value.value),
+        gasUsed: quantity(value.gasUsed),
+        input: asString(value.input),
+        output: asString(value.output),
+        error: asString(value.error),
+        revertReason: asString(value.revertReason),
+        calls: calls.length > 0 ? calls : undefined
+    };
+}
+
+/**
+ * Reads a trace of the default struct logger, keeping the steps that have
+ * their depth, program counter and opcode.
+ */
+export function parseStructTrace(value: unknown): StructTrace | undefined {
+    if (!isRecord(value)) {
+        return undefined;
+    }
+    return {
+        failed: value.failed === true,
+        returnValue: asString(value.returnValue) ?? '',
+        steps: asArray(value.structLogs).flatMap(step => isRecord(step)
+            && typeof step.depth === 'number' && typeof step.pc === 'number' && typeof step.op === 'string'
+            ? [{ depth: step.depth, pc: step.pc, op: step.op }]
+            : [])
+    };
+}
+
+/**
+ * Renders a call tree, one call per line, with the function called, value,
+ * gas used and, for failed calls, the decoded revert reason.
+ */
+export function formatCallTrace(root: CallFrame, signatures: Map<string, string>): string {
+    const lines: string[] = [];
+    const visit = (frame: CallFrame, depth: number) => {
+        if (lines.length >= MAX_TRACE_LINES) {
+            return;
+        }
+
+        const isCreate = frame.type.startsWith('CREATE');
+        const selector = frame.input && frame.input.length >= 10 ? frame.input.slice(0, 10).toLowerCase() : undefined;
+        const target = isCreate ? `${frame.type} → ${frame.to ?? '?'}` : `${frame.type} ${frame.to ?? '?'}`;
+        const method = isCreate ? '' : ` ${selector ? signatures.get(selector) ?? selector : 'fallback()'}`;
+        const value = frame.value && BigInt(frame.value) > 0n ? ` value ${BigInt(frame.value)}` : '';
+        const gas = frame.gasUsed ? ` gas ${BigInt(frame.gasUsed)}` : '';
+        const reason = frame.revertReason ?? decodeRevertData(frame.output, signatures);
+        const failure = frame.error ? ` ✗ ${frame.error}${reason ? `: ${reason}` : ''}` : '';
+        lines.push(`${'  '.repeat(depth)}${target}${method}${value}${gas}${failure}`);
+
+        (frame.calls ?? []).forEach(call => visit(call, depth + 1));
+    };
+
+    visit(root, 0);
+    if (lines.length >= MAX_TRACE_LINES) {
+        lines.push('[trace truncated]');
+    }
+    return lines.join('\n');
+}
+
+/**
+ * Describes a test run for the agent: counts, each failure with its reason,
+ * the passing tests with their gas, and the gas report.
+ */
+export function formatContractTestRun(run: ContractTestRun): string {
+    const count = (status: ContractTestCase['status']) => run.tests.filter(test => test.status === status).length;
+    const title = (test: ContractTestCase) => `${test.suite ? `${test.suite} › ` : ''}${test.name}`;
+    const lines = [
+        `\`${run.command}\` in ${run.cwd || 'the workspace root'}: ${count('passed')} passed, ${count('failed')} failed, ${count('skipped')} skipped (exit code ${run.exitCode ?? 'unknown'})`
+    ];
+
+    if (run.error) {
+        lines.push('', 'The tests did not run:', run.error);
+    }
+
+    const failed = run.tests.filter(test => test.status === 'failed');
+    if (failed.length > 0) {
+        lines.push('', 'Failed:');
+        for (const test of failed) {
+            lines.push(`- ${title(test)}: ${test.reason?.replace(/\n/g, '\n  ') ?? 'no reason given'}${test.gas !== undefined ? ` (gas ${test.gas})` : ''}`);
+            if (test.counterexample) {
+                lines.push(`  counterexample: ${test.counterexample}`);
+            }
+            test.logs?.forEach(log => lines.push(`  log: ${log}`));
+        }
+    }
+
+    const passed = run.tests.filter(test => test.status === 'passed');
+    if (passed.length > 0) {
+        lines.push('', 'Passed:');
+        passed.slice(0, MAX_LISTED_PASSES).forEach(test => lines.push(`- ${title(test)}${test.gas !== undefined ? ` (gas ${test.gas})` : ''}`));
+        if (passed.length > MAX_LISTED_PASSES) {
+            lines.push(`- and ${passed.length - MAX_LISTED_PASSES} more`);
+        }
+    }
+
+    if (run.gasReport.length > 0) {
+        lines.push('', 'Gas by method:');
+        run.gasReport.forEach(entry => lines.push(
+            `- ${entry.contract}.${entry.method}: avg ${entry.avg}${entry.min !== undefined ? ` (min ${entry.min}, max ${entry.max ?? entry.min})` : ''}, ${entry.calls} call(s)`
+        ));
+    }
+
+    if (run.traces) {
+        lines.push('', 'Traces of the failing tests:', run.traces);
+    }
+
+    if (failed.length > 0 || run.error) {
+        lines.push('', 'Fix the failures or the code under test, then call run_contract_tests again to check.');
+    }
+    return lines.join('\n');
+}
+
+function formatCounterexample(counterexample: unknown): string | undefined {
+    if (!counterexample) {
+        return undefined;
+    }
+    if (!isRecord(counterexample)) {
+        return JSON.stringify(counterexample);
+    }
+    const single = isRecord(counterexample.Single) ? counterexample.Single : counterexample;
+    if (typeof single.signature === 'string') {
+        const args = asString(single.args);
+        return `${single.signature}${args ? ` with ${args}` : ''}`;
+    }
+    // Invariant failures carry the sequence of calls that broke the invariant
+    if (Array.isArray(counterexample.Sequence)) {
+        return counterexample.Sequence.filter(isRecord).map(call => {
+            const args = asString(call.args);
+            return `${asString(call.contract_name) ?? asString(call.address) ?? '?'}.${asString(call.signature) ?? '?'}${args ? `(${args})` : ''}`;
+        }).join(' → ');
+    }
+    return JSON.stringify(counterexample);
+}
+
+function numberField(value: unknown, key: string): number | undefined {
+    const field = isRecord(value) ? value[key] : undefined;
+    return typeof field === 'number' ? field : undefined;
+}
+
+// JSON-RPC quantities are hex strings
+function asQuantity(value: unknown): bigint | undefined {
+    return typeof value === 'string' && /^0x[0-9a-f]+$/i.test(value) ? BigInt(value) : undefined;
+}
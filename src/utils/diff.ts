@@ -0,0 +1,167 @@
+export interface DiffHunk {
+    /** Zero-based index of the first replaced line in the original text. */
+    originalStart: number;
+    /** Number of original lines replaced; zero for a pure insertion. */
+    originalLength: number;
+    /** Lines that replace the original range; empty for a pure deletion. */
+    modifiedLines: string[];
+}
+
+// Above this many line pairs the middle section is reported as a single hunk
+const MAX_DIFF_CELLS = 4_000_000;
+
+export function splitLines(text: string): string[] {
+    return text.split(/\r?\n/);
+}
+
+/**
+ * Computes line-level hunks that turn `original` into `modified`. Consecutive
+ * changed lines form one hunk; any unchanged line between them starts a new one.
+ */
+export function computeHunks(original: string, modified: string): DiffHunk[] {
+    const a = splitLines(original);
+    const b = splitLines(modified);
+
+    // Trim the common prefix and suffix so the quadratic part only sees the changed middle
+    let start = 0;
+    while (start < a.length && start < b.length && a[start] === b[start]) {
+        start++;
+    }
+    let endA = a.length;
+    let endB = b.length;
+    while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+        endA--;
+        endB--;
+    }
+
+    if (start === endA && start === endB) {
+        return [];
+    }
+
+    const n = endA - start;
+    const m = endB - start;
+    if (n * m > MAX_DIFF_CELLS) {
+        return [{ originalStart: start, originalLength: n, modifiedLines: b.slice(start, endB) }];
+    }
+
+    // lcs[i][j] = length of the longest common subsequence of a[start+i..endA) and b[start+j..endB)
+    const width = m + 1;
+    const lcs = new Uint32Array((n + 1) * width);
+    for (let i = n - 1; i >= 0; i--) {
+        for (let j = m - 1; j >= 0; j--) {
+            lcs[i * width + j] = a[start + i] === b[start + j]
+                ? lcs[(i + 1) * width + j + 1] + 1
+                : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+        }
+    }
+
+    const hunks: DiffHunk[] = [];
+    let current: DiffHunk | undefined;
+    let i = 0;
+    let j = 0;
+
+    while (i < n || j < m) {
+        if (i < n && j < m && a[start + i] === b[start + j]) {
+            current = undefined;
+            i++;
+            j++;
+            continue;
+        }
+
+        if (!current) {
+            current = { originalStart: start + i, originalLength: 0, modifiedLines: [] };
+            hunks.push(current);
+        }
+
+        if (j < m && (i === n || lcs[i * width + j + 1] >= lcs[(i + 1) * width + j])) {
+            current.modifiedLines.push(b[start + j]);
+            j++;
+        } else {
+            current.originalLength++;
+            i++;
+        }
+    }
+
+    return hunks;
+}
+
+/**
+ * Applies the given hunks (as returned by `computeHunks` for the same original)
+ * and joins the result with the original's line ending.
+ */
+export function applyHunks(original: string, hunks: DiffHunk[]): string {
+    const lines = splitLines(original);
+    const eol = original.includes('\r\n') ? '\r\n' : '\n';
+
+    // Apply bottom-up so earlier hunk offsets stay valid
+    [...hunks]
+        .sort((x, y) => y.originalStart - x.originalStart)
+        .forEach(hunk => lines.splice(hunk.originalStart, hunk.originalLength, ...hunk.modifiedLines));
+
+    return lines.join(eol);
+}
+
+export interface FileDiff {
+    /** Path in the new version, relative to the repository root. */
+    path: string;
+    /** One-based line ranges of the new version covered by the diff's hunks. */
+    ranges: { startLine: number; endLine: number }[];
+}
+
+/**
+ * Lists the files of a `git diff` output and the new-version lines its hunks
+ * cover. Deleted files are left out since there is nothing left to point at.
+ */
+export function parseUnifiedDiff(diff: string): FileDiff[] {
+    const files: FileDiff[] = [];
+    let current: FileDiff | undefined;
+
+    for (const line of splitLines(diff)) {
+        if (line.startsWith('diff --git ')) {
+            current = undefined;
+        } else if (line.startsWith('+++ ')) {
+            const target = line.slice(4).replace(/\t.*$/, '');
+            current = target === '/dev/null' ? undefined : { path: target.replace(/^b\//, ''), ranges: [] };
+            if (current) {
+                files.push(current);
+            }
+        } else if (current && line.startsWith('@@')) {
+            const hunk = /^@@ -\d+(?:,\d+)? \+(\d+)(?:,(\d+))? @@/.exec(line);
+            if (hunk) {
+                const startLine = Number(hunk[1]);
+                const length = hunk[2] === undefined ? 1 : Number(hunk[2]);
+                current.ranges.push({ startLine, endLine: startLine + Math.max(length, 1) - 1 });
+            }
+        }
+    }
+
+    return files;
+}
+
+/**
+ * Prefixes the lines of a `git diff` output with their line number in the new
+ * version, so a reviewer can refer to exact lines. Removed lines get no number.
+ */
+export function numberUnifiedDiff(diff: string): string {
+    let newLine = 0;
+    let inHunk = false;
+
+    return splitLines(diff).map(line => {
+        const hunk = /^@@ -\d+(?:,\d+)? \+(\d+)(?:,\d+)? @@/.exec(line);
+        if (hunk) {
+            newLine = Number(hunk[1]);
+            inHunk = true;
+            return line;
+        }
+        if (line.startsWith('diff --git ')) {
+            inHunk = false;
+        }
+        if (!inHunk || !line || line.startsWith('\\')) {
+            return line;
+        }
+        if (line.startsWith('-')) {
+            return `      ${line}`;
+        }
+        return `${String(newLine++).padStart(5)} ${line}`;
+    }).join('\n');
+}
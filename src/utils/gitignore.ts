@@ -0,0 +1,96 @@
+interface IgnoreRule {
+    regex: RegExp;
+    negated: boolean;
+    directoryOnly: boolean;
+}
+
+/**
+ * Matches paths against the rules of one .gitignore file. Covers the common
+ * syntax: comments, `!` negation, trailing `/` for directories, leading `/`
+ * anchoring, the `*`, `**` and `?` wildcards, `[...]` sets and `\` escapes.
+ */
+export class GitIgnore {
+    private _rules: IgnoreRule[];
+
+    constructor(content: string) {
+        this._rules = content
+            .split(/\r?\n/)
+            .map(line => line.trim())
+            .filter(line => line && !line.startsWith('#'))
+            .map(line => this._parseRule(line));
+    }
+
+    /**
+     * Whether a path relative to the .gitignore's directory is ignored. The last
+     * matching rule wins, so later negations can re-include a path.
+     */
+    ignores(relativePath: string, isDirectory: boolean): boolean {
+        const normalized = relativePath.replace(/\\/g, '/');
+        let ignored = false;
+
+        for (const rule of this._rules) {
+            if (rule.directoryOnly && !isDirectory) {
+                continue;
+            }
+            if (rule.regex.test(normalized)) {
+                ignored = !rule.negated;
+            }
+        }
+
+        return ignored;
+    }
+
+    private _parseRule(line: string): IgnoreRule {
+        const negated = line.startsWith('!');
+        let pattern = negated ? line.slice(1) : line;
+
+        const directoryOnly = pattern.endsWith('/');
+        pattern = pattern.replace(/\/+$/, '');
+
+        // A slash anywhere but the end anchors the pattern to the .gitignore's directory
+        const anchored = pattern.includes('/');
+        pattern = pattern.replace(/^\//, '');
+
+        let source = '';
+        for (let index = 0; index < pattern.length; index++) {
+            const char = pattern[index];
+            if (char === '*' && pattern[index + 1] === '*') {
+                // `**/` matches zero or more directories, a trailing `**` everything below
+                if (pattern[index + 2] === '/') {
+                    source += '(?:.*/)?';
+                    index += 2;
+                } else {
+                    source += '.*';
+                    index += 1;
+                }
+            } else if (char === '*') {
+                source += '[^/]*';
+            } else if (char === '?') {
+                source += '[^/]';
+            } else if (char === '\\' && index + 1 < pattern.length) {
+                index++;
+                source += escapeRegExp(pattern[index]);
+            } else if (char === '[' && pattern.indexOf(']', index + 2) !== -1) {
+                // A `]` right after the opening bracket is part of the set
+                const end = pattern.indexOf(']', index + 2);
+                const set = pattern.slice(index + 1, end);
+                const complement = set.startsWith('!') || set.startsWith('^');
+                const members = (complement ? set.slice(1) : set).replace(/[\\^[\]]/g, '\\$&');
+                source += complement ? `[^/${members}]` : `[${members}]`;
+                index = end;
+            } else {
+                source += escapeRegExp(char);
+            }
+        }
+
+        return {
+            regex: new RegExp(`^${anchored ? '' : '(?:.*/)?'}${source}$`),
+            negated,
+            directoryOnly
+        };
+    }
+}
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
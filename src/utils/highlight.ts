@@ -0,0 +1,215 @@
+interface LanguageRules {
+    keywords: Set<string>;
+    lineComments: string[];
+    blockComment?: [string, string];
+    /** Quote characters; backticks may span lines, the others may not. */
+    quotes: string[];
+}
+
+const C_LIKE_COMMENTS = { lineComments: ['//'], blockComment: ['/*', '*/'] as [string, string] };
+
+const LANGUAGES: Record<string, LanguageRules> = {
+    typescript: {
+        ...C_LIKE_COMMENTS,
+        quotes: ['"', '\'', '`'],
+        keywords: new Set([
+            'abstract', 'as', 'async', 'await', 'break', 'case', 'catch', 'class', 'const', 'continue', 'declare',
+            'default', 'delete', 'do', 'else', 'enum', 'export', 'extends', 'false', 'finally', 'for', 'from',
+            'function', 'get', 'if', 'implements', 'import', 'in', 'instanceof', 'interface', 'keyof', 'let', 'new',
+            'null', 'of', 'private', 'protected', 'public', 'readonly', 'return', 'set', 'static', 'super', 'switch',
+            'this', 'throw', 'true', 'try', 'type', 'typeof', 'undefined', 'var', 'void', 'while', 'yield'
+        ])
+    },
+    python: {
+        lineComments: ['#'],
+        quotes: ['"', '\''],
+        keywords: new Set([
+            'False', 'None', 'True', 'and', 'as', 'assert', 'async', 'await', 'break', 'class', 'continue', 'def',
+            'del', 'elif', 'else', 'except', 'finally', 'for', 'from', 'global', 'if', 'import', 'in', 'is', 'lambda',
+            'nonlocal', 'not', 'or', 'pass', 'raise', 'return', 'self', 'try', 'while', 'with', 'yield'
+        ])
+    },
+    solidity: {
+        ...C_LIKE_COMMENTS,
+        quotes: ['"', '\''],
+        keywords: new Set([
+            'abstract', 'address', 'bool', 'break', 'bytes', 'calldata', 'constant', 'constructor', 'continue',
+            'contract', 'delete', 'else', 'emit', 'enum', 'error', 'event', 'external', 'fallback', 'false', 'for',
+            'function', 'if', 'immutable', 'import', 'indexed', 'interface', 'internal', 'is', 'library', 'mapping',
+            'memory', 'modifier', 'new', 'override', 'payable', 'pragma', 'private', 'public', 'pure', 'receive',
+            'return', 'returns', 'revert', 'storage', 'string', 'struct', 'true', 'try', 'catch', 'uint', 'uint256',
+            'uint8', 'int', 'int256', 'bytes32', 'unchecked', 'using', 'view', 'virtual', 'while'
+        ])
+    },
+    rust: {
+        ...C_LIKE_COMMENTS,
+        quotes: ['"'],
+        keywords: new Set([
+            'as', 'async', 'await', 'break', 'const', 'continue', 'crate', 'dyn', 'else', 'enum', 'extern', 'false',
+            'fn', 'for', 'if', 'impl', 'in', 'let', 'loop', 'match', 'mod', 'move', 'mut', 'pub', 'ref', 'return',
+            'self', 'Self', 'static', 'struct', 'super', 'trait', 'true', 'type', 'unsafe', 'use', 'where', 'while'
+        ])
+    },
+    go: {
+        ...C_LIKE_COMMENTS,
+        quotes: ['"', '\'', '`'],
+        keywords: new Set([
+            'break', 'case', 'chan', 'const', 'continue', 'default', 'defer', 'else', 'fallthrough', 'false', 'for',
+            'func', 'go', 'goto', 'if', 'import', 'interface', 'map', 'nil', 'package', 'range', 'return', 'select',
+            'struct', 'switch', 'true', 'type', 'var'
+        ])
+    },
+    c: {
+        ...C_LIKE_COMMENTS,
+        quotes: ['"', '\''],
+        keywords: new Set([
+            'auto', 'bool', 'break', 'case', 'catch', 'char', 'class', 'const', 'continue', 'default', 'delete', 'do',
+            'double', 'else', 'enum', 'extends', 'extern', 'false', 'final', 'finally', 'float', 'for', 'if',
+            'implements', 'import', 'include', 'int', 'interface', 'long', 'namespace', 'new', 'null', 'nullptr',
+            'package', 'private', 'protected', 'public', 'return', 'short', 'static', 'struct', 'switch', 'template',
+            'this', 'throw', 'throws', 'true', 'try', 'typedef', 'unsigned', 'using', 'var', 'virtual', 'void', 'while'
+        ])
+    },
+    shell: {
+        lineComments: ['#'],
+        quotes: ['"', '\''],
+        keywords: new Set([
+            'case', 'do', 'done', 'elif', 'else', 'esac', 'export', 'fi', 'for', 'function', 'if', 'in', 'local',
+            'return', 'then', 'until', 'while'
+        ])
+    },
+    json: {
+        lineComments: [],
+        quotes: ['"'],
+        keywords: new Set(['true', 'false', 'null'])
+    },
+    css: {
+        lineComments: [],
+        blockComment: ['/*', '*/'],
+        quotes: ['"', '\''],
+        keywords: new Set(['important', 'inherit', 'initial', 'none', 'auto'])
+    }
+};
+
+const ALIASES: Record<string, string> = {
+    ts: 'typescript', tsx: 'typescript', typescript: 'typescript', js: 'typescript', jsx: 'typescript',
+    javascript: 'typescript', mjs: 'typescript', cjs: 'typescript',
+    py: 'python', python: 'python',
+    sol: 'solidity', solidity: 'solidity',
+    rs: 'rust', rust: 'rust',
+    go: 'go', golang: 'go',
+    c: 'c', h: 'c', cpp: 'c', 'c++': 'c', hpp: 'c', cs: 'c', csharp: 'c', java: 'c', kotlin: 'c', swift: 'c',
+    sh: 'shell', bash: 'shell', zsh: 'shell', shell: 'shell', console: 'shell',
+    json: 'json', jsonc: 'json',
+    css: 'css', scss: 'css', less: 'css'
+};
+
+/** VS Code language ids for fence names that differ from them. */
+const LANGUAGE_IDS: Record<string, string> = {
+    ts: 'typescript', tsx: 'typescriptreact', js: 'javascript', jsx: 'javascriptreact', mjs: 'javascript',
+    cjs: 'javascript', py: 'python', sol: 'solidity', rs: 'rust', golang: 'go', h: 'c', hpp: 'cpp', 'c++': 'cpp',
+    cs: 'csharp', sh: 'shellscript', bash: 'shellscript', zsh: 'shellscript', shell: 'shellscript',
+    console: 'shellscript', md: 'markdown', yml: 'yaml'
+};
+
+/**
+ * Maps a fenced code block's language name to a VS Code language id.
+ */
+export function toLanguageId(language: string): string {
+    const name = language.toLowerCase();
+    return LANGUAGE_IDS[name] ?? (name || 'plaintext');
+}
+
+export function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+}
+
+/**
+ * Returns escaped HTML for a code snippet with comments, strings, numbers,
+ * keywords, types and calls wrapped in `tok-*` spans. Unknown languages are
+ * only escaped.
+ */
+export function highlightCode(code: string, language: string): string {
+    const rules = LANGUAGES[ALIASES[language.toLowerCase()]];
+    if (!rules) {
+        return escapeHtml(code);
+    }
+
+    let html = '';
+    let index = 0;
+    const token = (kind: string, text: string) => {
+        html += `<span class="tok-${kind}">${escapeHtml(text)}</span>`;
+    };
+
+    // Sticky patterns match at `lastIndex` only, so the code is never re-sliced
+    const numberPattern = /0[xX][\da-fA-F_]+|\d[\d_]*(?:\.\d+)?(?:[eE][+-]?\d+)?/y;
+    const wordPattern = /[A-Za-z_$][\w$]*/y;
+    const callPattern = /\s*\(/y;
+
+    while (index < code.length) {
+        if (rules.lineComments.some(marker => code.startsWith(marker, index))) {
+            const end = code.indexOf('\n', index);
+            const text = end === -1 ? code.slice(index) : code.slice(index, end);
+            token('comment', text);
+            index += text.length;
+            continue;
+        }
+
+        if (rules.blockComment && code.startsWith(rules.blockComment[0], index)) {
+            const end = code.indexOf(rules.blockComment[1], index + rules.blockComment[0].length);
+            const text = end === -1 ? code.slice(index) : code.slice(index, end + rules.blockComment[1].length);
+            token('comment', text);
+            index += text.length;
+            continue;
+        }
+
+        const char = code[index];
+        if (rules.quotes.includes(char)) {
+            let end = index + 1;
+            while (end < code.length && code[end] !== char && (char === '`' || code[end] !== '\n')) {
+                end += code[end] === '\\' ? 2 : 1;
+            }
+            // Unterminated strings stop at the end of the line
+            const text = code.slice(index, code[end] === char ? end + 1 : Math.min(end, code.length));
+            token('string', text);
+            index += text.length;
+            continue;
+        }
+
+        numberPattern.lastIndex = index;
+        const number = numberPattern.exec(code);
+        if (number && !/[\w$]/.test(code[index - 1] ?? '')) {
+            token('number', number[0]);
+            index += number[0].length;
+            continue;
+        }
+
+        wordPattern.lastIndex = index;
+        const word = wordPattern.exec(code);
+        if (word) {
+            const text = word[0];
+            callPattern.lastIndex = index + text.length;
+            if (rules.keywords.has(text)) {
+                token('keyword', text);
+            } else if (callPattern.test(code)) {
+                token('function', text);
+            } else if (/^[A-Z][a-z]/.test(text)) {
+                token('type', text);
+            } else {
+                html += escapeHtml(text);
+            }
+            index += text.length;
+            continue;
+        }
+
+        html += escapeHtml(char);
+        index++;
+    }
+
+    return html;
+}
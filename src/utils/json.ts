@@ -0,0 +1,15 @@
+/**
+ * Narrowing for parsed JSON and other data from outside the extension, which
+ * is `unknown` until checked.
+ */
+export function isRecord(value: unknown): value is Record<string, unknown> {
+    return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+export function asArray(value: unknown): unknown[] {
+    return Array.isArray(value) ? value : [];
+}
+
+export function asString(value: unknown): string | undefined {
+    return typeof value === 'string' ? value : undefined;
+}
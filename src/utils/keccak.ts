@@ -0,0 +1,81 @@
+// Keccak-f[1600] round constants
+const ROUND_CONSTANTS = [
+    0x0000000000000001n, 0x0000000000008082n, 0x800000000000808an, 0x8000000080008000n,
+    0x000000000000808bn, 0x0000000080000001n, 0x8000000080008081n, 0x8000000000008009n,
+    0x000000000000008an, 0x0000000000000088n, 0x0000000080008009n, 0x000000008000000an,
+    0x000000008000808bn, 0x800000000000008bn, 0x8000000000008089n, 0x8000000000008003n,
+    0x8000000000008002n, 0x8000000000000080n, 0x000000000000800an, 0x800000008000000an,
+    0x8000000080008081n, 0x8000000000008080n, 0x0000000080000001n, 0x8000000080008008n
+];
+
+// Rotation offsets, indexed by x + 5y
+const ROTATIONS = [0, 1, 62, 28, 27, 36, 44, 6, 55, 20, 3, 10, 43, 25, 39, 41, 45, 15, 21, 8, 18, 2, 61, 56, 14];
+
+const MASK = (1n << 64n) - 1n;
+const RATE = 136;
+
+function rotate(lane: bigint, bits: number): bigint {
+    return bits === 0 ? lane : ((lane << BigInt(bits)) | (lane >> BigInt(64 - bits))) & MASK;
+}
+
+function permute(state: bigint[]): void {
+    const c = new Array<bigint>(5);
+    const b = new Array<bigint>(25);
+
+    for (const constant of ROUND_CONSTANTS) {
+        for (let x = 0; x < 5; x++) {
+            c[x] = state[x] ^ state[x + 5] ^ state[x + 10] ^ state[x + 15] ^ state[x + 20];
+        }
+        for (let x = 0; x < 5; x++) {
+            const d = c[(x + 4) % 5] ^ rotate(c[(x + 1) % 5], 1);
+            for (let y = 0; y < 25; y += 5) {
+                state[x + y] ^= d;
+            }
+        }
+        for (let x = 0; x < 5; x++) {
+            for (let y = 0; y < 5; y++) {
+                b[y + 5 * ((2 * x + 3 * y) % 5)] = rotate(state[x + 5 * y], ROTATIONS[x + 5 * y]);
+            }
+        }
+        for (let y = 0; y < 25; y += 5) {
+            for (let x = 0; x < 5; x++) {
+                state[x + y] = b[x + y] ^ (~b[(x + 1) % 5 + y] & MASK & b[(x + 2) % 5 + y]);
+            }
+        }
+        state[0] ^= constant;
+    }
+}
+
+/**
+ * Keccak-256 as used by Ethereum, which pads differently from SHA3-256 and
+ * so is not available from Node's crypto module. Returns the hex digest.
+ */
+export function keccak256(input: string | Uint8Array): string {
+    const bytes = typeof input === 'string' ? new TextEncoder().encode(input) : input;
+
+    // Pad with 0x01 ... 0x80 to a whole number of blocks
+    const padded = new Uint8Array(Math.floor(bytes.length / RATE) * RATE + RATE);
+    padded.set(bytes);
+    padded[bytes.length] ^= 0x01;
+    padded[padded.length - 1] ^= 0x80;
+
+    const state = new Array<bigint>(25).fill(0n);
+    for (let offset = 0; offset < padded.length; offset += RATE) {
+        for (let lane = 0; lane < RATE / 8; lane++) {
+            let value = 0n;
+            for (let byte = 7; byte >= 0; byte--) {
+                value = (value << 8n) | BigInt(padded[offset + lane * 8 + byte]);
+            }
+            state[lane] ^= value;
+        }
+        permute(state);
+    }
+
+    let hex = '';
+    for (let lane = 0; lane < 4; lane++) {
+        for (let byte = 0; byte < 8; byte++) {
+            hex += Number((state[lane] >> BigInt(8 * byte)) & 0xffn).toString(16).padStart(2, '0');
+        }
+    }
+    return hex;
+}
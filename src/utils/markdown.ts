@@ -0,0 +1,238 @@
+import { escapeHtml, highlightCode } from './highlight';
+
+/**
+ * Code block actions offered in the chat, in toolbar order.
+ */
+export const CODE_BLOCK_ACTIONS = [
+    { action: 'copy', label: 'Copy' },
+    { action: 'insert', label: 'Insert at Cursor' },
+    { action: 'apply', label: 'Apply to File' },
+    { action: 'newFile', label: 'New File' }
+] as const;
+
+export type CodeBlockAction = typeof CODE_BLOCK_ACTIONS[number]['action'];
+
+const FENCE = /^ {0,3}(`{3,}|~{3,})\s*(.*)$/;
+const HEADING = /^ {0,3}(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/;
+const RULE = /^ {0,3}([-*_])(?:\s*\1){2,}\s*$/;
+const QUOTE = /^ {0,3}>\s?(.*)$/;
+const LIST_ITEM = /^(\s*)([-*+]|\d{1,9}[.)])\s+(.*)$/;
+const TABLE_DIVIDER = /^\s*\|?\s*:?-+:?\s*(?:\|\s*:?-+:?\s*)*\|?\s*$/;
+const SAFE_LINK = /^(?:https?:|mailto:)/i;
+
+/**
+ * Renders chat markdown to HTML: headings, paragraphs, emphasis, links, lists,
+ * block quotes, tables and fenced code with highlighting. All source text is
+ * escaped and only the tags produced here are emitted, so the output is safe to
+ * insert into the webview. An unclosed fence (mid-stream) renders as code.
+ */
+export function renderMarkdown(source: string): string {
+    return renderBlocks(source.replace(/\0/g, '').split(/\r?\n/));
+}
+
+function renderBlocks(lines: string[]): string {
+    const html: string[] = [];
+    let index = 0;
+
+    while (index < lines.length) {
+        const line = lines[index];
+
+        if (!line.trim()) {
+            index++;
+            continue;
+        }
+
+        const fence = FENCE.exec(line);
+        if (fence) {
+            const marker = fence[1];
+            const code: string[] = [];
+            index++;
+            while (index < lines.length && !isClosingFence(lines[index], marker)) {
+                code.push(lines[index]);
+                index++;
+            }
+            index++;
+            html.push(renderCodeBlock(code.join('\n'), fence[2].trim()));
+            continue;
+        }
+
+        const heading = HEADING.exec(line);
+        if (heading) {
+            const level = heading[1].length;
+            html.push(`<h${level}>${renderInline(heading[2])}</h${level}>`);
+            index++;
+            continue;
+        }
+
+        if (RULE.test(line)) {
+            html.push('<hr>');
+            index++;
+            continue;
+        }
+
+        if (QUOTE.test(line)) {
+            const quoted: string[] = [];
+            let match: RegExpExecArray | null;
+            while (index < lines.length && (match = QUOTE.exec(lines[index]))) {
+                quoted.push(match[1]);
+                index++;
+            }
+            html.push(`<blockquote>${renderBlocks(quoted)}</blockquote>`);
+            continue;
+        }
+
+        if (LIST_ITEM.test(line)) {
+            const end = findListEnd(lines, index);
+            html.push(renderList(lines.slice(index, end)));
+            index = end;
+            continue;
+        }
+
+        if (line.includes('|') && index + 1 < lines.length && TABLE_DIVIDER.test(lines[index + 1]) && lines[index + 1].includes('-')) {
+            const rows: string[] = [line, lines[index + 1]];
+            index += 2;
+            while (index < lines.length && lines[index].includes('|') && lines[index].trim()) {
+                rows.push(lines[index]);
+                index++;
+            }
+            html.push(renderTable(rows));
+            continue;
+        }
+
+        const paragraph: string[] = [];
+        while (index < lines.length && lines[index].trim() && !startsBlock(lines, index)) {
+            paragraph.push(lines[index].trim());
+            index++;
+        }
+        html.push(`<p>${paragraph.map(renderInline).join('<br>')}</p>`);
+    }
+
+    return html.join('');
+}
+
+function startsBlock(lines: string[], index: number): boolean {
+    const line = lines[index];
+    return FENCE.test(line)
+        || HEADING.test(line)
+        || RULE.test(line)
+        || QUOTE.test(line)
+        || LIST_ITEM.test(line)
+        || (line.includes('|') && index + 1 < lines.length && TABLE_DIVIDER.test(lines[index + 1]) && lines[index + 1].includes('-'));
+}
+
+function isClosingFence(line: string, marker: string): boolean {
+    const trimmed = line.trim();
+    return trimmed.startsWith(marker) && new RegExp(`^\\${marker[0]}+$`).test(trimmed);
+}
+
+/**
+ * Code blocks carry their language and, when the fence names one
+ * (```ts src/app.ts or ```ts:src/app.ts), a target path for Apply to File.
+ */
+function renderCodeBlock(code: string, info: string): string {
+    const [first = '', ...rest] = info.split(/\s+/);
+    const [language, inlinePath] = first.split(':');
+    const filePath = inlinePath || rest.find(part => /[./\\]/.test(part)) || '';
+
+    const actions = CODE_BLOCK_ACTIONS
+        .map(({ action, label }) => `<button class="code-action" data-action="${action}">${label}</button>`)
+        .join('');
+
+    return `<div class="code-block" data-lang="${escapeHtml(language)}" data-path="${escapeHtml(filePath)}">`
+        + `<div class="code-toolbar"><span class="code-lang">${escapeHtml(filePath || language)}</span>${actions}</div>`
+        + `<pre><code>${highlightCode(code, language)}</code></pre>`
+        + '</div>';
+}
+
+/**
+ * A list runs until a blank line followed by an unindented non-item line, or
+ * an unindented line that is not an item or a lazy continuation.
+ */
+function findListEnd(lines: string[], start: number): number {
+    let index = start + 1;
+    while (index < lines.length) {
+        const line = lines[index];
+        if (!line.trim()) {
+            const next = lines[index + 1];
+            if (next === undefined || (!/^\s/.test(next) && !LIST_ITEM.test(next))) {
+                break;
+            }
+        } else if (!/^\s/.test(line) && !LIST_ITEM.test(line) && startsBlock(lines, index)) {
+            break;
+        }
+        index++;
+    }
+    return index;
+}
+
+function renderList(lines: string[]): string {
+    const baseIndent = LIST_ITEM.exec(lines[0])![1].length;
+    const ordered = /^\d/.test(LIST_ITEM.exec(lines[0])![2]);
+    const items: string[][] = [];
+
+    for (const line of lines) {
+        const item = LIST_ITEM.exec(line);
+        if (item && item[1].length <= baseIndent) {
+            items.push([item[3]]);
+        } else if (items.length > 0) {
+            // Nested content loses the parent's indentation so it parses as its own blocks
+            items[items.length - 1].push(line.slice(Math.min(baseIndent + 2, line.length - line.trimStart().length)));
+        }
+    }
+
+    const tag = ordered ? 'ol' : 'ul';
+    const start = ordered ? parseInt(LIST_ITEM.exec(lines[0])![2], 10) : 1;
+    const body = items.map(item => {
+        const content = renderBlocks(item);
+        // A single paragraph is shown inline, like a tight markdown list
+        const tight = /^<p>((?:(?!<p>)[\s\S])*)<\/p>$/.exec(content);
+        return `<li>${tight ? tight[1] : content.replace(/^<p>([\s\S]*?)<\/p>/, '$1')}</li>`;
+    }).join('');
+
+    return `<${tag}${start !== 1 ? ` start="${start}"` : ''}>${body}</${tag}>`;
+}
+
+function renderTable(rows: string[]): string {
+    const cells = (row: string) => row.trim().replace(/^\|/, '').replace(/\|$/, '').split('|').map(cell => cell.trim());
+
+    const alignments = cells(rows[1]).map(divider => {
+        if (divider.startsWith(':') && divider.endsWith(':')) {
+            return 'center';
+        }
+        return divider.endsWith(':') ? 'right' : divider.startsWith(':') ? 'left' : '';
+    });
+    const align = (column: number) => alignments[column] ? ` style="text-align: ${alignments[column]}"` : '';
+
+    const header = cells(rows[0]).map((cell, column) => `<th${align(column)}>${renderInline(cell)}</th>`).join('');
+    const body = rows.slice(2)
+        .map(row => `<tr>${cells(row).map((cell, column) => `<td${align(column)}>${renderInline(cell)}</td>`).join('')}</tr>`)
+        .join('');
+
+    return `<table><thead><tr>${header}</tr></thead><tbody>${body}</tbody></table>`;
+}
+
+/**
+ * Inline markdown. Generated HTML is parked behind placeholders so later
+ * patterns cannot match inside code spans or link targets.
+ */
+function renderInline(text: string): string {
+    const stash: string[] = [];
+    const park = (html: string) => `\0${stash.push(html) - 1}\0`;
+
+    let html = text
+        .replace(/(`+)([^`]|[^`][\s\S]*?[^`])\1(?!`)/g, (_, __, code: string) => park(`<code>${escapeHtml(code.trim())}</code>`))
+        .replace(/\[([^\]]+)\]\(((?:[^()\s]|\([^()\s]*\))+)(?:\s+"[^"]*")?\)/g, (_, label: string, url: string) =>
+            SAFE_LINK.test(url) ? park(`<a href="${escapeHtml(url)}">`) + label + park('</a>') : label)
+        .replace(/<(https?:\/\/[^\s<>]+)>/g, (_, url: string) => park(`<a href="${escapeHtml(url)}">${escapeHtml(url)}</a>`))
+        .replace(/\bhttps?:\/\/[^\s<>"'\])]*[^\s<>"'\]).,;:!?]/g, url => park(`<a href="${escapeHtml(url)}">${escapeHtml(url)}</a>`));
+    html = escapeHtml(html);
+
+    html = html
+        .replace(/\*\*(?=\S)([\s\S]*?\S)\*\*/g, '<strong>$1</strong>')
+        .replace(/__(?=\S)([\s\S]*?\S)__/g, '<strong>$1</strong>')
+        .replace(/\*(?=\S)([\s\S]*?\S)\*/g, '<em>$1</em>')
+        .replace(/(^|[^\w])_(?=\S)([\s\S]*?\S)_(?!\w)/g, '$1<em>$2</em>')
+        .replace(/~~(?=\S)([\s\S]*?\S)~~/g, '<del>$1</del>');
+
+    return html.replace(/\0(\d+)\0/g, (_, index: string) => stash[Number(index)]);
+}
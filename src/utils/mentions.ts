@@ -0,0 +1,50 @@
+import { ContextDiagnostic, ContextFile, Mention, MentionKind } from '../types';
+
+const MENTION = /(?<=^|\s)@(?:(file|folder|symbol|git):(?:"([^"]+)"|(\S+))|(problems)\b)/g;
+// Sentence punctuation after a mention is not part of the path or name
+const TRAILING_PUNCTUATION = /[.,;:!?)\]]+$/;
+
+/**
+ * Finds the mentions in a chat message, each once.
+ */
+export function parseMentions(message: string): Mention[] {
+    const mentions = new Map<string, Mention>();
+    for (const match of message.matchAll(MENTION)) {
+        const kind = (match[1] ?? match[4]) as MentionKind;
+        const value = match[2] ?? match[3]?.replace(TRAILING_PUNCTUATION, '') ?? '';
+        if (kind !== 'problems' && !value) {
+            continue;
+        }
+        const text = formatMention(kind, value);
+        if (!mentions.has(text)) {
+            mentions.set(text, { kind, value, text });
+        }
+    }
+    return [...mentions.values()];
+}
+
+/**
+ * Writes a mention the way it is typed, quoting values with spaces.
+ */
+export function formatMention(kind: MentionKind, value: string): string {
+    if (kind === 'problems') {
+        return '@problems';
+    }
+    return `@${kind}:${/\s/.test(value) ? `"${value}"` : value}`;
+}
+
+/**
+ * Context for one message: the persistent entries plus the mentioned ones
+ * that are not already among them.
+ */
+export function mergeContextFiles(persistent: ContextFile[], mentioned: ContextFile[]): ContextFile[] {
+    const key = (file: ContextFile) => `${file.uri.toString()}#${file.range ? `${file.range.startLine}-${file.range.endLine}` : ''}`;
+    const active = new Set(persistent.filter(file => file.isActive).map(key));
+    return [...persistent, ...mentioned.filter(file => !active.has(key(file)))];
+}
+
+export function mergeDiagnostics(persistent: ContextDiagnostic[], mentioned: ContextDiagnostic[]): ContextDiagnostic[] {
+    const key = (diagnostic: ContextDiagnostic) => `${diagnostic.relativePath}:${diagnostic.range.startLine}:${diagnostic.column}:${diagnostic.message}`;
+    const seen = new Set(persistent.map(key));
+    return [...persistent, ...mentioned.filter(diagnostic => !seen.has(key(diagnostic)))];
+}
@@ -0,0 +1,107 @@
+import { ExtensionMode, ModeDefinition } from '../types';
+import { isRecord } from './json';
+
+export const BUILT_IN_MODES: ModeDefinition[] = [
+    { id: ExtensionMode.Edit, name: 'Edit', icon: '✏️', description: 'Direct file editing with AI assistance', allowEdits: true },
+    { id: ExtensionMode.Agent, name: 'Agent', icon: '🤖', description: 'Autonomous AI agent for complex tasks', allowEdits: true },
+    { id: ExtensionMode.Ask, name: 'Ask', icon: '💬', description: 'Question & answer mode' },
+    { id: ExtensionMode.Audit, name: 'Audit', icon: '🛡️', description: 'Security audit of the Solidity files in context' }
+];
+
+const MODE_ID = /^[a-z0-9][a-z0-9_-]*$/;
+const SUBCOMMAND = /^[a-z][a-z0-9-]*$/;
+const PLACEHOLDER = /\{\{\s*(request|context)\s*\}\}/g;
+
+/**
+ * Reads custom mode definitions from a setting value or a mode file, which
+ * may hold one mode or an array of them. Invalid entries are left out and
+ * described in `errors`.
+ */
+export function parseModeDefinitions(value: unknown, source: string): { modes: ModeDefinition[]; errors: string[] } {
+    const entries: unknown[] = Array.isArray(value) ? value : [value];
+    const modes: ModeDefinition[] = [];
+    const errors: string[] = [];
+    const optionalString = (entry: Record<string, unknown>, key: string) => {
+        const field = entry[key];
+        return typeof field === 'string' && field.trim() ? field.trim() : undefined;
+    };
+
+    entries.forEach((entry, index) => {
+        const where = entries.length > 1 ? `${source} (mode ${index + 1})` : source;
+        if (!isRecord(entry)) {
+            errors.push(`${where}: expected a mode object`);
+            return;
+        }
+
+        const id = typeof entry.id === 'string' ? entry.id.trim() : '';
+        if (!MODE_ID.test(id)) {
+            errors.push(`${where}: "id" must be lowercase letters, digits, "-" or "_"`);
+            return;
+        }
+        if (BUILT_IN_MODES.some(mode => mode.id === id)) {
+            errors.push(`${where}: "${id}" is a built-in mode`);
+            return;
+        }
+        const command = optionalString(entry, 'command');
+        if (command && !SUBCOMMAND.test(command)) {
+            errors.push(`${where}: "command" must be a single CLI subcommand such as "prompt"`);
+            return;
+        }
+        const tools = entry.tools;
+        if (tools !== undefined && !(Array.isArray(tools) && tools.every((tool): tool is string => typeof tool === 'string'))) {
+            errors.push(`${where}: "tools" must be a list of tool names`);
+            return;
+        }
+
+        modes.push({
+            id,
+            name: optionalString(entry, 'name') ?? id.charAt(0).toUpperCase() + id.slice(1),
+            icon: optionalString(entry, 'icon') ?? '✨',
+            description: optionalString(entry, 'description'),
+            systemPrompt: optionalString(entry, 'systemPrompt'),
+            command,
+            model: optionalString(entry, 'model'),
+            allowEdits: entry.allowEdits === true,
+            tools,
+            source
+        });
+    });
+
+    return { modes, errors };
+}
+
+/**
+ * Fills in a mode's prompt template. The request and context go where
+ * `{{request}}` and `{{context}}` appear, or after the instructions when the
+ * template leaves them out.
+ */
+export function renderModePrompt(template: string, request: string, context: string): string {
+    const uses = (name: string) => new RegExp(`\\{\\{\\s*${name}\\s*\\}\\}`).test(template);
+    const prompt = template.replace(PLACEHOLDER, (_match, name: string) => name === 'request' ? request : context);
+
+    return [
+        prompt,
+        !uses('context') && context ? `Context:\n${context}` : '',
+        !uses('request') ? `Request: ${request}` : ''
+    ].filter(Boolean).join('\n\n');
+}
+
+/**
+ * Whether a mode may call an agent tool. Edits need `allowEdits`; other tools
+ * must be listed in `tools` when it is given, where `server/*` allows every
+ * tool of an MCP server and `*` allows all of them.
+ */
+export function isToolAllowed(mode: ModeDefinition, tool: string): boolean {
+    if (tool === 'propose_edit') {
+        return !!mode.allowEdits;
+    }
+    return !mode.tools || mode.tools.some(pattern =>
+        pattern === '*' || pattern === tool || (pattern.endsWith('/*') && tool.startsWith(pattern.slice(0, -1))));
+}
+
+/**
+ * Whether a mode runs through the agent loop rather than a single prompt.
+ */
+export function usesAgentLoop(mode: ModeDefinition): boolean {
+    return !!mode.allowEdits || (mode.tools?.length ?? 0) > 0;
+}
@@ -0,0 +1,22 @@
+import { ChildProcess, spawn } from 'child_process';
+
+/**
+ * Stops a process started with `detached` on POSIX, along with everything it
+ * started. On Windows the tree is killed with taskkill.
+ */
+export function killProcessTree(child: ChildProcess): void {
+    if (child.pid === undefined || child.exitCode !== null) {
+        return;
+    }
+
+    try {
+        if (process.platform === 'win32') {
+            spawn('taskkill', ['/pid', String(child.pid), '/T', '/F']);
+        } else {
+            process.kill(-child.pid, 'SIGTERM');
+        }
+    } catch (error) {
+        // Group already gone; fall back to the direct child
+        child.kill();
+    }
+}
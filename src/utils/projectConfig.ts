@@ -0,0 +1,118 @@
+import { CodeForgeConfig } from '../types';
+
+export const PROJECT_CONFIG_FILE = '.codeforgex.json';
+
+type ValueType = 'string' | 'number' | 'boolean' | 'string[]' | 'numberRecord';
+
+/**
+ * Settings a project file may override. Those that run programs or reach
+ * other hosts (the CLI path, MCP servers, the devnet URL) stay in the user's
+ * own settings, so opening a repository cannot change them.
+ */
+const PROJECT_KEYS = {
+    defaultModel: 'string',
+    models: 'string[]',
+    timeout: 'number',
+    contextBudget: 'number',
+    modelContextBudgets: 'numberRecord',
+    agentMaxSteps: 'number',
+    commitMessageConvention: 'string',
+    commitSubjectMaxLength: 'number',
+    includeSolidityDependencies: 'boolean',
+    contractTestTimeout: 'number',
+    ignorePatterns: 'string[]',
+    customInstructions: 'string'
+} satisfies Partial<Record<keyof CodeForgeConfig, ValueType>>;
+
+export type ProjectConfigKey = keyof typeof PROJECT_KEYS;
+export type ProjectConfig = Partial<Pick<CodeForgeConfig, ProjectConfigKey>>;
+
+const ENUMS: Partial<Record<ProjectConfigKey, string[]>> = {
+    commitMessageConvention: ['conventional', 'none']
+};
+
+/**
+ * Reads a `.codeforgex.json` file. Unknown keys and values of the wrong type
+ * are left out and described in `errors`; the rest still applies.
+ */
+export function parseProjectConfig(text: string): { config: ProjectConfig; errors: string[] } {
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch (error) {
+        return { config: {}, errors: [`not valid JSON (${error instanceof Error ? error.message : 'parse error'})`] };
+    }
+    if (!data || typeof data !== 'object' || Array.isArray(data)) {
+        return { config: {}, errors: ['expected an object of settings'] };
+    }
+
+    const config: Record<string, unknown> = {};
+    const errors: string[] = [];
+    for (const [key, value] of Object.entries(data)) {
+        if (key === '$schema') {
+            continue;
+        }
+        // Own keys only, so names like "constructor" or "__proto__" are not mistaken for settings
+        const type: ValueType | undefined = Object.hasOwn(PROJECT_KEYS, key) ? PROJECT_KEYS[key as ProjectConfigKey] : undefined;
+        if (!type) {
+            errors.push(`"${key}" is not a setting that can be set per project`);
+            continue;
+        }
+        if (!matchesType(value, type)) {
+            errors.push(`"${key}" must be ${describeType(type)}`);
+            continue;
+        }
+        const allowed = ENUMS[key as ProjectConfigKey];
+        if (allowed && !allowed.includes(value as string)) {
+            errors.push(`"${key}" must be one of ${allowed.map(option => `"${option}"`).join(', ')}`);
+            continue;
+        }
+        config[key] = value;
+    }
+
+    return { config: config as ProjectConfig, errors };
+}
+
+/**
+ * Applies a project file over the settings of its folder. Ignore patterns and
+ * custom instructions are added to those in settings rather than replacing them.
+ */
+export function mergeProjectConfig(settings: CodeForgeConfig, project: ProjectConfig): CodeForgeConfig {
+    return {
+        ...settings,
+        ...project,
+        ignorePatterns: [...settings.ignorePatterns, ...project.ignorePatterns ?? []],
+        customInstructions: [settings.customInstructions, project.customInstructions].filter(Boolean).join('\n\n')
+    };
+}
+
+function matchesType(value: unknown, type: ValueType): boolean {
+    switch (type) {
+        case 'string':
+            return typeof value === 'string';
+        case 'number':
+            return typeof value === 'number' && Number.isFinite(value) && value > 0;
+        case 'boolean':
+            return typeof value === 'boolean';
+        case 'string[]':
+            return Array.isArray(value) && value.every(item => typeof item === 'string');
+        case 'numberRecord':
+            return !!value && typeof value === 'object' && !Array.isArray(value)
+                && Object.values(value).every(item => typeof item === 'number' && item > 0);
+    }
+}
+
+function describeType(type: ValueType): string {
+    switch (type) {
+        case 'string':
+            return 'a string';
+        case 'number':
+            return 'a positive number';
+        case 'boolean':
+            return 'true or false';
+        case 'string[]':
+            return 'a list of strings';
+        case 'numberRecord':
+            return 'an object of positive numbers';
+    }
+}
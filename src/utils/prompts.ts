@@ -0,0 +1,87 @@
+import { PromptTemplate } from '../types';
+
+/** Variables a prompt template can use, besides `{{input}}`. */
+export type PromptVariable = 'selection' | 'file' | 'diagnostics' | 'diff';
+
+const PROMPT_NAME = /^[a-z0-9][a-z0-9_-]*$/;
+const VARIABLE = /\{\{\s*(selection|file|diagnostics|diff|input)\s*\}\}/g;
+
+/**
+ * The slash commands that ship with the extension. `/commit` follows the
+ * configured commit message convention, passed in as instructions.
+ */
+export function builtInPrompts(commitInstructions: string): PromptTemplate[] {
+    return [
+        {
+            name: 'explain',
+            description: 'Explain the selected code',
+            body: 'Explain what this code from `{{file}}` does, how it works and anything surprising about it.\n\n```\n{{selection}}\n```'
+        },
+        {
+            name: 'tests',
+            description: 'Write tests for the selected code',
+            body: 'Write unit tests for this code from `{{file}}`, using the test framework and conventions the project already uses. '
+                + 'Cover edge cases and failure paths.\n\n```\n{{selection}}\n```'
+        },
+        {
+            name: 'docs',
+            description: 'Document the selected code',
+            body: 'Write documentation comments for this code from `{{file}}`, in the style the file already uses. '
+                + 'Reply with the documented code.\n\n```\n{{selection}}\n```'
+        },
+        {
+            name: 'fix',
+            description: 'Fix the problems in the selected code',
+            body: 'Fix the problems in this code from `{{file}}`. Explain the cause briefly, then give the corrected code.\n\n'
+                + 'Problems:\n{{diagnostics}}\n\n```\n{{selection}}\n```'
+        },
+        {
+            name: 'commit',
+            description: 'Write a commit message for the current changes',
+            body: `${commitInstructions}\n\n\`\`\`diff\n{{diff}}\n\`\`\``
+        }
+    ];
+}
+
+/**
+ * Reads a prompt file: Markdown, optionally starting with a front matter
+ * block whose `description` is shown when completing the command.
+ */
+export function parsePromptFile(fileName: string, text: string, source: string): PromptTemplate | undefined {
+    const name = fileName.replace(/\.md$/i, '').toLowerCase();
+    if (!PROMPT_NAME.test(name)) {
+        return undefined;
+    }
+
+    const frontMatter = /^---\r?\n([\s\S]*?)\r?\n---\r?\n?/.exec(text);
+    const description = frontMatter && /^description:\s*(.+)$/m.exec(frontMatter[1])?.[1].trim().replace(/^(["'])(.*)\1$/, '$2');
+    const body = (frontMatter ? text.slice(frontMatter[0].length) : text).trim();
+    return body ? { name, description: description || undefined, body, source } : undefined;
+}
+
+/**
+ * Splits a chat message of the form `/name rest` into the command name and
+ * the text after it.
+ */
+export function parseSlashCommand(message: string): { name: string; input: string } | undefined {
+    const match = /^\/([a-z0-9][a-z0-9_-]*)(?:\s+([\s\S]*))?$/i.exec(message.trim());
+    return match ? { name: match[1].toLowerCase(), input: (match[2] ?? '').trim() } : undefined;
+}
+
+/**
+ * The variables a template refers to, so only those are looked up.
+ */
+export function templateVariables(body: string): PromptVariable[] {
+    const names = [...body.matchAll(VARIABLE)].map(match => match[1]).filter(name => name !== 'input');
+    return [...new Set(names)] as PromptVariable[];
+}
+
+/**
+ * Fills in a template. Text typed after the command goes where `{{input}}`
+ * appears, or at the end when the template does not place it.
+ */
+export function expandPromptTemplate(body: string, input: string, variables: Partial<Record<PromptVariable, string>>): string {
+    const placesInput = /\{\{\s*input\s*\}\}/.test(body);
+    const prompt = body.replace(VARIABLE, (_match, name: string) => name === 'input' ? input : variables[name as PromptVariable] ?? '');
+    return !placesInput && input ? `${prompt}\n\n${input}` : prompt;
+}
@@ -0,0 +1,54 @@
+import { ReviewFinding } from '../types';
+
+const SEVERITIES: ReviewFinding['severity'][] = ['error', 'warning', 'info'];
+
+/**
+ * Asks for review findings as a JSON array on the numbered diff.
+ */
+export function formatReviewInstructions(): string {
+    return [
+        'Review the changes in the diff below like a careful senior engineer. Lines of the new version are prefixed with their line number.',
+        'Report bugs, security problems, missing error handling and unclear code. Skip style nits and praise.',
+        'Reply with a JSON array only, one object per finding:',
+        '```json',
+        '[{"file": "path/from/diff", "startLine": 12, "endLine": 14, "severity": "error" | "warning" | "info", "message": "what is wrong and why", "suggestion": "replacement for lines startLine-endLine"}]',
+        '```',
+        'Line numbers refer to the new version. Leave out "suggestion" when there is no concrete fix. Reply with [] when there is nothing to report.'
+    ].join('\n');
+}
+
+/**
+ * Reads findings from a model reply. Entries without a file, a line or a
+ * message are dropped; unknown severities become warnings.
+ */
+export function parseReviewFindings(text: string): ReviewFinding[] {
+    const block = /```(?:json)?[^\S\n]*\r?\n([\s\S]*?)```/.exec(text);
+    const source = block ? block[1] : text.slice(text.indexOf('['), text.lastIndexOf(']') + 1);
+
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(source);
+    } catch (error) {
+        throw new Error('The review reply was not valid JSON');
+    }
+    if (!Array.isArray(parsed)) {
+        throw new Error('The review reply was not a list of findings');
+    }
+
+    return parsed.flatMap((entry): ReviewFinding[] => {
+        const startLine = Number(entry?.startLine ?? entry?.line);
+        if (typeof entry?.file !== 'string' || !entry.file || typeof entry.message !== 'string' || !(startLine >= 1)) {
+            return [];
+        }
+
+        const endLine = Number(entry.endLine);
+        return [{
+            file: entry.file.replace(/^[ab]\//, ''),
+            startLine,
+            endLine: endLine >= startLine ? endLine : startLine,
+            severity: SEVERITIES.includes(entry.severity) ? entry.severity : 'warning',
+            message: entry.message,
+            suggestion: typeof entry.suggestion === 'string' ? entry.suggestion : undefined
+        }];
+    });
+}
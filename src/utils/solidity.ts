@@ -0,0 +1,230 @@
+import { SolidityFinding } from '../types';
+
+export interface SolidityDeclaration {
+    kind: 'contract' | 'interface' | 'library';
+    name: string;
+    /** Contracts and interfaces it inherits from. */
+    bases: string[];
+    /** Libraries attached with `using ... for`. */
+    libraries: string[];
+}
+
+export interface Remapping {
+    /** Only applies to files under this path, when set. */
+    context?: string;
+    prefix: string;
+    target: string;
+}
+
+/**
+ * The SWC Registry (https://swcregistry.io) weakness classes findings are mapped to.
+ */
+export const SWC_REGISTRY: Record<string, string> = {
+    'SWC-100': 'Function Default Visibility',
+    'SWC-101': 'Integer Overflow and Underflow',
+    'SWC-102': 'Outdated Compiler Version',
+    'SWC-103': 'Floating Pragma',
+    'SWC-104': 'Unchecked Call Return Value',
+    'SWC-105': 'Unprotected Ether Withdrawal',
+    'SWC-106': 'Unprotected SELFDESTRUCT Instruction',
+    'SWC-107': 'Reentrancy',
+    'SWC-108': 'State Variable Default Visibility',
+    'SWC-109': 'Uninitialized Storage Pointer',
+    'SWC-110': 'Assert Violation',
+    'SWC-111': 'Use of Deprecated Solidity Functions',
+    'SWC-112': 'Delegatecall to Untrusted Callee',
+    'SWC-113': 'DoS with Failed Call',
+    'SWC-114': 'Transaction Order Dependence',
+    'SWC-115': 'Authorization through tx.origin',
+    'SWC-116': 'Block values as a proxy for time',
+    'SWC-117': 'Signature Malleability',
+    'SWC-118': 'Incorrect Constructor Name',
+    'SWC-119': 'Shadowing State Variables',
+    'SWC-120': 'Weak Sources of Randomness from Chain Attributes',
+    'SWC-121': 'Missing Protection against Signature Replay Attacks',
+    'SWC-122': 'Lack of Proper Signature Verification',
+    'SWC-123': 'Requirement Violation',
+    'SWC-124': 'Write to Arbitrary Storage Location',
+    'SWC-125': 'Incorrect Inheritance Order',
+    'SWC-126': 'Insufficient Gas Griefing',
+    'SWC-127': 'Arbitrary Jump with Function Type Variable',
+    'SWC-128': 'DoS With Block Gas Limit',
+    'SWC-129': 'Typographical Error',
+    'SWC-130': 'Right-To-Left-Override control character (U+202E)',
+    'SWC-131': 'Presence of unused variables',
+    'SWC-132': 'Unexpected Ether balance',
+    'SWC-133': 'Hash Collisions With Multiple Variable Length Arguments',
+    'SWC-134': 'Message call with hardcoded gas amount',
+    'SWC-135': 'Code With No Effects',
+    'SWC-136': 'Unencrypted Private Data On-Chain'
+};
+
+const SEVERITIES: SolidityFinding['severity'][] = ['high', 'medium', 'low', 'info'];
+
+/**
+ * Blanks out comments, keeping offsets and line numbers intact.
+ */
+export function stripSolidityComments(source: string): string {
+    return source.replace(/\/\*[\s\S]*?\*\/|\/\/[^\n]*/g, comment => comment.replace(/[^\n]/g, ' '));
+}
+
+/**
+ * Paths of every import directive, in source order.
+ */
+export function parseSolidityImports(source: string): string[] {
+    const imports: string[] = [];
+    const directive = /\bimport\s+(?:[^;"']*?\bfrom\s+)?(["'])([^"']+)\1[^;]*;/g;
+    for (const match of stripSolidityComments(source).matchAll(directive)) {
+        imports.push(match[2]);
+    }
+    return imports;
+}
+
+/**
+ * Contracts, interfaces and libraries declared in a file, with what each
+ * inherits and the libraries it attaches.
+ */
+export function parseSolidityDeclarations(source: string): SolidityDeclaration[] {
+    const code = stripSolidityComments(source);
+    const declarations: SolidityDeclaration[] = [];
+    const header = /\b(?:abstract\s+)?(contract|interface|library)\s+([A-Za-z_$][\w$]*)\s*(?:\bis\s+([^{]*))?\{/g;
+
+    const matches = [...code.matchAll(header)];
+    matches.forEach((match, index) => {
+        // The body runs up to the next declaration; precise enough to find `using` directives
+        const body = code.slice(match.index! + match[0].length, matches[index + 1]?.index ?? code.length);
+        const libraries = [...body.matchAll(/\busing\s+([A-Za-z_$][\w$.]*)\s+for\b/g)].map(using => using[1].split('.')[0]);
+
+        declarations.push({
+            kind: match[1] as SolidityDeclaration['kind'],
+            name: match[2],
+            bases: splitBases(match[3] ?? ''),
+            libraries: [...new Set(libraries)]
+        });
+    });
+
+    return declarations;
+}
+
+/**
+ * Names referenced from a base list like `ERC20("Token", "TKN"), Ownable(msg.sender)`.
+ */
+function splitBases(list: string): string[] {
+    const bases: string[] = [];
+    let depth = 0;
+    let current = '';
+    for (const char of list) {
+        if (char === '(') {
+            depth++;
+        } else if (char === ')') {
+            depth--;
+        } else if (char === ',' && depth === 0) {
+            bases.push(current);
+            current = '';
+        } else if (depth === 0) {
+            current += char;
+        }
+    }
+    bases.push(current);
+    return bases.map(base => base.trim().split('.').pop()!).filter(Boolean);
+}
+
+/**
+ * Parses remappings in `remappings.txt` form: `[context:]prefix=target`, one per line.
+ */
+export function parseRemappings(lines: string[]): Remapping[] {
+    return lines.flatMap((line): Remapping[] => {
+        const match = /^\s*(?:([^:=\s]+):)?([^=\s]+)=(\S*)\s*$/.exec(line);
+        return match ? [{ context: match[1], prefix: match[2], target: match[3] }] : [];
+    });
+}
+
+/**
+ * Reads the `remappings = [...]` arrays of a foundry.toml.
+ */
+export function parseFoundryRemappings(toml: string): Remapping[] {
+    const entries: string[] = [];
+    for (const match of toml.matchAll(/^\s*remappings\s*=\s*\[([\s\S]*?)\]/gm)) {
+        for (const entry of match[1].matchAll(/(["'])(.*?)\1/g)) {
+            entries.push(entry[2]);
+        }
+    }
+    return parseRemappings(entries);
+}
+
+/**
+ * Applies the longest matching remapping to an import path, as solc does.
+ * `fromPath` is the importing file relative to the project root.
+ */
+export function applyRemappings(importPath: string, remappings: Remapping[], fromPath: string): string {
+    let best: Remapping | undefined;
+    for (const remapping of remappings) {
+        if (!importPath.startsWith(remapping.prefix) || (remapping.context && !fromPath.startsWith(remapping.context))) {
+            continue;
+        }
+        if (!best || remapping.prefix.length > best.prefix.length || (remapping.prefix.length === best.prefix.length && (remapping.context?.length ?? 0) > (best.context?.length ?? 0))) {
+            best = remapping;
+        }
+    }
+    return best ? best.target + importPath.slice(best.prefix.length) : importPath;
+}
+
+/**
+ * Asks for vulnerability findings as a JSON array, classified by SWC ID and,
+ * when categories are given, by category. `notes` are the user's own instructions.
+ */
+export function formatVulnerabilityInstructions(focus: string[], categories?: string[], notes?: string): string {
+    const category = categories?.length ? `, "category": ${categories.map(name => JSON.stringify(name)).join(' | ')}` : '';
+    return [
+        `Audit the Solidity code in ${focus.join(', ')} for security vulnerabilities. The other files are dependencies, included for reference.`,
+        categories?.length ? `Look in particular for: ${categories.join(', ')}.` : '',
+        notes ? `Instructions from the user: ${notes}` : '',
+        'Classify each finding with the closest SWC Registry ID (e.g. SWC-107 for reentrancy). Report only real, exploitable or clearly risky issues.',
+        'Reply with a JSON array only, one object per finding:',
+        '```json',
+        `[{"file": "path/as/given", "line": 42, "endLine": 48, "swc": "SWC-107"${category}, "severity": "high" | "medium" | "low" | "info", "title": "short name", "description": "what is wrong and how it can be exploited", "recommendation": "how to fix it"}]`,
+        '```',
+        'Reply with [] when nothing is found.'
+    ].filter(Boolean).join('\n');
+}
+
+/**
+ * Reads findings from a model reply. Entries without a file, line or title
+ * are dropped, unknown severities become medium and SWC IDs are normalized.
+ */
+export function parseSolidityFindings(text: string): SolidityFinding[] {
+    const block = /```(?:json)?[^\S\n]*\r?\n([\s\S]*?)```/.exec(text);
+    const source = block ? block[1] : text.slice(text.indexOf('['), text.lastIndexOf(']') + 1);
+
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(source);
+    } catch (error) {
+        throw new Error('The audit reply was not valid JSON');
+    }
+    if (!Array.isArray(parsed)) {
+        throw new Error('The audit reply was not a list of findings');
+    }
+
+    return parsed.flatMap((entry): SolidityFinding[] => {
+        const line = Number(entry?.line);
+        const title = entry?.title ?? entry?.name;
+        if (typeof entry?.file !== 'string' || !entry.file || typeof title !== 'string' || !(line >= 1)) {
+            return [];
+        }
+
+        const endLine = Number(entry.endLine);
+        const swcNumber = /(\d{3})/.exec(String(entry.swc ?? ''))?.[1];
+        return [{
+            file: entry.file,
+            line,
+            endLine: endLine >= line ? endLine : line,
+            swc: swcNumber ? `SWC-${swcNumber}` : undefined,
+            severity: SEVERITIES.includes(entry.severity) ? entry.severity : 'medium',
+            title,
+            description: typeof entry.description === 'string' ? entry.description : '',
+            recommendation: typeof entry.recommendation === 'string' ? entry.recommendation : undefined,
+            category: typeof entry.category === 'string' && entry.category ? entry.category : undefined
+        }];
+    });
+}
@@ -0,0 +1,17 @@
+// Rough average for code and English text across common tokenizers
+const CHARS_PER_TOKEN = 4;
+
+export function estimateTokens(text: string): number {
+    return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Largest character count that stays within the given number of tokens.
+ */
+export function tokensToChars(tokens: number): number {
+    return Math.max(0, tokens) * CHARS_PER_TOKEN;
+}
+
+export function formatTokens(tokens: number): string {
+    return tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : `${tokens}`;
+}
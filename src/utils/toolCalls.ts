@@ -0,0 +1,66 @@
+export interface ToolCall {
+    /** Qualified tool name, e.g. `server/tool`. */
+    tool: string;
+    arguments: Record<string, unknown>;
+}
+
+export interface ToolDescription {
+    name: string;
+    description?: string;
+    inputSchema?: Record<string, unknown>;
+}
+
+const TOOL_CALL_BLOCK = /```tool_call[^\S\n]*\r?\n([\s\S]*?)```/g;
+
+/**
+ * Extracts the fenced `tool_call` blocks from a model response. Blocks that are
+ * not valid JSON or lack a tool name are ignored.
+ */
+export function parseToolCalls(text: string): ToolCall[] {
+    const calls: ToolCall[] = [];
+
+    for (const match of text.matchAll(TOOL_CALL_BLOCK)) {
+        try {
+            const parsed = JSON.parse(match[1]);
+            if (typeof parsed?.tool === 'string' && parsed.tool) {
+                const args = parsed.arguments;
+                calls.push({
+                    tool: parsed.tool,
+                    arguments: args && typeof args === 'object' && !Array.isArray(args) ? args : {}
+                });
+            }
+        } catch (error) {
+            // Not a call the model finished writing; leave it as plain text
+        }
+    }
+
+    return calls;
+}
+
+/**
+ * Removes the `tool_call` blocks from a response, leaving the prose around them.
+ */
+export function stripToolCalls(text: string): string {
+    return text.replace(TOOL_CALL_BLOCK, '').replace(/\n{3,}/g, '\n\n').trim();
+}
+
+/**
+ * Describes the available tools and the calling convention for the prompt.
+ */
+export function formatToolInstructions(tools: ToolDescription[]): string {
+    const catalog = tools.map(tool => {
+        const schema = tool.inputSchema ? `\n  Input schema: ${JSON.stringify(tool.inputSchema)}` : '';
+        return `- ${tool.name}${tool.description ? `: ${tool.description}` : ''}${schema}`;
+    }).join('\n');
+
+    return [
+        'You can use the following tools:',
+        catalog,
+        '',
+        'To call a tool, reply with a fenced block and nothing after it:',
+        '```tool_call',
+        '{"tool": "<tool name>", "arguments": {}}',
+        '```',
+        'The results will be sent back to you. Answer normally once you no longer need tools.'
+    ].join('\n');
+}
@@ -0,0 +1,8 @@
+import { randomBytes } from 'crypto';
+
+/**
+ * Nonce for the script tags allowed by a webview's Content-Security-Policy.
+ */
+export function getNonce(): string {
+    return randomBytes(16).toString('base64');
+}